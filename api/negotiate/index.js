@@ -1,9 +1,8 @@
 const { WebPubSubServiceClient } = require('@azure/web-pubsub');
+const { Authorise } = require('../shared/auth');
+const { Assigned_Role } = require('../shared/roles');
 
 module.exports = async function (context, req) {
-	const room = req.query.room || 'default';
-	const user = req.query.user || 'anon';
-
 	const connection_string = process.env.WEBPUBSUB_CONNECTION_STRING;
 	if (!connection_string) {
 		context.res = { status: 500, body: { error: 'WebPubSub not configured' } };
@@ -11,19 +10,28 @@ module.exports = async function (context, req) {
 	}
 
 	try {
+		const result = await Authorise(
+			{ room: req.query.room, user: req.query.user, invite: req.query.invite, create: req.query.create === '1' },
+			req.headers.authorization,
+			{ secret: process.env.ROOM_INVITE_SECRET, client_id: process.env.ENTRA_CLIENT_ID, assigned_role: Assigned_Role },
+		);
+		if (result.error) {
+			context.res = { status: result.error.status, body: { error: result.error.message } };
+			return;
+		}
+		if (result.created) {
+			context.res = { status: 200, headers: { 'Content-Type': 'application/json' }, body: result.created };
+			return;
+		}
+
+		const { user_id, role, roles, invites, host_id } = result.grant;
 		const client = new WebPubSubServiceClient(connection_string, 'whiteboard');
-		const token = await client.getClientAccessToken({
-			userId: user,
-			roles: [
-				`webpubsub.joinLeaveGroup.${room}`,
-				`webpubsub.sendToGroup.${room}`,
-			],
-		});
+		const token = await client.getClientAccessToken({ userId: user_id, roles });
 
 		context.res = {
 			status: 200,
 			headers: { 'Content-Type': 'application/json' },
-			body: { url: token.url },
+			body: { url: token.url, user_id, role, invites, host_id },
 		};
 	} catch (err) {
 		context.log.error('Negotiate error:', err);
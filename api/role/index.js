@@ -0,0 +1,41 @@
+const { WebPubSubServiceClient } = require('@azure/web-pubsub');
+const { Authorise_Role_Change, User_Group } = require('../shared/auth');
+const { Assign_Role } = require('../shared/roles');
+
+// The host makes a member an editor or a viewer. The change applies to the member's current
+// connection and is stored for negotiate, so their later connections get it too.
+module.exports = async function (context, req) {
+	const connection_string = process.env.WEBPUBSUB_CONNECTION_STRING;
+	if (!connection_string) {
+		context.res = { status: 500, body: { error: 'WebPubSub not configured' } };
+		return;
+	}
+
+	try {
+		const result = await Authorise_Role_Change(
+			{ room: req.query.room, user: req.query.user, invite: req.query.invite, target: req.query.target, connection: req.query.connection, role: req.query.role },
+			req.headers.authorization,
+			{ secret: process.env.ROOM_INVITE_SECRET, client_id: process.env.ENTRA_CLIENT_ID },
+		);
+		if (result.error) {
+			context.res = { status: result.error.status, body: { error: result.error.message } };
+			return;
+		}
+
+		const { room, target, connection, role } = result.change;
+		const client = new WebPubSubServiceClient(connection_string, 'whiteboard');
+		const owned = await client.hasPermission(connection, 'joinLeaveGroup', { targetName: User_Group(room, target) });
+		if (!owned) {
+			context.res = { status: 404, body: { error: 'No such connection' } };
+			return;
+		}
+		await Assign_Role(room, target, role);
+		if (role === 'edit') await client.grantPermission(connection, 'sendToGroup', { targetName: room });
+		else await client.revokePermission(connection, 'sendToGroup', { targetName: room });
+
+		context.res = { status: 200, headers: { 'Content-Type': 'application/json' }, body: { target, role } };
+	} catch (err) {
+		context.log.error('Role change error:', err);
+		context.res = { status: 500, body: { error: 'Failed to change role' } };
+	}
+};
@@ -0,0 +1,182 @@
+const crypto = require('crypto');
+
+// Who may join a collab room, and what they may do there.
+// Rooms are created here (so nobody can claim a room id they've merely seen) and joined with
+// signed invites. An invite names the room and a role: 'host' (bound to the creator's identity),
+// 'edit' or 'view'. Invites passed on from the host's name the creator, so clients know whose
+// claim to be host to believe. User ids come from a verified Entra ID token when one is sent, otherwise
+// from a keyed hash of the client's local id, so nobody can pose as another user. Each room has
+// two groups: the room group carries board edits and only editors may send to it; '<room>.all'
+// carries presence, cursors and asset transfers and everyone may send to it.
+// The room's creator can change a member's role while they're connected (Authorise_Role_Change);
+// the change is applied to that member's connection and stored by the caller, which passes it
+// back here (config.assigned_role) when the member next connects, so reconnecting with their
+// old invite can't undo it.
+// Shared by api/negotiate and the local relay (relay/server.mjs).
+
+const ROOM_ID_CHARS = 'abcdefghijkmnpqrstuvwxyz23456789';
+const ROOM_ID_LENGTH = 20; // ~100 bits
+const INVITE_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+const JWKS_URL = 'https://login.microsoftonline.com/common/discovery/v2.0/keys';
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const JWKS_REFETCH_MS = 60 * 1000;
+const CLOCK_SKEW_S = 300;
+
+let jwks_cache = null;
+let jwks_fetched_at = 0;
+
+function Generate_Room_Id() {
+	let id = '';
+	for (let i = 0; i < ROOM_ID_LENGTH; i++) id += ROOM_ID_CHARS[crypto.randomInt(ROOM_ID_CHARS.length)];
+	return id;
+}
+
+function Hmac(secret, text) {
+	return crypto.createHmac('sha256', secret).update(text).digest('base64url');
+}
+
+function Sign_Invite(secret, claims) {
+	const payload = Buffer.from(JSON.stringify({ ...claims, exp: Date.now() + INVITE_LIFETIME_MS })).toString('base64url');
+	return `${payload}.${Hmac(secret, payload)}`;
+}
+
+// The invite's claims ({ room, role, sub?, exp }), or null if it's forged or expired
+function Verify_Invite(secret, invite) {
+	const [payload, signature] = String(invite).split('.');
+	if (!payload || !signature) return null;
+	const expected = Buffer.from(Hmac(secret, payload));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+	try {
+		const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+		return claims.exp > Date.now() ? claims : null;
+	} catch {
+		return null;
+	}
+}
+
+function Guest_User_Id(secret, local_id) {
+	return 'guest_' + Hmac(secret, `guest:${local_id}`).slice(0, 22);
+}
+
+// A token naming a key we don't have refetches the key set, in case Entra has rotated keys, but
+// at most once a minute: otherwise anyone could make every request cost a fetch with made-up kids.
+// Tokens signed with a new key are rejected until the next refetch.
+async function Signing_Key(kid) {
+	const expired = !jwks_cache || jwks_cache.expires < Date.now();
+	const unknown = !expired && !jwks_cache.keys.has(kid) && Date.now() - jwks_fetched_at >= JWKS_REFETCH_MS;
+	if (expired || unknown) {
+		jwks_fetched_at = Date.now();
+		const resp = await fetch(JWKS_URL);
+		if (!resp.ok) throw new Error(`JWKS fetch failed: ${resp.status}`);
+		const { keys } = await resp.json();
+		jwks_cache = { keys: new Map(keys.map(k => [k.kid, k])), expires: Date.now() + JWKS_CACHE_MS };
+	}
+	const jwk = jwks_cache.keys.get(kid);
+	return jwk ? crypto.createPublicKey({ key: jwk, format: 'jwk' }) : null;
+}
+
+// Check an Entra ID token issued to this app. Returns the signed-in user, or null if invalid.
+async function Verify_Entra_Token(token, client_id) {
+	const [header_b64, payload_b64, signature_b64] = token.split('.');
+	if (!header_b64 || !payload_b64 || !signature_b64) return null;
+	try {
+		const header = JSON.parse(Buffer.from(header_b64, 'base64url').toString('utf-8'));
+		const claims = JSON.parse(Buffer.from(payload_b64, 'base64url').toString('utf-8'));
+		if (header.alg !== 'RS256') return null;
+		const key = await Signing_Key(header.kid);
+		if (!key) return null;
+		const valid = crypto.verify('RSA-SHA256', Buffer.from(`${header_b64}.${payload_b64}`), key, Buffer.from(signature_b64, 'base64url'));
+		if (!valid) return null;
+
+		const now = Date.now() / 1000;
+		if (claims.aud !== client_id) return null;
+		if (claims.iss !== `https://login.microsoftonline.com/${claims.tid}/v2.0`) return null;
+		if (!(claims.exp > now - CLOCK_SKEW_S) || (claims.nbf && claims.nbf > now + CLOCK_SKEW_S)) return null;
+		if (!claims.oid) return null;
+		return { user_id: `aad_${claims.oid}`, name: claims.name ?? null };
+	} catch {
+		return null;
+	}
+}
+
+// A group only this user's connections may join. Nobody joins it: it marks which connections
+// belong to the user, so role changes can't be aimed at someone else's connection.
+function User_Group(room, user_id) {
+	return `${room}.user.${user_id}`;
+}
+
+// Web PubSub roles for a room member
+function Room_Roles(room, role, user_id) {
+	const roles = [
+		`webpubsub.joinLeaveGroup.${room}`,
+		`webpubsub.joinLeaveGroup.${room}.all`,
+		`webpubsub.joinLeaveGroup.${User_Group(room, user_id)}`,
+		`webpubsub.sendToGroup.${room}.all`,
+	];
+	if (role !== 'view') roles.push(`webpubsub.sendToGroup.${room}`);
+	return roles;
+}
+
+// Work out what a negotiate request is allowed. 'params' are the query parameters (room, user,
+// invite, create) and 'config' holds the invite secret, the Entra app's client id and
+// assigned_role(room, user_id), which looks up a role the host has given the member.
+// Returns { error: { status, message } }, { created: { room, invite } } for a new room, or
+// { grant: { user_id, room, role, roles, invites, host_id } } to connect with.
+async function Authorise(params, authorization, config) {
+	const identity = await Identify(params, authorization, config);
+	if (identity.error) return identity;
+	const { user_id } = identity;
+
+	if (params.create) {
+		const room = Generate_Room_Id();
+		return { created: { room, invite: Sign_Invite(config.secret, { room, role: 'host', sub: user_id }) } };
+	}
+
+	const claims = params.invite ? Verify_Invite(config.secret, params.invite) : null;
+	if (!claims || claims.room !== params.room) return { error: { status: 403, message: 'Invalid or expired invite' } };
+	if (claims.sub && claims.sub !== user_id) return { error: { status: 403, message: 'This invite belongs to someone else' } };
+
+	// The host's role can't be changed; anyone else's may have been since their invite was made
+	const role = claims.role === 'host' ? 'host' : (await config.assigned_role?.(claims.room, user_id)) ?? claims.role;
+
+	// Members can pass on invites up to their own role
+	const host_id = claims.role === 'host' ? user_id : claims.host ?? null;
+	const shareable = role === 'view' ? ['view'] : ['edit', 'view'];
+	const invites = Object.fromEntries(shareable.map(r => [r, Sign_Invite(config.secret, { room: claims.room, role: r, host: host_id ?? undefined })]));
+	return { grant: { user_id, room: claims.room, role, roles: Room_Roles(claims.room, role, user_id), invites, host_id } };
+}
+
+// Check a request to change a member's role. 'params' are the query parameters (room, user,
+// invite, target, connection, role): only the holder of the room's host invite may make changes.
+// Returns { error: { status, message } } or { change: { room, target, connection, role } }, which
+// the caller applies to the target's connection after checking it's theirs (see User_Group).
+async function Authorise_Role_Change(params, authorization, config) {
+	const identity = await Identify(params, authorization, config);
+	if (identity.error) return identity;
+
+	const claims = params.invite ? Verify_Invite(config.secret, params.invite) : null;
+	if (!claims || claims.room !== params.room || claims.role !== 'host' || claims.sub !== identity.user_id) {
+		return { error: { status: 403, message: 'Only the host can change roles' } };
+	}
+	if (params.role !== 'edit' && params.role !== 'view') return { error: { status: 400, message: 'Unknown role' } };
+	if (!params.target || !params.connection) return { error: { status: 400, message: 'Missing target' } };
+	if (params.target === identity.user_id) return { error: { status: 400, message: "The host's role can't be changed" } };
+	return { change: { room: claims.room, target: params.target, connection: params.connection, role: params.role } };
+}
+
+// The caller's user id: their verified Entra ID account, or a guest id
+async function Identify(params, authorization, config) {
+	if (!config.secret) return { error: { status: 500, message: 'Room invites not configured' } };
+
+	const bearer = /^Bearer (.+)$/i.exec(authorization ?? '')?.[1];
+	// Without a client id configured, sign-in tokens can't be checked: everyone is a guest
+	if (bearer && config.client_id) {
+		const identity = await Verify_Entra_Token(bearer, config.client_id);
+		if (!identity) return { error: { status: 401, message: 'Invalid sign-in token' } };
+		return { user_id: identity.user_id };
+	}
+	return { user_id: Guest_User_Id(config.secret, params.user || 'anon') };
+}
+
+module.exports = { Authorise, Authorise_Role_Change, Room_Roles, User_Group, Verify_Invite, Sign_Invite };
@@ -0,0 +1,38 @@
+const { TableClient } = require('@azure/data-tables');
+
+// Roles the host has given room members, kept in Table storage so they outlast the member's
+// connection: negotiate hands a demoted member a viewer's token whatever invite they come back
+// with. One row per member, partitioned by room.
+
+const TABLE_NAME = 'RoomRoles';
+
+let table = null;
+let table_ready = null;
+
+function Table() {
+	if (!table) {
+		const connection_string = process.env.ROOM_ROLES_CONNECTION_STRING;
+		if (!connection_string) throw new Error('ROOM_ROLES_CONNECTION_STRING not configured');
+		table = TableClient.fromConnectionString(connection_string, TABLE_NAME);
+		// createTable is a no-op if the table exists; try again next time if it failed
+		table_ready = table.createTable().catch(err => { table = null; throw err; });
+	}
+	return table_ready.then(() => table);
+}
+
+// The role the host gave a member ('edit' or 'view'), or null if they have the one their invite names
+async function Assigned_Role(room, user_id) {
+	try {
+		const entity = await (await Table()).getEntity(room, user_id);
+		return entity.role === 'edit' || entity.role === 'view' ? entity.role : null;
+	} catch (err) {
+		if (err.statusCode === 404) return null;
+		throw err;
+	}
+}
+
+async function Assign_Role(room, user_id, role) {
+	await (await Table()).upsertEntity({ partitionKey: room, rowKey: user_id, role }, 'Replace');
+}
+
+module.exports = { Assigned_Role, Assign_Role };
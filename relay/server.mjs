@@ -0,0 +1,295 @@
+// Local collaboration relay — a stand-in for Azure Web PubSub, for offline development and
+// self-hosting. Serves GET /api/negotiate and POST /api/role (like api/) and a WebSocket endpoint speaking
+// the part of the json.webpubsub.azure.v1 subprotocol CollabSession uses: the 'connected' system
+// event, joinGroup / leaveGroup / sendToGroup, acks, and group 'message' envelopes.
+// Rooms, invites and roles work as in Azure (see api/shared/auth.js); the invite secret comes
+// from ROOM_INVITE_SECRET (random per run if unset) and sign-in checks from ENTRA_CLIENT_ID.
+// No dependencies beyond Node itself. Run via: npm run relay  (PORT=53001 by default)
+import { createServer } from 'http';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import auth from '../api/shared/auth.js';
+
+const PORT = Number(process.env.PORT ?? 53001);
+const HUB = 'whiteboard';
+const SUBPROTOCOL = 'json.webpubsub.azure.v1';
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Same limit as the Azure service
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+// Negotiated URLs must be used within this long
+const TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+// Roles the host has given members ('<room> <user id>' → role), for their later connections
+const assigned_roles = new Map();
+const AUTH_CONFIG = {
+	secret: process.env.ROOM_INVITE_SECRET || randomBytes(32).toString('base64url'),
+	client_id: process.env.ENTRA_CLIENT_ID,
+	assigned_role: async (room, user_id) => assigned_roles.get(`${room} ${user_id}`) ?? null,
+};
+
+// access_token → { user_id, roles, expires }
+const tokens = new Map();
+// group name → Set of connections
+const groups = new Map();
+// connection id → connection
+const connections = new Map();
+
+const server = createServer((req, res) => {
+	const url = new URL(req.url ?? '/', 'http://localhost');
+	if (req.method === 'GET' && url.pathname === '/api/negotiate') {
+		Negotiate(req, res, url).catch(err => {
+			console.error('Negotiate error:', err);
+			Send_Json(res, 500, { error: 'Failed to negotiate' });
+		});
+		return;
+	}
+	if (req.method === 'POST' && url.pathname === '/api/role') {
+		Change_Role(req, res, url).catch(err => {
+			console.error('Role change error:', err);
+			Send_Json(res, 500, { error: 'Failed to change role' });
+		});
+		return;
+	}
+	res.writeHead(404, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+server.on('upgrade', (req, socket) => {
+	const url = new URL(req.url ?? '/', 'http://localhost');
+	const grant = tokens.get(url.searchParams.get('access_token') ?? '');
+	if (url.pathname !== `/client/hubs/${HUB}` || !grant || grant.expires < Date.now()) {
+		socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+		return;
+	}
+	const protocols = (req.headers['sec-websocket-protocol'] ?? '').split(',').map(p => p.trim());
+	if (!protocols.includes(SUBPROTOCOL) || !req.headers['sec-websocket-key']) {
+		socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+		return;
+	}
+	const accept = createHash('sha1').update(req.headers['sec-websocket-key'] + WS_GUID).digest('base64');
+	socket.write([
+		'HTTP/1.1 101 Switching Protocols',
+		'Upgrade: websocket',
+		'Connection: Upgrade',
+		`Sec-WebSocket-Accept: ${accept}`,
+		`Sec-WebSocket-Protocol: ${SUBPROTOCOL}`,
+		'', '',
+	].join('\r\n'));
+	new Connection(socket, grant);
+});
+
+server.listen(PORT, () => {
+	console.log(`Collab relay listening on http://localhost:${PORT} (negotiate at /api/negotiate)`);
+});
+
+// Create a room, or hand out a WebSocket URL with the roles the caller's invite allows
+async function Negotiate(req, res, url) {
+	const q = url.searchParams;
+	const result = await auth.Authorise(
+		{ room: q.get('room'), user: q.get('user'), invite: q.get('invite'), create: q.get('create') === '1' },
+		req.headers.authorization,
+		AUTH_CONFIG,
+	);
+	if (result.error) return Send_Json(res, result.error.status, { error: result.error.message });
+	if (result.created) return Send_Json(res, 200, result.created);
+
+	const { user_id, role, roles, invites, host_id } = result.grant;
+	const token = randomBytes(24).toString('base64url');
+	tokens.set(token, { user_id, roles: new Set(roles), expires: Date.now() + TOKEN_LIFETIME_MS });
+	for (const [t, grant] of tokens) if (grant.expires < Date.now()) tokens.delete(t);
+
+	// Behind a proxy (e.g. the Vite dev server) the client must connect back through it
+	const secure = (req.headers['x-forwarded-proto'] ?? '').split(',')[0] === 'https';
+	const host = (req.headers['x-forwarded-host'] ?? '').split(',')[0] || req.headers.host;
+	Send_Json(res, 200, { url: `${secure ? 'wss' : 'ws'}://${host}/client/hubs/${HUB}?access_token=${token}`, user_id, role, invites, host_id });
+}
+
+// The host makes a member an editor or a viewer, on their current connection
+async function Change_Role(req, res, url) {
+	const q = url.searchParams;
+	const result = await auth.Authorise_Role_Change(
+		{ room: q.get('room'), user: q.get('user'), invite: q.get('invite'), target: q.get('target'), connection: q.get('connection'), role: q.get('role') },
+		req.headers.authorization,
+		AUTH_CONFIG,
+	);
+	if (result.error) return Send_Json(res, result.error.status, { error: result.error.message });
+
+	const { room, target, connection, role } = result.change;
+	const member = connections.get(connection);
+	if (!member || !member.roles.has(`webpubsub.joinLeaveGroup.${auth.User_Group(room, target)}`)) {
+		return Send_Json(res, 404, { error: 'No such connection' });
+	}
+	assigned_roles.set(`${room} ${target}`, role);
+	if (role === 'edit') member.roles.add(`webpubsub.sendToGroup.${room}`);
+	else member.roles.delete(`webpubsub.sendToGroup.${room}`);
+	Send_Json(res, 200, { target, role });
+}
+
+function Send_Json(res, status, body) {
+	res.writeHead(status, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify(body));
+}
+
+class Connection {
+	constructor(socket, grant) {
+		this.socket = socket;
+		this.user_id = grant.user_id;
+		// Copied, as role changes apply to this connection only
+		this.roles = new Set(grant.roles);
+		this.connection_id = randomUUID();
+		this.joined = new Set();
+		this.buffer = Buffer.alloc(0);
+		this.fragments = [];
+		this.closed = false;
+		connections.set(this.connection_id, this);
+
+		socket.setNoDelay(true);
+		socket.on('data', chunk => this.On_Data(chunk));
+		socket.on('close', () => this.Close());
+		socket.on('error', () => this.Close());
+		this.Send({ type: 'system', event: 'connected', userId: this.user_id, connectionId: this.connection_id });
+	}
+
+	Send(message) {
+		if (this.closed) return;
+		this.socket.write(Frame(0x1, Buffer.from(JSON.stringify(message))));
+	}
+
+	Close(code) {
+		if (this.closed) return;
+		this.closed = true;
+		connections.delete(this.connection_id);
+		for (const group of this.joined) Leave(group, this);
+		if (code !== undefined) {
+			const payload = Buffer.alloc(2);
+			payload.writeUInt16BE(code);
+			this.socket.end(Frame(0x8, payload));
+		} else {
+			this.socket.destroy();
+		}
+	}
+
+	On_Data(chunk) {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+		for (;;) {
+			const frame = Parse_Frame(this.buffer);
+			if (!frame) return;
+			this.buffer = this.buffer.subarray(frame.length);
+			if (frame.payload.length > MAX_MESSAGE_BYTES) { this.Close(1009); return; }
+
+			switch (frame.opcode) {
+				case 0x0: case 0x1: case 0x2: {
+					this.fragments.push(frame.payload);
+					const size = this.fragments.reduce((n, f) => n + f.length, 0);
+					if (size > MAX_MESSAGE_BYTES) { this.Close(1009); return; }
+					if (!frame.fin) break;
+					const text = Buffer.concat(this.fragments).toString('utf-8');
+					this.fragments = [];
+					this.On_Message(text);
+					break;
+				}
+				case 0x8: this.Close(1000); return;
+				case 0x9: this.socket.write(Frame(0xA, frame.payload)); break;
+				case 0xA: break;
+				default: this.Close(1002); return;
+			}
+		}
+	}
+
+	On_Message(text) {
+		let msg;
+		try {
+			msg = JSON.parse(text);
+		} catch {
+			return;
+		}
+		const Ack = (error) => {
+			if (msg.ackId === undefined) return;
+			this.Send(error
+				? { type: 'ack', ackId: msg.ackId, success: false, error: { name: error, message: `${msg.type} to '${msg.group}' not permitted` } }
+				: { type: 'ack', ackId: msg.ackId, success: true });
+		};
+		// Connections may only use the groups their roles name, as with the service
+		const Allowed = (permission) => this.roles.has(`webpubsub.${permission}.${msg.group}`);
+
+		switch (msg.type) {
+			case 'joinGroup':
+				if (!Allowed('joinLeaveGroup')) { Ack('Forbidden'); return; }
+				Join(msg.group, this);
+				Ack();
+				break;
+			case 'leaveGroup':
+				Leave(msg.group, this);
+				Ack();
+				break;
+			case 'sendToGroup': {
+				if (!Allowed('sendToGroup')) { Ack('Forbidden'); return; }
+				const envelope = { type: 'message', from: 'group', fromUserId: this.user_id, group: msg.group, dataType: msg.dataType ?? 'json', data: msg.data };
+				for (const member of groups.get(msg.group) ?? []) {
+					if (msg.noEcho && member === this) continue;
+					member.Send(envelope);
+				}
+				Ack();
+				break;
+			}
+		}
+	}
+}
+
+function Join(group, connection) {
+	let members = groups.get(group);
+	if (!members) groups.set(group, members = new Set());
+	members.add(connection);
+	connection.joined.add(group);
+}
+
+function Leave(group, connection) {
+	const members = groups.get(group);
+	members?.delete(connection);
+	if (members?.size === 0) groups.delete(group);
+	connection.joined.delete(group);
+}
+
+// Parse one frame from the start of 'buffer' (null if it isn't all there yet)
+function Parse_Frame(buffer) {
+	if (buffer.length < 2) return null;
+	const fin = (buffer[0] & 0x80) !== 0;
+	const opcode = buffer[0] & 0x0F;
+	const masked = (buffer[1] & 0x80) !== 0;
+	let length = buffer[1] & 0x7F;
+	let offset = 2;
+	if (length === 126) {
+		if (buffer.length < 4) return null;
+		length = buffer.readUInt16BE(2);
+		offset = 4;
+	} else if (length === 127) {
+		if (buffer.length < 10) return null;
+		length = Number(buffer.readBigUInt64BE(2));
+		offset = 10;
+	}
+	const mask_offset = offset;
+	if (masked) offset += 4;
+	// Too big to buffer: report the size so the caller closes the connection
+	if (length > MAX_MESSAGE_BYTES) return { fin, opcode, payload: { length }, length: buffer.length };
+	if (buffer.length < offset + length) return null;
+
+	const payload = Buffer.from(buffer.subarray(offset, offset + length));
+	if (masked) {
+		for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[mask_offset + (i % 4)];
+	}
+	return { fin, opcode, payload, length: offset + length };
+}
+
+// Server frames are sent whole and unmasked
+function Frame(opcode, payload) {
+	const header = payload.length < 126 ? Buffer.alloc(2) : payload.length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+	header[0] = 0x80 | opcode;
+	if (payload.length < 126) {
+		header[1] = payload.length;
+	} else if (payload.length < 65536) {
+		header[1] = 126;
+		header.writeUInt16BE(payload.length, 2);
+	} else {
+		header[1] = 127;
+		header.writeBigUInt64BE(BigInt(payload.length), 2);
+	}
+	return Buffer.concat([header, payload]);
+}
@@ -0,0 +1,268 @@
+// Merge test harness for the collab document model (src/canvas/crdt.ts).
+// Simulates several clients editing the same board concurrently, delivers their ops to each
+// other in shuffled orders, and checks every client converges on the same board.
+// Runs in Node (no browser) via Vite's module loader. Run via: npm run test:crdt [-- <seed> <rounds>]
+import { createServer } from 'vite';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const seed = Number(process.argv[2] ?? 1);
+const rounds = Number(process.argv[3] ?? 200);
+
+const server = await createServer({
+	root,
+	configFile: false,
+	logLevel: 'error',
+	server: { middlewareMode: true },
+	appType: 'custom',
+	optimizeDeps: { noDiscovery: true, entries: [] },
+});
+let failures = 0;
+try {
+	const { CrdtDoc } = await server.ssrLoadModule('/src/canvas/crdt.ts');
+	Run_Scenarios(CrdtDoc);
+	Run_Random(CrdtDoc);
+} finally {
+	await server.close();
+}
+if (failures > 0) {
+	console.error(`${failures} check(s) failed`);
+	process.exit(1);
+}
+console.log('All merge checks passed');
+
+// Deterministic PRNG (mulberry32) so failures can be replayed by seed
+function Random(s) {
+	return () => {
+		s = (s + 0x6D2B79F5) | 0;
+		let t = Math.imul(s ^ (s >>> 15), 1 | s);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function Check(name, ok, detail) {
+	if (ok) return;
+	failures++;
+	console.error(`FAIL ${name}${detail ? `\n  ${detail}` : ''}`);
+}
+
+// The board a client sees, in a form that can be compared between clients
+function Board(doc) {
+	const kinds = ['shape', 'connector', 'freehand', 'group'];
+	return Canonical(kinds.map(k => doc.Elements(k).sort((a, b) => a.id < b.id ? -1 : 1)));
+}
+
+// JSON with object keys in order
+function Canonical(value) {
+	return JSON.stringify(value, (_key, v) =>
+		v && typeof v === 'object' && !Array.isArray(v)
+			? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a < b ? -1 : 1))
+			: v);
+}
+
+function Shape(id, text = '') {
+	return { id, type: 'rectangle', x: 0, y: 0, width: 100, height: 60, text, style: { fill: '#fff' } };
+}
+
+function Run_Scenarios(CrdtDoc) {
+	// Concurrent moves of the same shape: the same winner everywhere
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1')] }];
+		a.Reset(base); b.Reset(base);
+		const op_a = a.Local_Put('shape', { ...Shape('s1'), x: 10 });
+		const op_b = b.Local_Put('shape', { ...Shape('s1'), x: 20 });
+		a.Apply(op_b); b.Apply(op_a);
+		Check('concurrent field writes converge', Board(a) === Board(b), `${Board(a)}\n  ${Board(b)}`);
+	}
+
+	// Different fields of the same shape: both edits survive
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1')] }];
+		a.Reset(base); b.Reset(base);
+		const op_a = a.Local_Put('shape', { ...Shape('s1'), x: 10 });
+		const op_b = b.Local_Put('shape', { ...Shape('s1'), style: { fill: '#f00' } });
+		a.Apply(op_b); b.Apply(op_a);
+		const s = a.Get('s1');
+		Check('independent field writes both kept', Board(a) === Board(b) && s.x === 10 && s.style.fill === '#f00', Board(a));
+	}
+
+	// Different parts of the same style: both edits survive
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1')] }];
+		a.Reset(base); b.Reset(base);
+		const op_a = a.Local_Put('shape', { ...Shape('s1'), style: { fill: '#f00' } });
+		const op_b = b.Local_Put('shape', { ...Shape('s1'), style: { fill: '#fff', stroke: '#0f0' } });
+		a.Apply(op_b); b.Apply(op_a);
+		const s = a.Get('s1');
+		Check('concurrent style sub-field writes both kept', Board(a) === Board(b) && s.style.fill === '#f00' && s.style.stroke === '#0f0', Board(a));
+	}
+
+	// Concurrent typing into the same label interleaves rather than overwriting
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1', 'hello')] }];
+		a.Reset(base); b.Reset(base);
+		const op_a = a.Local_Put('shape', Shape('s1', 'hello world'));
+		const op_b = b.Local_Put('shape', Shape('s1', 'oh hello'));
+		a.Apply(op_b); b.Apply(op_a);
+		Check('concurrent text edits merge', a.Get('s1').text === 'oh hello world' && Board(a) === Board(b), `${a.Get('s1').text} / ${b.Get('s1').text}`);
+	}
+
+	// Formatting travels with the text it covers
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1', 'hello')] }];
+		a.Reset(base); b.Reset(base);
+		const marks = [{ type: 'bold', start: 0, end: 5 }, { type: 'link', start: 6, end: 11, href: 'https://example.com' }];
+		const op = a.Local_Put('shape', { ...Shape('s1', 'hello world'), text_marks: marks });
+		b.Apply(op);
+		const s = b.Get('s1');
+		Check('text marks replicate', s.text === 'hello world' && Canonical(s.text_marks) === Canonical(marks) && Board(a) === Board(b), JSON.stringify(s));
+	}
+
+	// Formatting stays on its characters when someone else types before it at the same time
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1', 'hello world')] }];
+		a.Reset(base); b.Reset(base);
+		const op_a = a.Local_Put('shape', { ...Shape('s1', 'hello world'), text_marks: [{ type: 'bold', start: 6, end: 11 }] });
+		const op_b = b.Local_Put('shape', Shape('s1', 'oh hello world'));
+		a.Apply(op_b); b.Apply(op_a);
+		const s = a.Get('s1');
+		Check('text marks follow merged text', Canonical(s.text_marks) === Canonical([{ type: 'bold', start: 9, end: 14 }]) && Board(a) === Board(b), `${Board(a)}\n  ${Board(b)}`);
+	}
+
+	// A delayed update can't resurrect a deleted shape
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1')] }];
+		a.Reset(base); b.Reset(base);
+		const op_move = a.Local_Put('shape', { ...Shape('s1'), x: 50 });
+		const op_delete = b.Local_Delete('s1');
+		a.Apply(op_delete); b.Apply(op_move);
+		Check('delete beats concurrent update', a.Get('s1') === null && b.Get('s1') === null && Board(a) === Board(b));
+	}
+
+	// Ops arriving before the add they depend on (e.g. relayed out of order)
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const op_add = a.Local_Put('shape', Shape('s1', 'ab'));
+		const op_edit = a.Local_Put('shape', { ...Shape('s1', 'abc'), y: 5 });
+		b.Apply(op_edit); b.Apply(op_add);
+		Check('out of order delivery', Board(a) === Board(b), `${Board(a)}\n  ${Board(b)}`);
+	}
+
+	// Undoing a delete (re-adding the element) wins over the delete
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1')] }];
+		a.Reset(base); b.Reset(base);
+		const op_delete = a.Local_Delete('s1');
+		b.Apply(op_delete);
+		const op_readd = a.Local_Put('shape', Shape('s1'));
+		b.Apply(op_readd);
+		Check('re-add after delete', b.Get('s1') !== null && Board(a) === Board(b));
+	}
+
+	// A late joiner loading a snapshot continues merging correctly
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b'), c = new CrdtDoc('c');
+		a.Reset([]); b.Reset([]);
+		b.Apply(a.Local_Put('shape', Shape('s1', 'abc')));
+		c.Load(JSON.parse(JSON.stringify(a.Snapshot())));
+		const op_c = c.Local_Put('shape', Shape('s1', 'abXc'));
+		const op_b = b.Local_Put('shape', Shape('s1', 'Yabc'));
+		for (const doc of [a, b]) doc.Apply(op_c);
+		for (const doc of [a, c]) doc.Apply(op_b);
+		Check('snapshot then merge', Board(a) === Board(b) && Board(b) === Board(c) && a.Get('s1').text === 'YabXc', a.Get('s1')?.text);
+	}
+
+	// Offline client catches up from a snapshot, then sends the edits it queued meanwhile
+	{
+		const a = new CrdtDoc('a'), b = new CrdtDoc('b');
+		const base = [{ kind: 'shape', items: [Shape('s1', 'abc'), Shape('s2')] }];
+		a.Reset(base); b.Reset(base);
+		const queued = [b.Local_Put('shape', { ...Shape('s1', 'abcd'), x: 5 }), b.Local_Put('shape', Shape('s3'))];
+		a.Local_Put('shape', { ...Shape('s1', 'Zabc'), y: 7 });
+		a.Local_Delete('s2');
+		a.Local_Put('shape', Shape('s4', 'new'));
+		const changes = b.Merge(JSON.parse(JSON.stringify(a.Snapshot())));
+		for (const op of queued) a.Apply(JSON.parse(JSON.stringify(op)));
+		const s1 = b.Get('s1');
+		Check('offline catch-up merges both sides', Board(a) === Board(b) && s1.text === 'Zabcd' && s1.x === 5 && s1.y === 7 && !b.Get('s2') && b.Get('s3') && b.Get('s4'), `${Board(a)}\n  ${Board(b)}`);
+		Check('offline catch-up reports changes', changes.some(c => c.id === 's2' && c.item === null) && changes.some(c => c.id === 's4' && c.item));
+	}
+}
+
+// Random concurrent edits from several clients, delivered in a different order to each client
+function Run_Random(CrdtDoc) {
+	const rand = Random(seed);
+	const Pick = (list) => list[Math.floor(rand() * list.length)];
+	const ALPHABET = 'abcdefgh ';
+	const ids = ['s1', 's2', 's3', 's4'];
+
+	for (let round = 0; round < rounds; round++) {
+		const sites = ['a', 'b', 'c'].map(s => new CrdtDoc(s));
+		const base = [{ kind: 'shape', items: ids.slice(0, 2).map(id => Shape(id, 'base')) }];
+		for (const doc of sites) doc.Reset(base);
+		// Ops not yet delivered, per receiving site
+		const inbox = sites.map(() => []);
+
+		for (let step = 0; step < 30; step++) {
+			const i = Math.floor(rand() * sites.length);
+			const doc = sites[i];
+
+			// Deliver some of this site's waiting ops first, in random order
+			const waiting = inbox[i];
+			for (let n = Math.floor(rand() * (waiting.length + 1)); n > 0; n--) {
+				doc.Apply(waiting.splice(Math.floor(rand() * waiting.length), 1)[0]);
+			}
+
+			const id = Pick(ids);
+			const current = doc.Get(id);
+			if (current && (current.text === undefined || !current.style)) {
+				Check(`random round ${round} (seed ${seed}): ${id} visible before it's complete`, false, JSON.stringify(current));
+				return;
+			}
+			let op;
+			const r = rand();
+			if (!current) op = doc.Local_Put('shape', Shape(id, Pick(['', 'x', 'new'])));
+			else if (r < 0.15) op = doc.Local_Delete(id);
+			else if (r < 0.45) op = doc.Local_Put('shape', { ...current, x: Math.floor(rand() * 100), y: current.y + 1 });
+			else if (r < 0.55) op = doc.Local_Put('shape', { ...current, style: { fill: Pick(['#f00', '#0f0', '#00f']) } });
+			else if (r < 0.65) {
+				const start = Math.floor(rand() * (current.text.length + 1));
+				const end = start + Math.floor(rand() * (current.text.length - start + 1));
+				op = doc.Local_Put('shape', { ...current, text_marks: [{ type: Pick(['bold', 'bullet']), start, end }] });
+			}
+			else {
+				const text = Array.from(current.text);
+				const at = Math.floor(rand() * (text.length + 1));
+				const remove = rand() < 0.4 ? Math.floor(rand() * 3) : 0;
+				const insert = Array.from({ length: Math.floor(rand() * 3) }, () => Pick(ALPHABET));
+				text.splice(at, remove, ...insert);
+				op = doc.Local_Put('shape', { ...current, text: text.join('') });
+			}
+			if (!op) continue;
+			// Through JSON, as on the wire
+			for (let j = 0; j < sites.length; j++) if (j !== i) inbox[j].push(JSON.parse(JSON.stringify(op)));
+		}
+
+		// Deliver everything that's left, shuffled
+		sites.forEach((doc, i) => {
+			const waiting = inbox[i];
+			while (waiting.length > 0) doc.Apply(waiting.splice(Math.floor(rand() * waiting.length), 1)[0]);
+		});
+		const boards = sites.map(Board);
+		if (boards.some(b => b !== boards[0])) {
+			Check(`random round ${round} (seed ${seed}) converges`, false, boards.join('\n  '));
+			return;
+		}
+	}
+	console.log(`${rounds} random rounds converged (seed ${seed})`);
+}
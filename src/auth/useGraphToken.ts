@@ -10,6 +10,7 @@ export interface GraphAuth {
 	Sign_In: () => Promise<string | null>;
 	Sign_Out: () => Promise<void>;
 	Get_Token: () => Promise<string | null>;
+	Get_Id_Token: () => Promise<string | null>;
 }
 
 /**
@@ -43,6 +44,20 @@ export function useGraphToken(): GraphAuth {
 		}
 	}, [instance, accounts]);
 
+	// ID token proving who the user is to our own API (never prompts)
+	const Get_Id_Token = useCallback(async (): Promise<string | null> => {
+		if (accounts.length === 0) return null;
+		try {
+			const result = await instance.acquireTokenSilent({
+				scopes: login_scopes,
+				account: accounts[0],
+			});
+			return result.idToken || null;
+		} catch {
+			return null;
+		}
+	}, [instance, accounts]);
+
 	const Sign_In = useCallback(async (): Promise<string | null> => {
 		try {
 			// Use redirect flow — works reliably across all browsers
@@ -65,5 +80,5 @@ export function useGraphToken(): GraphAuth {
 		}
 	}, [instance]);
 
-	return { is_signed_in, user_name, user_email: accounts[0]?.username ?? null, Sign_In, Sign_Out, Get_Token };
+	return { is_signed_in, user_name, user_email: accounts[0]?.username ?? null, Sign_In, Sign_Out, Get_Token, Get_Id_Token };
 }
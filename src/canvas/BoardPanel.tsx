@@ -1,7 +1,11 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import type { CanvasState } from './types';
+import type { CanvasState, Shape, SavedView } from './types';
 import type { GraphAuth } from '../auth/useGraphToken';
 import type { CloudBoard } from '../services/GraphService';
+import { Migrate_State } from './migrate';
+import { Sorted_Frames } from './frames';
+import { Drawn_Radius } from './pen';
+import { Get_Asset, Blob_To_Data_Url, Embed_Assets, Extract_Embedded_Assets } from './assets';
 import {
 	List_Cloud_Boards, Load_Cloud_Board, Save_Cloud_Board,
 	Delete_Cloud_Board, Rename_Cloud_Board, Upload_To_OneDrive,
@@ -50,6 +54,16 @@ interface BoardPanelProps {
 	current_board_name: string;
 	on_board_name_change: (name: string) => void;
 	graph_auth: GraphAuth;
+	with_all_rendered: <T>(fn: () => T) => T;
+	on_insert_image: (file: File) => void;
+	on_go_to_frame: (frame: Shape) => void;
+	saved_views: SavedView[];
+	// False for viewers, who can use the saved views but not change them
+	can_edit_views: boolean;
+	on_save_view: () => void;
+	on_saved_views_change: (views: SavedView[]) => void;
+	on_go_to_view: (view: SavedView) => void;
+	on_present: () => void;
 }
 
 export function BoardPanel({
@@ -63,6 +77,15 @@ export function BoardPanel({
 	current_board_name,
 	on_board_name_change,
 	graph_auth,
+	with_all_rendered,
+	on_insert_image,
+	on_go_to_frame,
+	saved_views,
+	can_edit_views,
+	on_save_view,
+	on_saved_views_change,
+	on_go_to_view,
+	on_present,
 }: BoardPanelProps) {
 	const [boards, set_boards] = useState<BoardInfo[]>(() => Load_Board_Index());
 	const [editing_id, set_editing_id] = useState<string | null>(null);
@@ -72,6 +95,7 @@ export function BoardPanel({
 	const [title_draft, set_title_draft] = useState('');
 	const [status_message, set_status_message] = useState<string | null>(null);
 	const file_input_ref = useRef<HTMLInputElement>(null);
+	const image_input_ref = useRef<HTMLInputElement>(null);
 
 	// Cloud storage state
 	const [cloud_boards, set_cloud_boards] = useState<CloudBoard[]>([]);
@@ -85,6 +109,10 @@ export function BoardPanel({
 	// Export location picker
 	const [export_picker, set_export_picker] = useState<'svg' | 'png' | 'json' | null>(null);
 
+	// Saved view being renamed
+	const [editing_view_id, set_editing_view_id] = useState<string | null>(null);
+	const [view_name_draft, set_view_name_draft] = useState('');
+
 	useEffect(() => {
 		set_boards(Load_Board_Index());
 		if (is_open && graph_auth.is_signed_in) Refresh_Cloud_Boards();
@@ -179,12 +207,14 @@ export function BoardPanel({
 		const raw = localStorage.getItem(BOARD_PREFIX + board.id);
 		if (!raw) return;
 		try {
-			const state = JSON.parse(raw) as CanvasState;
+			const state = Migrate_State(JSON.parse(raw));
 			on_load_board(state);
 			on_board_id_change(board.id);
 			on_board_name_change(board.name);
 			set_active_cloud_id(null);
-		} catch { /* ignore */ }
+		} catch (e: any) {
+			set_status_message('Load failed: ' + (e.message || ''));
+		}
 	}
 
 	function Handle_Delete_Local(board: BoardInfo): void {
@@ -264,9 +294,11 @@ export function BoardPanel({
 			}
 		}
 		for (const f of freehand_paths) {
+			// Broad strokes (highlighters) reach past their points
+			const r = Drawn_Radius(f);
 			for (const pt of f.points) {
-				min_x = Math.min(min_x, pt.x); min_y = Math.min(min_y, pt.y);
-				max_x = Math.max(max_x, pt.x); max_y = Math.max(max_y, pt.y);
+				min_x = Math.min(min_x, pt.x - r); min_y = Math.min(min_y, pt.y - r);
+				max_x = Math.max(max_x, pt.x + r); max_y = Math.max(max_y, pt.y + r);
 			}
 		}
 		if (!isFinite(min_x)) return null;
@@ -274,13 +306,22 @@ export function BoardPanel({
 		return { x: min_x - pad, y: min_y - pad, w: max_x - min_x + pad * 2, h: max_y - min_y + pad * 2 };
 	}
 
-	function Export_SVG_Element(): SVGSVGElement | null {
+	// Area to export: a single frame, or everything on the board
+	function Export_Bounds(frame?: Shape): { x: number; y: number; w: number; h: number } | null {
+		return frame ? { x: frame.x, y: frame.y, w: frame.width, h: frame.height } : Content_Bounds();
+	}
+
+	function Export_SVG_Element(frame?: Shape): SVGSVGElement | null {
 		const svg_el = document.querySelector('svg');
 		if (!svg_el) return null;
-		const bounds = Content_Bounds();
+		const bounds = Export_Bounds(frame);
 		if (!bounds) return null;
 		const content_g = svg_el.querySelector('g[transform]');
 		if (!content_g) return null;
+		// The canvas only renders elements near the viewport; render everything while cloning.
+		// A frame exports just itself and its members.
+		const In_Export = (el: Element) => !frame || el.getAttribute('data-shape-id') === frame.id || el.getAttribute('data-frame-id') === frame.id;
+		const children = with_all_rendered(() => Array.from(content_g.children).filter(In_Export).map(child => child.cloneNode(true)));
 		const ns = 'http://www.w3.org/2000/svg';
 		const svg = document.createElementNS(ns, 'svg');
 		svg.setAttribute('xmlns', ns);
@@ -288,7 +329,7 @@ export function BoardPanel({
 		svg.setAttribute('width', String(bounds.w));
 		svg.setAttribute('height', String(bounds.h));
 		const g = document.createElementNS(ns, 'g');
-		for (const child of Array.from(content_g.children)) g.appendChild(child.cloneNode(true));
+		for (const child of children) g.appendChild(child);
 		for (const el of Array.from(g.querySelectorAll('[data-handle-index], [data-rotate-handle], [data-port-id], [data-freehand-handle]'))) el.remove();
 		for (const el of Array.from(g.querySelectorAll('[stroke="transparent"]'))) el.remove();
 		for (const el of Array.from(g.querySelectorAll('rect[stroke="#00d4ff"]'))) el.remove();
@@ -296,16 +337,32 @@ export function BoardPanel({
 		return svg;
 	}
 
-	function Get_SVG_String(): string | null {
-		const svg = Export_SVG_Element();
-		return svg ? svg.outerHTML : null;
+	// Replace image asset URLs (object URLs only valid in this tab) with data URLs
+	async function Inline_Images(svg: SVGSVGElement): Promise<void> {
+		for (const img of Array.from(svg.querySelectorAll('image[data-asset-id]'))) {
+			const blob = await Get_Asset(img.getAttribute('data-asset-id')!);
+			if (blob) {
+				img.setAttribute('href', await Blob_To_Data_Url(blob));
+				img.parentElement?.parentElement?.querySelector('[data-asset-placeholder]')?.remove();
+			} else {
+				img.remove();
+			}
+		}
 	}
 
-	function Get_PNG_Blob(): Promise<Blob | null> {
+	async function Get_SVG_String(frame?: Shape): Promise<string | null> {
+		const svg = Export_SVG_Element(frame);
+		if (!svg) return null;
+		await Inline_Images(svg);
+		return svg.outerHTML;
+	}
+
+	async function Get_PNG_Blob(frame?: Shape): Promise<Blob | null> {
+		const svg = Export_SVG_Element(frame);
+		if (!svg) return null;
+		await Inline_Images(svg);
 		return new Promise((resolve) => {
-			const svg = Export_SVG_Element();
-			if (!svg) { resolve(null); return; }
-			const bounds = Content_Bounds()!;
+			const bounds = Export_Bounds(frame)!;
 			const scale = 2;
 			const data = new XMLSerializer().serializeToString(svg);
 			const img = new Image();
@@ -328,10 +385,11 @@ export function BoardPanel({
 	function Handle_Export_Download(format: 'svg' | 'png' | 'json'): void {
 		set_export_picker(null);
 		if (format === 'svg') {
-			const str = Get_SVG_String();
-			if (!str) { set_status_message('Nothing to export'); return; }
-			Download_Blob(new Blob([str], { type: 'image/svg+xml;charset=utf-8' }), 'whiteboard.svg');
-			set_status_message('SVG exported!');
+			Get_SVG_String().then(str => {
+				if (!str) { set_status_message('Nothing to export'); return; }
+				Download_Blob(new Blob([str], { type: 'image/svg+xml;charset=utf-8' }), 'whiteboard.svg');
+				set_status_message('SVG exported!');
+			});
 		} else if (format === 'png') {
 			Get_PNG_Blob().then(blob => {
 				if (!blob) { set_status_message('Nothing to export'); return; }
@@ -339,12 +397,47 @@ export function BoardPanel({
 				set_status_message('PNG exported!');
 			});
 		} else {
-			const blob = new Blob([JSON.stringify(current_state, null, 2)], { type: 'application/json' });
-			Download_Blob(blob, 'whiteboard.json');
-			set_status_message('JSON exported!');
+			// Exported files carry their images so they open anywhere
+			Embed_Assets(current_state).then(state => {
+				const blob = new Blob([JSON.stringify(state, null, 2)], { type: 'application/json' });
+				Download_Blob(blob, 'whiteboard.json');
+				set_status_message('JSON exported!');
+			});
 		}
 	}
 
+	// ── Saved views ──
+
+	function Handle_View_Rename_Commit(): void {
+		const name = view_name_draft.trim();
+		if (name) on_saved_views_change(saved_views.map(v => v.id === editing_view_id ? { ...v, name } : v));
+		set_editing_view_id(null);
+	}
+
+	// Move a view earlier (-1) or later (+1) in the presentation order
+	function Handle_View_Move(index: number, delta: number): void {
+		const target = index + delta;
+		if (target < 0 || target >= saved_views.length) return;
+		const next = [...saved_views];
+		[next[index], next[target]] = [next[target], next[index]];
+		on_saved_views_change(next);
+	}
+
+	// Download a single frame as an image, named after its title
+	async function Handle_Export_Frame(frame: Shape, format: 'svg' | 'png'): Promise<void> {
+		const name = (frame.text.trim() || 'frame').replace(/[\\/:*?"<>|]/g, '_');
+		if (format === 'svg') {
+			const str = await Get_SVG_String(frame);
+			if (!str) return;
+			Download_Blob(new Blob([str], { type: 'image/svg+xml;charset=utf-8' }), `${name}.svg`);
+		} else {
+			const blob = await Get_PNG_Blob(frame);
+			if (!blob) return;
+			Download_Blob(blob, `${name}.png`);
+		}
+		set_status_message(`${format.toUpperCase()} exported!`);
+	}
+
 	async function Handle_Export_OneDrive(format: 'svg' | 'png' | 'json'): Promise<void> {
 		set_export_picker(null);
 		const token = await graph_auth.Get_Token();
@@ -352,7 +445,7 @@ export function BoardPanel({
 		const base_name = current_board_name || 'whiteboard';
 		try {
 			if (format === 'svg') {
-				const str = Get_SVG_String();
+				const str = await Get_SVG_String();
 				if (!str) { set_status_message('Nothing to export'); return; }
 				await Upload_To_OneDrive(token, `${base_name}.svg`, str, 'image/svg+xml');
 			} else if (format === 'png') {
@@ -360,7 +453,7 @@ export function BoardPanel({
 				if (!blob) { set_status_message('Nothing to export'); return; }
 				await Upload_To_OneDrive(token, `${base_name}.png`, blob, 'image/png');
 			} else {
-				const str = JSON.stringify(current_state, null, 2);
+				const str = JSON.stringify(await Embed_Assets(current_state), null, 2);
 				await Upload_To_OneDrive(token, `${base_name}.json`, str, 'application/json');
 			}
 			set_status_message(`Uploaded ${format.toUpperCase()} to OneDrive!`);
@@ -373,15 +466,15 @@ export function BoardPanel({
 		const file = e.target.files?.[0];
 		if (!file) return;
 		const reader = new FileReader();
-		reader.onload = (ev) => {
+		reader.onload = async (ev) => {
 			try {
-				const state = JSON.parse(ev.target?.result as string) as CanvasState;
-				if (state.shapes || state.connectors || state.freehand_paths) {
-					on_load_board(state);
+				const parsed = await Extract_Embedded_Assets(JSON.parse(ev.target?.result as string));
+				if (parsed.shapes || parsed.connectors || parsed.freehand_paths) {
+					on_load_board(Migrate_State(parsed));
 					set_status_message('Imported!');
 				}
-			} catch {
-				alert('Invalid whiteboard file');
+			} catch (err: any) {
+				alert(err instanceof SyntaxError ? 'Invalid whiteboard file' : err.message);
 			}
 		};
 		reader.readAsText(file);
@@ -440,6 +533,8 @@ export function BoardPanel({
 	const active_storage: 'local' | 'cloud' | null =
 		current_board_id ? 'local' : active_cloud_id ? 'cloud' : null;
 
+	const frames = useMemo(() => Sorted_Frames(current_state.shapes), [current_state.shapes]);
+
 	return (
 		<>
 			{/* Toggle button */}
@@ -599,6 +694,88 @@ export function BoardPanel({
 						))}
 					</div>
 
+					{/* Saved views (presentation order) */}
+					<div style={{ borderTop: '1px solid #e0e0e0', margin: '4px 0 8px' }} />
+					<div style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 6 }}>
+						<h3 style={{ ...heading_style, margin: 0, flex: 1 }}>Views</h3>
+						{can_edit_views && (
+							<button onClick={on_save_view} style={frame_export_btn_style} title="Save what's on screen as a view">
+								+ Save view
+							</button>
+						)}
+						<button onClick={on_present} disabled={saved_views.length === 0} style={{ ...frame_export_btn_style, opacity: saved_views.length === 0 ? 0.4 : 1 }} title="Present the views in order (arrow keys to step, Esc to end)">
+							▶ Present
+						</button>
+					</div>
+					<div style={{ maxHeight: 160, overflowY: 'auto', marginBottom: 8 }}>
+						{saved_views.length === 0 && (
+							<div style={{ fontSize: 11, color: '#999', textAlign: 'center', padding: 4 }}>
+								No saved views yet
+							</div>
+						)}
+						{saved_views.map((view, i) => (
+							<div key={view.id} style={{ ...board_item_style, background: '#f8f9fa' }}>
+								{editing_view_id === view.id ? (
+									<input
+										autoFocus
+										value={view_name_draft}
+										onChange={e => set_view_name_draft(e.target.value)}
+										onBlur={Handle_View_Rename_Commit}
+										onKeyDown={e => { if (e.key === 'Enter') Handle_View_Rename_Commit(); if (e.key === 'Escape') set_editing_view_id(null); }}
+										style={rename_input_style}
+									/>
+								) : (
+									<div
+										style={{ cursor: 'pointer', flex: 1, minWidth: 0, fontSize: 12, fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+										onClick={() => on_go_to_view(view)}
+										onDoubleClick={() => { if (can_edit_views) { set_editing_view_id(view.id); set_view_name_draft(view.name); } }}
+										title={can_edit_views ? 'Click to go to, double-click to rename' : 'Go to view'}
+									>
+										{i + 1}. {view.name}
+									</div>
+								)}
+								{can_edit_views && (
+									<>
+										<button onClick={() => Handle_View_Move(i, -1)} disabled={i === 0} style={delete_btn_style} title="Move earlier">▲</button>
+										<button onClick={() => Handle_View_Move(i, 1)} disabled={i === saved_views.length - 1} style={delete_btn_style} title="Move later">▼</button>
+										<button onClick={() => on_saved_views_change(saved_views.filter(v => v.id !== view.id))} style={delete_btn_style} title="Delete view">✕</button>
+									</>
+								)}
+							</div>
+						))}
+					</div>
+
+					{/* Frame navigator */}
+					{frames.length > 0 && (
+						<>
+							<div style={{ borderTop: '1px solid #e0e0e0', margin: '4px 0 8px' }} />
+							<h3 style={heading_style}>Frames</h3>
+							<div style={{ maxHeight: 160, overflowY: 'auto', marginBottom: 8 }}>
+								{frames.map(frame => (
+									<div key={frame.id} style={{ ...board_item_style, background: '#f8f9fa' }}>
+										<div
+											style={{ cursor: 'pointer', flex: 1, minWidth: 0, fontSize: 12, fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+											onClick={() => on_go_to_frame(frame)}
+											title="Go to frame"
+										>
+											▢ {frame.text || 'Frame'}
+										</div>
+										{(['svg', 'png'] as const).map(fmt => (
+											<button
+												key={fmt}
+												onClick={() => Handle_Export_Frame(frame, fmt)}
+												style={frame_export_btn_style}
+												title={`Export this frame as ${fmt.toUpperCase()}`}
+											>
+												{fmt.toUpperCase()}
+											</button>
+										))}
+									</div>
+								))}
+							</div>
+						</>
+					)}
+
 					{/* Divider */}
 					<div style={{ borderTop: '1px solid #e0e0e0', margin: '4px 0 8px' }} />
 
@@ -638,6 +815,9 @@ export function BoardPanel({
 						<button onClick={() => file_input_ref.current?.click()} style={export_btn_style}>
 							Import
 						</button>
+						<button onClick={() => image_input_ref.current?.click()} style={{ ...export_btn_style, gridColumn: '1 / -1' }}>
+							🖼 Insert Image
+						</button>
 					</div>
 					<input
 						ref={file_input_ref}
@@ -646,6 +826,17 @@ export function BoardPanel({
 						onChange={Handle_Import_JSON}
 						style={{ display: 'none' }}
 					/>
+					<input
+						ref={image_input_ref}
+						type="file"
+						accept="image/*"
+						onChange={e => {
+							const file = e.target.files?.[0];
+							if (file) on_insert_image(file);
+							e.target.value = '';
+						}}
+						style={{ display: 'none' }}
+					/>
 
 					{/* Transient message */}
 					{status_message && (
@@ -896,3 +1087,15 @@ const export_option_style: React.CSSProperties = {
 	textAlign: 'left',
 	fontFamily: 'inherit',
 };
+
+const frame_export_btn_style: React.CSSProperties = {
+	padding: '2px 5px',
+	fontSize: 9,
+	fontWeight: 600,
+	background: '#fff',
+	border: '1px solid #e0e0e0',
+	borderRadius: 4,
+	cursor: 'pointer',
+	fontFamily: 'inherit',
+	color: '#555',
+};
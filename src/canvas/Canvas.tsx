@@ -1,21 +1,61 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
-import type { Shape, Connector, CanvasState, ToolType, Viewport, Point, ConnectorEnd, ShapeStyle, FreehandPath, LaserPoint, ToolSettings, CollabUser } from './types';
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import type { Shape, ShapeType, TextMarkType, Connector, CanvasState, ToolType, Viewport, Point, Bounds, ConnectorEnd, ShapeStyle, FreehandPath, FreehandStyle, Group, LaserPoint, ToolSettings, CollabUser, RemoteOutline, SharedView, SavedView, PresentationStep, Size } from './types';
 import { DEFAULT_STYLE, DEFAULT_TOOL_SETTINGS } from './types';
-import { Generate_Id, Default_Ports, Screen_To_Canvas, Nearest_Port, Port_Position, Port_Outward_Normal, Normalise_Bounds, Bounds_Overlap, Shape_Bounds, Snap_To_Grid, DEFAULT_GRID_SIZE, DEFAULT_GRID_MAJOR_MULT, Freehand_Bounds, Simplify_Points, Smooth_Points, Get_Svg_Path_From_Stroke, Default_Control_Points, Closest_T_On_Line, Point_At_T } from './helpers';
-import { getStroke } from 'perfect-freehand';
+import { Generate_Id, Default_Ports, Screen_To_Canvas, Nearest_Port, Port_Position, Port_Outward_Normal, Normalise_Bounds, Bounds_Overlap, Bounds_Contain, Shape_Bounds, Snap_To_Grid, DEFAULT_GRID_SIZE, DEFAULT_GRID_MAJOR_MULT, Freehand_Bounds, Default_Control_Points, Closest_T_On_Line, Point_At_T, Rotated_Shape_Bounds, Point_In_Shape } from './helpers';
 import { UndoManager } from './undo';
-import { ShapeRenderer } from './ShapeRenderer';
+import type { ElementKind, ElementEdit, BoardElement } from './undo';
+import { SpatialIndex } from './spatial';
+import { CrdtDoc } from './crdt';
+import type { CrdtKind, CrdtOp, CrdtChange } from './crdt';
+import { Parent_Map, Is_Within, Top_Unit, Leaf_Ids, Units_Of, Selected_Groups, Prune_Groups, Replace_Members, Group_Units, Ungroup, Groups_Within, Clone_Groups } from './groups';
+import { Is_Frame, Frame_At, Frame_Member_Ids, Frame_Clip_Id, FRAME_TITLE_HEIGHT } from './frames';
+import { STICKY_SIZE, STICKY_PADDING, STICKY_FONT_SIZE, Stack_Notes } from './sticky';
+import { Auto_Layout } from './layout';
+import type { LayoutAlgorithm, LayoutDirection } from './layout';
+import { Align_Offsets, Distribute_Offsets, Snap_Move, Snap_Resize } from './align';
+import type { AlignEdge, DistributeAxis, ResizeEdges, SnapGuide } from './align';
+import { Sweep_Bounds, Sweep_Hits, Sweep_Cut } from './eraser';
+import { Pen_Sample, Pen_Style, Pen_Variant, Drawn_Radius, Finish_Stroke, Straighten, Freehand_Outline } from './pen';
+import { Recognise_Stroke } from './recognise';
+import { LINE_HEIGHT, Retext_Marks, Toggle_Mark, Has_Mark, Word_At, Safe_Href } from './richtext';
+import { Migrate_State, Max_Z_Index, SCHEMA_VERSION } from './migrate';
+import { Put_Asset, Image_Size, Set_Missing_Asset_Resolver, Retry_Missing_Assets } from './assets';
+import { ShapeRenderer, SelectionHandles } from './ShapeRenderer';
 import { ConnectorRenderer } from './ConnectorRenderer';
 import { Toolbar } from './Toolbar';
 import { TipsOverlay } from './TipsOverlay';
 import { BoardPanel } from './BoardPanel';
+import { ShapePalette, SHAPE_DRAG_TYPE } from './ShapePalette';
+import type { PaletteDrop } from './ShapePalette';
 import { PropertiesPanel } from './PropertiesPanel';
-import { CollabSession, Generate_Room_Id } from './Collaboration';
-import { RemoteCursors } from './RemoteCursors';
+import { CollabSession, Create_Room, Parse_Invite } from './Collaboration';
+import { RemoteCursors, RemoteSelections } from './RemoteCursors';
 import { useGraphToken } from '../auth/useGraphToken';
 
 const STORAGE_KEY = 'whiteboard-live';
 
+// Elements this far (in screen pixels) outside the visible area are still rendered, so
+// panning doesn't pop them in at the edges
+const CULL_MARGIN = 200;
+
+// Put on the system clipboard when elements are copied, so a later paste knows to use the
+// internal clipboard rather than whatever image the system clipboard held before
+const CLIPBOARD_MARKER = 'whiteboard-live:elements';
+
+// Longest side of a newly inserted image (canvas units)
+const MAX_IMAGE_SIZE = 600;
+
+// Time taken to glide between presentation views
+const VIEW_ANIMATION_MS = 700;
+
+// How close (in screen pixels) a dragged edge or centre has to come to another to snap to it
+const GUIDE_SNAP_DISTANCE = 6;
+
+// How close (in screen pixels) the end of a sketched line or arrow has to come to a shape to
+// connect to it
+const BIND_DISTANCE = 16;
+
 // Resolve a connector endpoint to an absolute point
 function Resolve_Connector_End(end: ConnectorEnd, shapes: Shape[]): Point {
 	if (end.shape_id && end.port_id) {
@@ -37,38 +77,124 @@ function Resolve_Normal_For_End(end: ConnectorEnd, shapes: Shape[]): Point | und
 	return Port_Outward_Normal(shape, port);
 }
 
-function Load_State(): CanvasState & { max_z: number } {
+// Map the free points of a connector (unbound ends and control points).
+// Ends bound to a shape follow the shape, so they're left alone.
+function Map_Connector_Points(c: Connector, fn: (p: Point) => Point): Connector {
+	const Map_End = (end: ConnectorEnd): ConnectorEnd => end.shape_id ? end : { ...end, ...fn(end) };
+	return {
+		...c,
+		source: Map_End(c.source),
+		target: Map_End(c.target),
+		control_points: c.control_points?.map(fn),
+	};
+}
+
+// Centre of a shape, connector or freehand path, which decides the frame it sits in
+function Element_Centre(item: Shape | Connector | FreehandPath, shapes: Shape[]): Point {
+	if ('source' in item) {
+		const src = Resolve_Connector_End(item.source, shapes);
+		const tgt = Resolve_Connector_End(item.target, shapes);
+		return { x: (src.x + tgt.x) / 2, y: (src.y + tgt.y) / 2 };
+	}
+	const b = 'points' in item ? Freehand_Bounds(item.points) : item;
+	return { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+}
+
+// The region of the board a viewport shows on a screen of the given size
+function Shared_View_Of(viewport: Viewport, size: Size): SharedView {
+	const z = viewport.zoom;
+	return {
+		x: (size.width / 2 - viewport.offset_x) / z,
+		y: (size.height / 2 - viewport.offset_y) / z,
+		width: size.width / z,
+		height: size.height / z,
+	};
+}
+
+// The viewport that fits a region of the board on a screen of the given size
+function Viewport_For(view: SharedView, size: Size): Viewport {
+	const zoom = Math.max(0.1, Math.min(5, Math.min(size.width / view.width, size.height / view.height)));
+	return { zoom, offset_x: size.width / 2 - view.x * zoom, offset_y: size.height / 2 - view.y * zoom };
+}
+
+// Point copied elements at the copy of their frame, when that was copied too
+function Remap_Frames(items: (Shape | Connector | FreehandPath)[], id_map: Map<string, string>): void {
+	for (const item of items) {
+		if (item.frame_id && id_map.has(item.frame_id)) item.frame_id = id_map.get(item.frame_id);
+	}
+}
+
+// Constrain a handle resize to the original aspect ratio (used for images).
+// Corner handles scale about the opposite corner; edge handles scale about the centre line.
+function Aspect_Locked_Resize(orig: Bounds, handle: number, b: Bounds): Bounds {
+	const aspect = orig.width / orig.height;
+	const min_scale = 10 / Math.min(orig.width, orig.height);
+	if (handle <= 3) {
+		const scale = Math.max(b.width / orig.width, b.height / orig.height, min_scale);
+		const width = orig.width * scale;
+		const height = orig.height * scale;
+		const x = handle === 0 || handle === 3 ? orig.x + orig.width - width : orig.x;
+		const y = handle === 0 || handle === 1 ? orig.y + orig.height - height : orig.y;
+		return { x, y, width, height };
+	}
+	if (handle === 4 || handle === 6) {
+		const height = Math.max(b.height, orig.height * min_scale);
+		const width = height * aspect;
+		const y = handle === 4 ? orig.y + orig.height - height : orig.y;
+		return { x: orig.x + (orig.width - width) / 2, y, width, height };
+	}
+	const width = Math.max(b.width, orig.width * min_scale);
+	const height = width / aspect;
+	const x = handle === 7 ? orig.x + orig.width - width : orig.x;
+	return { x, y: orig.y + (orig.height - height) / 2, width, height };
+}
+
+// Edges of a box that a resize handle moves (0=TL, 1=TR, 2=BR, 3=BL, 4=T, 5=R, 6=B, 7=L)
+function Handle_Edges(handle: number): ResizeEdges {
+	return {
+		left: handle === 0 || handle === 3 || handle === 7,
+		right: handle === 1 || handle === 2 || handle === 5,
+		top: handle === 0 || handle === 1 || handle === 4,
+		bottom: handle === 2 || handle === 3 || handle === 6,
+	};
+}
+
+// Holding Shift draws the highlighter in a straight line
+function Is_Straight_Stroke(settings: ToolSettings, e: { shiftKey: boolean }): boolean {
+	return settings.pen_variant === 'highlighter' && e.shiftKey;
+}
+
+// Bounding box of a set of elements (null if empty)
+function Elements_Bounds(shapes: Shape[], connectors: Connector[], freehand_paths: FreehandPath[], all_shapes: Shape[]): Bounds | null {
+	const boxes: Bounds[] = [
+		...shapes.map(Rotated_Shape_Bounds),
+		...freehand_paths.map(f => Freehand_Bounds(f.points)),
+		...connectors.map(c => Freehand_Bounds([Resolve_Connector_End(c.source, all_shapes), Resolve_Connector_End(c.target, all_shapes)])),
+	];
+	if (boxes.length === 0) return null;
+	const min_x = Math.min(...boxes.map(b => b.x));
+	const min_y = Math.min(...boxes.map(b => b.y));
+	const max_x = Math.max(...boxes.map(b => b.x + b.width));
+	const max_y = Math.max(...boxes.map(b => b.y + b.height));
+	return { x: min_x, y: min_y, width: max_x - min_x, height: max_y - min_y };
+}
+
+function Load_State(): CanvasState & { max_z: number; error?: string } {
 	try {
 		const raw = localStorage.getItem(STORAGE_KEY);
 		if (raw) {
-			const parsed = JSON.parse(raw);
-			let z = 0;
-			// Migrate shapes missing the rotation field or rounded style
-			const shapes = (parsed.shapes || []).map((s: any) => ({
-				rotation: 0,
-				z_index: s.z_index ?? ++z,
-				...s,
-				style: { rounded: false, opacity: 100, ...s.style },
-			}));
-			// Migrate connectors missing arrow_type
-			const connectors = (parsed.connectors || []).map((c: any) => ({ arrow_type: 'forward' as const, routing: 'ortho' as const, z_index: c.z_index ?? ++z, ...c }));
-			const freehand_paths = (parsed.freehand_paths || []).map((f: any) => ({ z_index: f.z_index ?? ++z, ...f }));
-
-			// Find the actual maximum z_index across all elements
-			const max_z = Math.max(z,
-				...shapes.map((s: any) => s.z_index ?? 0),
-				...connectors.map((c: any) => c.z_index ?? 0),
-				...freehand_paths.map((f: any) => f.z_index ?? 0),
-			);
-			return { shapes, connectors, freehand_paths, max_z };
+			const state = Migrate_State(JSON.parse(raw));
+			return { ...state, max_z: Max_Z_Index(state) };
 		}
-	} catch { /* ignore */ }
-	return { shapes: [], connectors: [], freehand_paths: [], max_z: 0 };
+	} catch (err: any) {
+		return { shapes: [], connectors: [], freehand_paths: [], groups: [], max_z: 0, error: err?.message };
+	}
+	return { shapes: [], connectors: [], freehand_paths: [], groups: [], max_z: 0 };
 }
 
 function Save_State(state: CanvasState): void {
 	try {
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+		localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...state, schema_version: SCHEMA_VERSION }));
 	} catch { /* ignore */ }
 }
 
@@ -82,6 +208,7 @@ export function Canvas() {
 	const [shapes, set_shapes] = useState<Shape[]>(() => initial_state.shapes);
 	const [connectors, set_connectors] = useState<Connector[]>(() => initial_state.connectors);
 	const [freehand_paths, set_freehand_paths] = useState<FreehandPath[]>(() => initial_state.freehand_paths);
+	const [groups, set_groups] = useState<Group[]>(() => initial_state.groups ?? []);
 
 	// Refs to current state (for callbacks that must read latest values)
 	const shapes_ref = useRef(shapes);
@@ -90,32 +217,107 @@ export function Canvas() {
 	connectors_ref.current = connectors;
 	const freehand_ref = useRef(freehand_paths);
 	freehand_ref.current = freehand_paths;
+	const groups_ref = useRef(groups);
+	groups_ref.current = groups;
+
+	// Undo history records local changes only. Ids changed by anything else (remote ops, undo
+	// itself, previews) are added here before their state update and skipped when it lands.
+	const untracked_ids = useRef(new Set<string>(['__drawing__']));
+	const untracked_all = useRef(false);
+	const observed = useRef({ shapes, connectors, freehand_paths, groups });
+	useLayoutEffect(() => {
+		const prev = observed.current;
+		if (!untracked_all.current) {
+			undo_mgr.Observe('shape', prev.shapes, shapes, untracked_ids.current);
+			undo_mgr.Observe('connector', prev.connectors, connectors, untracked_ids.current);
+			undo_mgr.Observe('freehand', prev.freehand_paths, freehand_paths, untracked_ids.current);
+			undo_mgr.Observe('group', prev.groups, groups, untracked_ids.current);
+		}
+		observed.current = { shapes, connectors, freehand_paths, groups };
+		untracked_ids.current = new Set(['__drawing__']);
+		untracked_all.current = false;
+	}, [shapes, connectors, freehand_paths, groups]);
+
+	// Replicated copy of the board that collab ops are merged through. Reset from the board
+	// whenever a session starts or the board is replaced.
+	const crdt_doc = useRef(new CrdtDoc(Generate_Id('site'))).current;
+
+	// Spatial index over all elements, kept in step with the state on every render
+	const spatial_index = useRef(new SpatialIndex()).current;
+	spatial_index.Sync(shapes, connectors, freehand_paths);
 
 	// Global z-index counter — initialised from existing items
 	const z_counter = useRef(initial_state.max_z);
 	function Next_Z(): number { return ++z_counter.current; }
 	function User_Name(): string { return localStorage.getItem('whitebored-user-name') || 'Anonymous'; }
 
+	// Topmost shape whose box contains a canvas point (frames aren't connectable)
+	function Shape_At(pt: Point, exclude_id?: string | null): Shape | undefined {
+		let best: Shape | undefined;
+		for (const entry of spatial_index.Query_Point(pt)) {
+			if (entry.kind !== 'shape' || entry.item.id === exclude_id || Is_Frame(entry.item) || !Point_In_Shape(pt, entry.item)) continue;
+			if (!best || entry.item.z_index > best.z_index) best = entry.item;
+		}
+		return best;
+	}
+
+	// Topmost shape within 'reach' of a canvas point, for ends of sketched lines that stop just
+	// short of (or overshoot) the shape they were meant to touch
+	function Shape_Near(pt: Point, reach: number, exclude_id?: string | null): Shape | undefined {
+		const hit = Shape_At(pt, exclude_id);
+		if (hit) return hit;
+		let best: Shape | undefined;
+		let best_dist = reach;
+		for (const entry of spatial_index.Query({ x: pt.x - reach, y: pt.y - reach, width: reach * 2, height: reach * 2 })) {
+			if (entry.kind !== 'shape' || entry.item.id === exclude_id || Is_Frame(entry.item)) continue;
+			const b = Shape_Bounds(entry.item);
+			const dist = Math.hypot(Math.max(b.x - pt.x, 0, pt.x - b.x - b.width), Math.max(b.y - pt.y, 0, pt.y - b.y - b.height));
+			if (dist <= best_dist) {
+				best = entry.item;
+				best_dist = dist;
+			}
+		}
+		return best;
+	}
+
 	// Viewport (pan/zoom)
 	const [viewport, set_viewport] = useState<Viewport>({ offset_x: 0, offset_y: 0, zoom: 1 });
+	const viewport_ref = useRef(viewport);
+	viewport_ref.current = viewport;
+	const [view_size, set_view_size] = useState({ width: window.innerWidth, height: window.innerHeight });
+	const view_size_ref = useRef(view_size);
+	view_size_ref.current = view_size;
+
+	// Only elements near the viewport are rendered (turned off briefly while exporting)
+	const [culling_enabled, set_culling_enabled] = useState(true);
 
 	// Tool & interaction state
 	const [active_tool, set_active_tool] = useState<ToolType>('select');
 	const [selected_ids, set_selected_ids] = useState<Set<string>>(new Set());
 	const [hovered_shape_id, set_hovered_shape_id] = useState<string | null>(null);
 
+	// Group the user has double-clicked into (null = board root). Clicks select units within it.
+	const [entered_group_id, set_entered_group_id] = useState<string | null>(null);
+	const entered_group_ref = useRef(entered_group_id);
+	entered_group_ref.current = entered_group_id;
+
 	// Grid snapping
 	const [snap_enabled, set_snap_enabled] = useState(true);
 	const [grid_size, set_grid_size] = useState(DEFAULT_GRID_SIZE);
 
 	// Drag state
 	const drag_state = useRef<{
-		type: 'none' | 'pan' | 'move' | 'create' | 'marquee' | 'connector' | 'resize' | 'rotate' | 'freehand' | 'laser' | 'freehand_move' | 'freehand_resize' | 'cp_drag' | 'endpoint_drag' | 'label_t_drag';
+		type: 'none' | 'pan' | 'move' | 'create' | 'marquee' | 'connector' | 'resize' | 'rotate' | 'freehand' | 'erase' | 'laser' | 'freehand_resize' | 'group_resize' | 'group_rotate' | 'cp_drag' | 'endpoint_drag' | 'label_t_drag';
 		start_canvas: Point;
 		start_screen: Point;
 		start_viewport?: Viewport;
 		moved?: boolean;
 		shape_origins?: Map<string, Point>;
+		connector_origins?: Map<string, Connector>;
+		move_anchor?: Point; // origin of the dragged shape, which snaps to the grid
+		// Smart guides: the box the dragged elements cover, and the boxes of shapes around it
+		guide_box?: Bounds;
+		guide_targets?: Bounds[];
 		creating_shape?: Shape;
 		marquee_start?: Point;
 		connector_source?: ConnectorEnd;
@@ -129,12 +331,24 @@ export function Canvas() {
 		rotate_original?: number;
 		// Freehand state
 		freehand_points?: Point[];
+		// Pen pressure and tilt at each point (pens only, see pen.ts)
+		freehand_pressures?: number[];
+		freehand_tilts?: number[];
+		// Eraser state: ids of paths erased so far, the pieces cut from paths in this gesture
+		// (null once they've been erased themselves), and the path on the board each piece came from
+		erase_last?: Point;
+		erase_gone?: Set<string>;
+		erase_pieces?: Map<string, FreehandPath | null>;
+		erase_origins?: Map<string, string>;
 		// Laser state
 		laser_points?: LaserPoint[];
 		// Freehand move/resize state
 		freehand_path_origins?: Map<string, Point[]>;
 		freehand_resize_bounds?: { x: number; y: number; width: number; height: number };
 		freehand_resize_handle?: number;
+		// Group resize/rotate state (snapshot of the selected elements)
+		group_origins?: { shapes: Shape[]; connectors: Connector[]; freehand_paths: FreehandPath[] };
+		group_bounds?: Bounds;
 		// Control point drag state
 		cp_connector_id?: string;
 		cp_index?: number;
@@ -149,6 +363,10 @@ export function Canvas() {
 
 	// Marquee rectangle (screen coords for overlay display)
 	const [marquee, set_marquee] = useState<{ x: number; y: number; w: number; h: number } | null>(null);
+	// Smart guides shown while dragging or resizing
+	const [snap_guides, set_snap_guides] = useState<SnapGuide[]>([]);
+	// Where the eraser is while erasing
+	const [eraser_at, set_eraser_at] = useState<Point | null>(null);
 
 	// Multi-touch tracking for pinch-to-zoom / two-finger pan
 	const active_pointers = useRef<Map<number, { x: number; y: number }>>(new Map());
@@ -161,6 +379,7 @@ export function Canvas() {
 	const [editing_shape_id, set_editing_shape_id] = useState<string | null>(null);
 	const [editing_connector_id, set_editing_connector_id] = useState<string | null>(null);
 	const text_input_ref = useRef<HTMLInputElement>(null);
+	const text_area_ref = useRef<HTMLTextAreaElement>(null);
 	const connector_text_input_ref = useRef<HTMLInputElement>(null);
 	const editing_started_at = useRef<number>(0);
 
@@ -171,16 +390,24 @@ export function Canvas() {
 
 	// Shape palette sidebar
 	const [show_board_panel, set_show_board_panel] = useState(false);
+	const [show_shape_palette, set_show_shape_palette] = useState(false);
 	const [current_board_id, set_current_board_id] = useState<string | null>(null);
 	const [current_board_name, set_current_board_name] = useState('Untitled Board');
 	const board_name_ref = useRef(current_board_name);
 	board_name_ref.current = current_board_name;
 
+	// Named views saved with the board, and where we're up to when presenting them
+	const [saved_views, set_saved_views] = useState<SavedView[]>(() => initial_state.saved_views ?? []);
+	const saved_views_ref = useRef(saved_views);
+	saved_views_ref.current = saved_views;
+	const [presentation, set_presentation] = useState<{ index: number; lead: boolean } | null>(null);
+	const view_animation = useRef(0);
+
 	// Quick-connect: track the first shape for Shift+click connection
 	const quick_connect_source = useRef<string | null>(null);
 
 	// Clipboard for copy/paste
-	const clipboard = useRef<{ shapes: Shape[]; connectors: Connector[] } | null>(null);
+	const clipboard = useRef<{ shapes: Shape[]; connectors: Connector[]; freehand_paths: FreehandPath[]; groups: Group[] } | null>(null);
 
 	// Laser trail for rendering
 	const [laser_trail, set_laser_trail] = useState<LaserPoint[]>([]);
@@ -190,8 +417,22 @@ export function Canvas() {
 	const [collab_session, set_collab_session] = useState<CollabSession | null>(null);
 	const [remote_users, set_remote_users] = useState<CollabUser[]>([]);
 	const [collab_connected, set_collab_connected] = useState(false);
-	const [collab_toast, set_collab_toast] = useState<string | null>(null);
+	const [collab_toast, set_collab_toast] = useState<string | null>(initial_state.error ?? null);
 	const collab_ref = useRef<CollabSession | null>(null);
+	// Fraction of an incoming board received, while it's arriving
+	const [sync_progress, set_sync_progress] = useState<number | null>(null);
+	// Collaborator whose view we're following, and the viewport we last took from them (any other
+	// change to the viewport means we've panned or zoomed ourselves)
+	const [following_id, set_following_id] = useState<string | null>(null);
+	const following_ref = useRef<string | null>(null);
+	following_ref.current = following_id;
+	const follow_viewport = useRef<Viewport | null>(null);
+	// The host's presentation, when they're leading the room through one, and whether we're
+	// going along with it
+	const [remote_presentation, set_remote_presentation] = useState<PresentationStep | null>(null);
+	const [tracking_presentation, set_tracking_presentation] = useState(true);
+	// Our edits not yet delivered (e.g. made while the connection was down)
+	const [collab_pending, set_collab_pending] = useState(0);
 
 	// Join room UI state
 	const [show_join_room, set_show_join_room] = useState(false);
@@ -202,20 +443,58 @@ export function Canvas() {
 	const [allow_remote_editing, set_allow_remote_editing] = useState(true);
 	const allow_remote_editing_ref = useRef(true);
 	allow_remote_editing_ref.current = allow_remote_editing;
-	const [remote_editing_blocked, set_remote_editing_blocked] = useState(false);
+	const [editing_disabled_by_host, set_editing_disabled_by_host] = useState(false);
+	const editing_disabled_by_host_ref = useRef(false);
+	editing_disabled_by_host_ref.current = editing_disabled_by_host;
+	// Our role in the session, assigned by the server from our invite
+	const [collab_permission, set_collab_permission] = useState<CollabUser['permission']>('edit');
+	const remote_editing_blocked = editing_disabled_by_host || collab_permission === 'view';
+	const remote_editing_blocked_ref = useRef(remote_editing_blocked);
+	remote_editing_blocked_ref.current = remote_editing_blocked;
 
 	// Check URL for room parameter on mount
 	useEffect(() => {
 		const params = new URLSearchParams(window.location.search);
 		const room = params.get('room');
-		if (room) {
+		const invite = params.get('invite');
+		if (room && invite) {
 			const saved_name = localStorage.getItem('whitebored-user-name') || '';
 			const name = prompt('Enter your display name to join the session:', saved_name) || saved_name || 'Anonymous';
 			localStorage.setItem('whitebored-user-name', name);
-			Start_Collab_Session(room, false);
+			Start_Collab_Session(room, invite, false);
+		} else if (room) {
+			set_collab_toast('This link is missing its invite. Ask the host for a new one.');
+		}
+	}, []);
+
+	// Track the canvas size for viewport culling
+	useEffect(() => {
+		const svg = svg_ref.current;
+		if (!svg) return;
+		const observer = new ResizeObserver(() => {
+			const rect = svg.getBoundingClientRect();
+			set_view_size({ width: rect.width, height: rect.height });
+		});
+		observer.observe(svg);
+		return () => observer.disconnect();
+	}, []);
+
+	// Export clones the rendered SVG, so culled elements must be rendered first
+	const With_All_Rendered = useCallback(<T,>(fn: () => T): T => {
+		flushSync(() => set_culling_enabled(false));
+		try {
+			return fn();
+		} finally {
+			set_culling_enabled(true);
 		}
 	}, []);
 
+	// Images this device doesn't have are requested from collaborators
+	useEffect(() => {
+		Set_Missing_Asset_Resolver(asset_id => collab_ref.current?.Request_Asset(asset_id));
+		return () => Set_Missing_Asset_Resolver(null);
+	}, []);
+
 	// Clean up collab toast
 	useEffect(() => {
 		if (!collab_toast) return;
@@ -223,23 +502,206 @@ export function Canvas() {
 		return () => clearTimeout(t);
 	}, [collab_toast]);
 
-	function Start_Collab_Session(room_id: string, is_host: boolean): void {
+	// Edits the others haven't had yet only live in this page, so check before it goes
+	useEffect(() => {
+		if (collab_pending === 0) return;
+		function On_Before_Unload(e: BeforeUnloadEvent) {
+			e.preventDefault();
+		}
+		window.addEventListener('beforeunload', On_Before_Unload);
+		return () => window.removeEventListener('beforeunload', On_Before_Unload);
+	}, [collab_pending > 0]);
+
+	// Let collaborators see what we have selected
+	useEffect(() => {
+		collab_session?.Send_Selection(Array.from(selected_ids));
+	}, [selected_ids, collab_session]);
+
+	// ...and where we're dragging it, before we let go
+	useEffect(() => {
+		const ds = drag_state.current;
+		if (!collab_ref.current || !ds.moved || !PREVIEW_DRAGS.has(ds.type)) return;
+		const outlines = Array.from(selected_ids, Element_Outline).filter((o): o is RemoteOutline => o !== null);
+		if (outlines.length > 0) collab_ref.current.Send_Drag_Preview(outlines);
+	}, [shapes, freehand_paths]);
+
+	// Tell anyone following us what we're looking at
+	useEffect(() => {
+		if (!collab_session) return;
+		collab_session.Send_View(Shared_View_Of(viewport, view_size));
+	}, [viewport, view_size, collab_session]);
+
+	// Panning or zooming ourselves stops following
+	useEffect(() => {
+		if (following_ref.current && viewport !== follow_viewport.current) set_following_id(null);
+	}, [viewport]);
+
+	// Move to each view as the presentation reaches it
+	const presenting = presentation !== null;
+	const presented_view = presentation ? saved_views[Math.min(presentation.index, saved_views.length - 1)] : undefined;
+	useEffect(() => {
+		if (presented_view) Animate_To_View(presented_view.view);
+	}, [presented_view?.id]);
+
+	// Leading the room: everyone's view goes along with ours
+	useEffect(() => {
+		if (!collab_session?.Is_Host) return;
+		collab_session.Present(presentation?.lead && presented_view
+			? { name: presented_view.name, index: presentation.index, count: saved_views.length, view: presented_view.view }
+			: null);
+	}, [presentation, presented_view, saved_views.length, collab_session]);
+
+	// Follow the host's presentation, unless we've opted out of this one
+	useEffect(() => {
+		if (remote_presentation && tracking_presentation && !presenting) Animate_To_View(remote_presentation.view);
+	}, [remote_presentation, tracking_presentation]);
+
+	// Arrow keys step through the presentation and Escape ends it (ahead of the editing shortcuts)
+	useEffect(() => {
+		if (!presenting) return;
+		function On_KeyDown(e: KeyboardEvent) {
+			if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) Step_Presentation(1);
+			else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) Step_Presentation(-1);
+			else if (e.key === 'Home') Step_Presentation(-Infinity);
+			else if (e.key === 'End') Step_Presentation(Infinity);
+			else if (e.key === 'Escape') set_presentation(null);
+			else return;
+			e.preventDefault();
+			e.stopImmediatePropagation();
+		}
+		window.addEventListener('keydown', On_KeyDown, true);
+		return () => window.removeEventListener('keydown', On_KeyDown, true);
+	}, [presenting]);
+
+	// Show the same region of the board as a collaborator, fitted to our screen
+	function Show_Shared_View(view: SharedView): void {
+		const next = Viewport_For(view, view_size_ref.current);
+		follow_viewport.current = next;
+		set_viewport(next);
+	}
+
+	// Glide to a view. The centre moves in a straight line while the zoom changes at a steady
+	// rate, so the motion looks even however far it zooms.
+	function Animate_To_View(view: SharedView): void {
+		cancelAnimationFrame(view_animation.current);
+		const size = view_size_ref.current;
+		const from = viewport_ref.current;
+		const to = Viewport_For(view, size);
+		const start = Shared_View_Of(from, size);
+		const started_at = performance.now();
+		const Step = (now: number) => {
+			const t = Math.min(1, (now - started_at) / VIEW_ANIMATION_MS);
+			const e = t < 0.5 ? 2 * t * t : 1 - Math.pow(2 - 2 * t, 2) / 2;
+			const zoom = from.zoom * Math.pow(to.zoom / from.zoom, e);
+			const x = start.x + (view.x - start.x) * e;
+			const y = start.y + (view.y - start.y) * e;
+			set_viewport({ zoom, offset_x: size.width / 2 - x * zoom, offset_y: size.height / 2 - y * zoom });
+			if (t < 1) view_animation.current = requestAnimationFrame(Step);
+		};
+		view_animation.current = requestAnimationFrame(Step);
+	}
+
+	// Bookmark what's on screen as a named view
+	function Save_Current_View(): void {
+		const view: SavedView = {
+			id: Generate_Id('v'),
+			name: `View ${saved_views_ref.current.length + 1}`,
+			view: Shared_View_Of(viewport_ref.current, view_size_ref.current),
+		};
+		Commit_Saved_Views([...saved_views_ref.current, view]);
+	}
+
+	// Replace the saved views, telling collaborators
+	function Commit_Saved_Views(views: SavedView[]): void {
+		set_saved_views(views);
+		Broadcast_Update('saved_views', views);
+	}
+
+	function Start_Presentation(index: number = 0): void {
+		if (saved_views_ref.current.length === 0) {
+			set_collab_toast('Save some views to present first');
+			return;
+		}
+		set_selected_ids(new Set());
+		set_editing_shape_id(null);
+		set_active_tool('select');
+		set_presentation({ index: Math.min(index, saved_views_ref.current.length - 1), lead: false });
+	}
+
+	function Step_Presentation(delta: number): void {
+		set_presentation(p => p && { ...p, index: Math.max(0, Math.min(saved_views_ref.current.length - 1, p.index + delta)) });
+	}
+
+	// Fit a frame in the view and select it (frame navigator)
+	function Go_To_Frame(frame: Shape): void {
+		const { width, height } = view_size_ref.current;
+		const margin = 40;
+		const zoom = Math.max(0.1, Math.min(5, Math.min((width - margin * 2) / frame.width, (height - margin * 2) / frame.height)));
+		set_viewport({
+			zoom,
+			offset_x: width / 2 - (frame.x + frame.width / 2) * zoom,
+			offset_y: height / 2 - (frame.y + frame.height / 2) * zoom,
+		});
+		set_selected_ids(new Set([frame.id]));
+	}
+
+	function Start_Following(user_id: string | null): void {
+		set_following_id(user_id);
+		const view = user_id ? collab_ref.current?.Users.find(u => u.id === user_id)?.view : null;
+		if (view) Show_Shared_View(view);
+	}
+
+	// Where an element is, for drawing collaborators' selections and drag previews
+	function Element_Outline(id: string): RemoteOutline | null {
+		const shape = shapes_ref.current.find(s => s.id === id);
+		if (shape) return { id, x: shape.x, y: shape.y, width: shape.width, height: shape.height, rotation: shape.rotation };
+		const path = freehand_ref.current.find(p => p.id === id);
+		if (path) return { id, ...Freehand_Bounds(path.points) };
+		return null;
+	}
+
+	function Start_Collab_Session(room_id: string, invite: string, is_host: boolean): void {
 		if (collab_ref.current) {
 			collab_ref.current.Disconnect();
 		}
 
-		const session = new CollabSession(room_id, {
-			on_user_join: (user) => {
+		const session = new CollabSession(room_id, invite, {
+			on_user_join: (user, already_present) => {
 				set_remote_users(prev => [...prev.filter(u => u.id !== user.id), user]);
-				set_collab_toast(`${user.name} joined`);
+				if (!already_present) set_collab_toast(`${user.name} joined`);
+				// The newcomer may have images we're missing
+				Retry_Missing_Assets();
 			},
 			on_user_leave: (user_id) => {
+				if (following_ref.current === user_id) set_following_id(null);
 				set_remote_users(prev => {
 					const leaving = prev.find(u => u.id === user_id);
 					if (leaving) set_collab_toast(`${leaving.name} left`);
 					return prev.filter(u => u.id !== user_id);
 				});
 			},
+			on_selection_change: (user_id, ids) => {
+				set_remote_users(prev => prev.map(u => u.id === user_id ? { ...u, selection: ids } : u));
+			},
+			on_drag_preview: (user_id, outlines) => {
+				set_remote_users(prev => prev.map(u => u.id === user_id ? { ...u, drag_preview: outlines ?? undefined } : u));
+			},
+			on_view_change: (user_id, view) => {
+				if (following_ref.current === user_id) Show_Shared_View(view);
+			},
+			on_summon: (host_id) => {
+				const host = session.Users.find(u => u.id === host_id);
+				Start_Following(host_id);
+				set_collab_toast(`Following ${host?.name ?? 'the host'} — pan or zoom to stop`);
+			},
+			on_presentation: (step) => {
+				set_remote_presentation(step);
+				// Each new presentation is followed until we opt out of it
+				if (!step) set_tracking_presentation(true);
+			},
+			on_user_update: (user) => {
+				set_remote_users(prev => prev.map(u => u.id === user.id ? { ...u, permission: user.permission } : u));
+			},
 			on_cursor_move: (user_id, cursor, sender_name, sender_colour) => {
 				const pressing = (cursor as any).pressing ?? false;
 				const pt = { x: cursor.x, y: cursor.y };
@@ -251,61 +713,127 @@ export function Canvas() {
 					return [...prev, { id: user_id, name: sender_name || 'Unknown', colour: sender_colour || '#888', status: 'editing' as const, permission: 'edit' as const, cursor: pt, pressing }];
 				});
 			},
-			on_state_sync: (state) => {
-				set_shapes(state.shapes || []);
-				set_connectors(state.connectors || []);
-				set_freehand_paths(state.freehand_paths || []);
+			on_state_progress: (received, count) => set_sync_progress(received < count ? received / count : null),
+			on_state_sync: (raw_state, merge) => {
+				let state: CanvasState;
+				try {
+					state = Migrate_State(raw_state);
+				} catch (err: any) {
+					set_collab_toast(err?.message || 'Received an unreadable board from the host');
+					return;
+				}
+				// Catching up after a reconnect: take what others changed meanwhile, keep our own
+				// offline edits (they've been sent on) and our undo history
+				if (merge && state.crdt) {
+					const changes = crdt_doc.Merge(state.crdt);
+					for (const c of changes) untracked_ids.current.add(c.id);
+					Put_Elements(changes);
+					if (state.board_name) set_current_board_name(state.board_name);
+					if (state.saved_views) set_saved_views(state.saved_views);
+					if (state.allow_remote_editing !== undefined && !session.Is_Host) {
+						set_editing_disabled_by_host(!state.allow_remote_editing);
+					}
+					z_counter.current = Math.max(z_counter.current, Max_Z_Index(state));
+					Retry_Missing_Assets();
+					return;
+				}
+				untracked_all.current = true;
+				set_shapes(state.shapes);
+				set_connectors(state.connectors);
+				set_freehand_paths(state.freehand_paths);
+				set_groups(state.groups ?? []);
+				set_entered_group_id(null);
+				if (state.crdt) crdt_doc.Load(state.crdt);
+				else Reset_Crdt(state);
 				if (state.board_name) set_current_board_name(state.board_name);
+				set_saved_views(state.saved_views ?? []);
 				// Receive host's remote editing setting
 				if (state.allow_remote_editing !== undefined) {
-					set_remote_editing_blocked(!state.allow_remote_editing);
+					set_editing_disabled_by_host(!state.allow_remote_editing);
 				}
-				const max_z = Math.max(0,
-					...(state.shapes || []).map(s => s.z_index ?? 0),
-					...(state.connectors || []).map(c => c.z_index ?? 0),
-					...(state.freehand_paths || []).map(f => f.z_index ?? 0),
-				);
-				z_counter.current = max_z;
+				z_counter.current = Max_Z_Index(state);
 				undo_mgr.Clear();
+				Retry_Missing_Assets();
 			},
 			on_operation: (msg) => {
 				const { type, payload } = msg;
 
-				// Settings updates are always accepted (host → guests)
+				// Settings come from the host (ops only arrive from the room's group, so it's an editor)
 				if (type === 'op_update' && payload.kind === 'settings') {
+					if (msg.sender_id !== session.Host_Id) return;
 					if (payload.item?.allow_remote_editing !== undefined) {
-						set_remote_editing_blocked(!payload.item.allow_remote_editing);
+						set_editing_disabled_by_host(!payload.item.allow_remote_editing);
 					}
 					return;
 				}
 
-				// Host ignores remote edits when allow_remote_editing is off
-				if (is_host && !allow_remote_editing_ref.current && (type === 'op_add' || type === 'op_update' || type === 'op_delete')) {
-					// Still allow board_name updates through
-					if (type === 'op_update' && payload.kind === 'board_name') { /* fall through */ }
-					else return;
+				// With remote editing off, the host undoes other people's edits. They're merged first and
+				// then reverted with ops of our own, so every client's doc (ours included) stays the same.
+				const is_element_op = type === 'op_delete' || ((type === 'op_add' || type === 'op_update') && !!payload.op);
+				if (session.Is_Host && !allow_remote_editing_ref.current && is_element_op) {
+					const ops: CrdtOp[] = type === 'op_delete' ? payload.ops ?? [] : [payload.op];
+					for (const op of ops) {
+						const before = crdt_doc.Get(op.id);
+						const change = crdt_doc.Apply(op);
+						if (!change) continue;
+						if (!before) Broadcast_Delete([op.id]);
+						else Broadcast_Element(change.item ? 'op_update' : 'op_add', op.kind, before);
+					}
+					return;
 				}
 
-				if (type === 'op_add') {
-					if (payload.kind === 'shape') set_shapes(prev => [...prev, payload.item]);
-					else if (payload.kind === 'connector') set_connectors(prev => [...prev, payload.item]);
-					else if (payload.kind === 'freehand') set_freehand_paths(prev => [...prev, payload.item]);
-				} else if (type === 'op_update') {
-					if (payload.kind === 'board_name') set_current_board_name(payload.item);
-					else if (payload.kind === 'shape') set_shapes(prev => prev.map(s => s.id === payload.item.id ? payload.item : s));
-					else if (payload.kind === 'connector') set_connectors(prev => prev.map(c => c.id === payload.item.id ? payload.item : c));
-					else if (payload.kind === 'freehand') set_freehand_paths(prev => prev.map(f => f.id === payload.item.id ? payload.item : f));
-				} else if (type === 'op_delete') {
-					const ids = new Set(payload.ids as string[]);
-					set_shapes(prev => prev.filter(s => !ids.has(s.id)));
-					set_connectors(prev => prev.filter(c => !ids.has(c.id)));
-					set_freehand_paths(prev => prev.filter(f => !ids.has(f.id)));
+				if (type === 'op_update' && payload.kind === 'board_name') {
+					set_current_board_name(payload.item);
+					return;
+				}
+				if (type === 'op_update' && payload.kind === 'saved_views') {
+					if (session.Is_Host && !allow_remote_editing_ref.current) Broadcast_Update('saved_views', saved_views_ref.current);
+					else if (Array.isArray(payload.item)) set_saved_views(payload.item);
+					return;
 				}
+
+				// Element ops are merged through the replicated doc, so every client ends up with
+				// the same board whatever order the ops arrive in. Only what changed is applied.
+				const ops: CrdtOp[] = type === 'op_delete' ? payload.ops ?? [] : payload.op ? [payload.op] : [];
+				const changes: CrdtChange[] = [];
+				for (const op of ops) {
+					const change = crdt_doc.Apply(op);
+					if (change) changes.push(change);
+				}
+				if (changes.length === 0) return;
+
+				// Collaborators' edits aren't part of our undo history
+				for (const c of changes) untracked_ids.current.add(c.id);
+				Put_Elements(changes);
 			},
-			on_state_requested: () => ({ shapes: shapes_ref.current, connectors: connectors_ref.current, freehand_paths: freehand_ref.current, board_name: board_name_ref.current, allow_remote_editing: allow_remote_editing_ref.current }),
+			on_state_requested: () => ({ schema_version: SCHEMA_VERSION, shapes: shapes_ref.current, connectors: connectors_ref.current, freehand_paths: freehand_ref.current, groups: groups_ref.current, board_name: board_name_ref.current, saved_views: saved_views_ref.current, allow_remote_editing: allow_remote_editing_ref.current, crdt: crdt_doc.Snapshot() }),
 			on_connection_change: (connected) => set_collab_connected(connected),
-		}, is_host);
+			on_pending_change: (count) => set_collab_pending(count),
+			on_host_change: (host_id) => {
+				if (host_id !== session.User_Id) {
+					const host = session.Users.find(u => u.id === host_id);
+					set_collab_toast(`${host?.name ?? 'Someone else'} is now hosting`);
+					return;
+				}
+				// Took over from the previous host: keep its remote editing setting and tell everyone
+				const allowed = !editing_disabled_by_host_ref.current;
+				set_allow_remote_editing(allowed);
+				set_editing_disabled_by_host(false);
+				session.Send_Operation('op_update', { kind: 'settings', item: { allow_remote_editing: allowed } });
+				set_collab_toast('You are now hosting this session');
+			},
+			on_permission_change: (permission) => {
+				set_collab_permission(permission);
+				set_collab_toast(permission === 'view' ? 'You have view-only access' : 'You can now edit the board');
+			},
+			on_access_denied: (message) => {
+				Stop_Collab_Session();
+				set_collab_toast(message);
+			},
+		}, is_host, graph_auth.Get_Id_Token);
 
+		// Guests take the host's doc from the state sync
+		if (is_host) Reset_Crdt({ shapes: shapes_ref.current, connectors: connectors_ref.current, freehand_paths: freehand_ref.current, groups: groups_ref.current });
 		collab_ref.current = session;
 		set_collab_session(session);
 		session.Connect();
@@ -319,115 +847,195 @@ export function Canvas() {
 		set_collab_session(null);
 		set_remote_users([]);
 		set_collab_connected(false);
+		set_collab_permission('edit');
+		set_sync_progress(null);
+		set_collab_pending(0);
+		set_following_id(null);
+		set_remote_presentation(null);
+		set_tracking_presentation(true);
 		// Remove room from URL
 		const url = new URL(window.location.href);
 		url.searchParams.delete('room');
+		url.searchParams.delete('invite');
 		window.history.replaceState({}, '', url.toString());
 	}
 
-	function Handle_Start_Sharing(): void {
-		const saved_name = localStorage.getItem('whitebored-user-name') || '';
-		const name = prompt('Enter your display name:', saved_name) || saved_name || 'Anonymous';
-		localStorage.setItem('whitebored-user-name', name);
-		const room_id = Generate_Room_Id();
-		Start_Collab_Session(room_id, true);
-		// Add room to URL
+	// Leaving drops edits that haven't reached the others, so check first
+	function Handle_Stop_Sharing(): void {
+		const pending = collab_ref.current?.Pending_Count ?? 0;
+		if (pending > 0 && !confirm(`${pending} change${pending === 1 ? " hasn't" : "s haven't"} reached the others yet and will be lost. Stop sharing anyway?`)) return;
+		Stop_Collab_Session();
+	}
+
+	// Put the room in the URL, so reloading rejoins it. The invite is our own (a host invite only
+	// works for the person it was issued to).
+	function Set_Room_Url(room_id: string, invite: string): void {
 		const url = new URL(window.location.href);
 		url.searchParams.set('room', room_id);
+		url.searchParams.set('invite', invite);
 		window.history.replaceState({}, '', url.toString());
 	}
 
+	async function Handle_Start_Sharing(): Promise<void> {
+		const saved_name = localStorage.getItem('whitebored-user-name') || '';
+		const name = prompt('Enter your display name:', saved_name) || saved_name || 'Anonymous';
+		localStorage.setItem('whitebored-user-name', name);
+		try {
+			const { room_id, invite } = await Create_Room(graph_auth.Get_Id_Token);
+			Start_Collab_Session(room_id, invite, true);
+			Set_Room_Url(room_id, invite);
+		} catch (err: any) {
+			set_collab_toast(err?.message || "Couldn't start a session");
+		}
+	}
+
 	function Handle_Toggle_Remote_Editing(allowed: boolean): void {
 		set_allow_remote_editing(allowed);
 		Broadcast_Update('settings', { allow_remote_editing: allowed });
 	}
 
+	// Room creator makes a collaborator an editor or a viewer (enforced by the server)
+	function Handle_Set_User_Permission(user_id: string, permission: CollabUser['permission']): void {
+		const session = collab_ref.current;
+		if (!session) return;
+		session.Set_User_Permission(user_id, permission).catch(err => set_collab_toast(err?.message || "Couldn't change their role"));
+	}
+
 	function Handle_Join_Room(): void {
-		const code = join_room_code.trim();
-		if (!code) return;
+		if (!join_room_code.trim()) return;
+		const joining = Parse_Invite(join_room_code);
+		if (!joining) {
+			set_collab_toast("That isn't a valid invite link or code");
+			return;
+		}
 		const name = join_room_name.trim() || 'Anonymous';
 		localStorage.setItem('whitebored-user-name', name);
-		Start_Collab_Session(code, false);
-		// Add room to URL
-		const url = new URL(window.location.href);
-		url.searchParams.set('room', code);
-		window.history.replaceState({}, '', url.toString());
+		Start_Collab_Session(joining.room_id, joining.invite, false);
+		Set_Room_Url(joining.room_id, joining.invite);
 		set_show_join_room(false);
 		set_join_room_code('');
 	}
 
 	// Broadcast operation to collaborators
-	// Guests are blocked from sending edits when remote editing is disabled
-	function Broadcast_Add(kind: 'shape' | 'connector' | 'freehand', item: any): void {
-		if (remote_editing_blocked) return;
-		collab_ref.current?.Send_Operation('op_add', { kind, item });
+	// Guests are blocked from sending edits when remote editing is disabled (read from a ref, as
+	// these are called from callbacks that don't re-create when it changes)
+	function Broadcast_Add(kind: CrdtKind, item: any): void {
+		if (remote_editing_blocked_ref.current) return;
+		Broadcast_Element('op_add', kind, item);
 	}
-	function Broadcast_Update(kind: 'shape' | 'connector' | 'freehand' | 'board_name' | 'settings', item: any): void {
-		collab_ref.current?.Send_Operation('op_update', { kind, item });
+	function Broadcast_Update(kind: CrdtKind | 'board_name' | 'saved_views' | 'settings', item: any): void {
+		if (kind === 'board_name' || kind === 'saved_views' || kind === 'settings') collab_ref.current?.Send_Operation('op_update', { kind, item });
+		else Broadcast_Element('op_update', kind, item);
 	}
 	function Broadcast_Delete(ids: string[]): void {
-		if (remote_editing_blocked) return;
-		collab_ref.current?.Send_Operation('op_delete', { ids });
+		if (remote_editing_blocked_ref.current || !collab_ref.current) return;
+		const ops = ids.map(id => crdt_doc.Local_Delete(id)).filter((op): op is CrdtOp => op !== null);
+		if (ops.length > 0) collab_ref.current.Send_Operation('op_delete', { ops });
 	}
-
-	// Broadcast the diff between old and new state after undo/redo
-	function Broadcast_Undo_Diff(
-		old_shapes: Shape[], old_connectors: Connector[], old_freehand: FreehandPath[],
-		next: CanvasState,
-	): void {
+	// Elements are sent as doc ops holding just the fields that changed since the last send
+	function Broadcast_Element(type: 'op_add' | 'op_update', kind: CrdtKind, item: any): void {
 		if (!collab_ref.current) return;
+		const op = crdt_doc.Local_Put(kind, item);
+		if (op) collab_ref.current.Send_Operation(type, { kind, op });
+	}
 
-		const old_shape_ids = new Set(old_shapes.map(s => s.id));
-		const new_shape_ids = new Set(next.shapes.map(s => s.id));
-		const old_conn_ids = new Set(old_connectors.map(c => c.id));
-		const new_conn_ids = new Set(next.connectors.map(c => c.id));
-		const old_fh_ids = new Set(old_freehand.map(f => f.id));
-		const new_fh_ids = new Set(next.freehand_paths.map(f => f.id));
-
-		// Deleted items
-		const deleted_ids = [
-			...old_shapes.filter(s => !new_shape_ids.has(s.id)).map(s => s.id),
-			...old_connectors.filter(c => !new_conn_ids.has(c.id)).map(c => c.id),
-			...old_freehand.filter(f => !new_fh_ids.has(f.id)).map(f => f.id),
-		];
-		if (deleted_ids.length > 0) Broadcast_Delete(deleted_ids);
-
-		// Added items
-		for (const s of next.shapes) if (!old_shape_ids.has(s.id)) Broadcast_Add('shape', s);
-		for (const c of next.connectors) if (!old_conn_ids.has(c.id)) Broadcast_Add('connector', c);
-		for (const f of next.freehand_paths) if (!old_fh_ids.has(f.id)) Broadcast_Add('freehand', f);
-
-		// Updated items (present in both old and new)
-		for (const s of next.shapes) {
-			if (old_shape_ids.has(s.id)) {
-				const old = old_shapes.find(o => o.id === s.id);
-				if (old && old !== s) Broadcast_Update('shape', s);
-			}
-		}
-		for (const c of next.connectors) {
-			if (old_conn_ids.has(c.id)) {
-				const old = old_connectors.find(o => o.id === c.id);
-				if (old && old !== c) Broadcast_Update('connector', c);
-			}
+	function Reset_Crdt(state: Pick<CanvasState, 'shapes' | 'connectors' | 'freehand_paths' | 'groups'>): void {
+		crdt_doc.Reset([
+			{ kind: 'shape', items: state.shapes },
+			{ kind: 'connector', items: state.connectors },
+			{ kind: 'freehand', items: state.freehand_paths },
+			{ kind: 'group', items: state.groups ?? [] },
+		]);
+	}
+
+	// Replace the group list, broadcasting the groups that were added, changed or removed
+	function Commit_Groups(next: Group[]): void {
+		const prev = groups_ref.current;
+		const prev_by_id = new Map(prev.map(g => [g.id, g]));
+		const next_ids = new Set(next.map(g => g.id));
+		const removed = prev.filter(g => !next_ids.has(g.id)).map(g => g.id);
+		if (removed.length > 0) Broadcast_Delete(removed);
+		for (const g of next) {
+			const old = prev_by_id.get(g.id);
+			if (!old) Broadcast_Add('group', g);
+			else if (old !== g) Broadcast_Update('group', g);
 		}
-		for (const f of next.freehand_paths) {
-			if (old_fh_ids.has(f.id)) {
-				const old = old_freehand.find(o => o.id === f.id);
-				if (old && old !== f) Broadcast_Update('freehand', f);
-			}
+		groups_ref.current = next;
+		set_groups(next);
+	}
+
+	// Put the given elements (everything when null) into the frame they now sit in, telling
+	// collaborators about any that changed. Reads the refs, so call it once the change that
+	// moved them has rendered; 'frames' can be passed for a frame that hasn't been yet.
+	function Update_Frames(ids: Set<string> | null, frames: Shape[] = shapes_ref.current.filter(Is_Frame)): void {
+		const edits: (ElementEdit & { fields?: string[] })[] = [];
+		const Check = (kind: 'shape' | 'connector' | 'freehand', item: Shape | Connector | FreehandPath) => {
+			if (ids && !ids.has(item.id)) return;
+			const frame_id = Frame_At(Element_Centre(item, shapes_ref.current), frames)?.id;
+			if (frame_id === item.frame_id) return;
+			edits.push({ kind, id: item.id, item: { ...item, frame_id }, fields: ['frame_id'] });
+		};
+		for (const s of shapes_ref.current) if (!Is_Frame(s)) Check('shape', s);
+		for (const c of connectors_ref.current) Check('connector', c);
+		for (const f of freehand_ref.current) Check('freehand', f);
+		if (edits.length === 0) return;
+		Put_Elements(edits);
+		for (const e of edits) Broadcast_Update(e.kind, e.item);
+	}
+
+	// Frame a new element is created in
+	function Frame_Id_At(pt: Point): string | undefined {
+		return Frame_At(pt, shapes_ref.current.filter(Is_Frame))?.id;
+	}
+
+	// Ids of every shape, connector and freehand path on the board
+	function All_Element_Ids(): Set<string> {
+		return new Set([
+			...shapes_ref.current.map(s => s.id),
+			...connectors_ref.current.map(c => c.id),
+			...freehand_ref.current.map(f => f.id),
+		]);
+	}
+
+	// Element ids covered by the unit that 'id' belongs to at the current group scope.
+	// Selecting something outside the entered group leaves that group.
+	function Unit_Ids(id: string): string[] {
+		const parents = Parent_Map(groups_ref.current);
+		let scope = entered_group_ref.current;
+		if (!Is_Within(id, scope, parents)) {
+			scope = null;
+			set_entered_group_id(null);
 		}
+		return Leaf_Ids(Top_Unit(id, scope, parents), groups_ref.current);
+	}
+
+	// Toggle a whole unit in/out of the selection (Shift+click)
+	function Toggle_Unit(prev: Set<string>, ids: string[]): Set<string> {
+		const next = new Set(prev);
+		if (ids.every(id => next.has(id))) ids.forEach(id => next.delete(id));
+		else ids.forEach(id => next.add(id));
+		return next;
 	}
 
-	// Persist state on change
+	// Persist state on change.
+	// If the stored board couldn't be loaded (e.g. saved by a newer app version), don't
+	// overwrite it with the empty fallback until the user actually changes something.
+	useEffect(() => {
+		if (initial_state.error && shapes === initial_state.shapes && connectors === initial_state.connectors && freehand_paths === initial_state.freehand_paths && groups === initial_state.groups) return;
+		Save_State({ shapes, connectors, freehand_paths, groups, saved_views });
+	}, [shapes, connectors, freehand_paths, groups, saved_views]);
+
+	// Leave the entered group if it's gone (ungrouped, deleted, undone or removed remotely)
 	useEffect(() => {
-		Save_State({ shapes, connectors, freehand_paths });
-	}, [shapes, connectors, freehand_paths]);
+		if (entered_group_id && !groups.some(g => g.id === entered_group_id)) set_entered_group_id(null);
+	}, [groups, entered_group_id]);
 
 	// Focus text input when editing
 	useEffect(() => {
-		if (editing_shape_id && text_input_ref.current) {
-			text_input_ref.current.focus();
-			text_input_ref.current.select();
+		const input = text_input_ref.current ?? text_area_ref.current;
+		if (editing_shape_id && input) {
+			input.focus();
+			input.select();
 		}
 	}, [editing_shape_id]);
 
@@ -438,32 +1046,80 @@ export function Canvas() {
 		}
 	}, [editing_connector_id]);
 
-	// Save undo snapshot before making a change (uses refs for latest state)
-	const Push_Undo = useCallback(() => {
-		undo_mgr.Push({ shapes: shapes_ref.current, connectors: connectors_ref.current, freehand_paths: freehand_ref.current });
+	// Start a new undo step before making a change. Edits passing the same key as the step
+	// before (typing into one label) stay in that step.
+	const Push_Undo = useCallback((key?: string) => {
+		undo_mgr.Begin(key);
 	}, [undo_mgr]);
 
+	// Look up an element on the board by kind and id (latest rendered state)
+	function Find_Element(kind: ElementKind, id: string): BoardElement | undefined {
+		const list: BoardElement[] = kind === 'shape' ? shapes_ref.current
+			: kind === 'connector' ? connectors_ref.current
+			: kind === 'freehand' ? freehand_ref.current
+			: groups_ref.current;
+		return list.find(e => e.id === id);
+	}
+
+	// Replace, add or remove elements on the board. Edits listing 'fields' only change those
+	// fields of the element, leaving the rest as they are locally.
+	function Put_Elements(edits: (ElementEdit & { fields?: string[] })[]): void {
+		const Apply_To = <T extends BoardElement>(list: T[], kind: ElementKind): T[] => {
+			const mine = edits.filter(e => e.kind === kind);
+			if (mine.length === 0) return list;
+			const by_id = new Map(mine.map(e => [e.id, e]));
+			const next = list.flatMap(item => {
+				const edit = by_id.get(item.id);
+				if (!edit) return [item];
+				by_id.delete(item.id);
+				if (!edit.item) return [];
+				if (!edit.fields) return [edit.item as T];
+				const merged = { ...item } as Record<string, unknown>;
+				for (const key of edit.fields) {
+					const value = (edit.item as unknown as Record<string, unknown>)[key];
+					if (value === undefined) delete merged[key];
+					else merged[key] = value;
+				}
+				return [merged as unknown as T];
+			});
+			for (const e of by_id.values()) if (e.item) next.push(e.item as T);
+			return next;
+		};
+		set_shapes(prev => Apply_To(prev, 'shape'));
+		set_connectors(prev => Apply_To(prev, 'connector'));
+		set_freehand_paths(prev => Apply_To(prev, 'freehand'));
+		set_groups(prev => Apply_To(prev, 'group'));
+	}
+
+	// Put the elements changed by an undo/redo on the board and tell collaborators
+	function Apply_History_Edits(edits: ElementEdit[]): void {
+		for (const e of edits) untracked_ids.current.add(e.id);
+		Put_Elements(edits);
+
+		const removed = edits.filter(e => !e.item).map(e => e.id);
+		if (removed.length > 0) Broadcast_Delete(removed);
+		for (const e of edits) {
+			if (!e.item) continue;
+			if (Find_Element(e.kind, e.id)) Broadcast_Update(e.kind, e.item);
+			else Broadcast_Add(e.kind, e.item);
+		}
+	}
+
 	const Do_Undo = useCallback(() => {
-		const prev = undo_mgr.Undo({ shapes, connectors, freehand_paths });
-		if (prev) {
-			Broadcast_Undo_Diff(shapes, connectors, freehand_paths, prev);
-			set_shapes(prev.shapes);
-			set_connectors(prev.connectors);
-			set_freehand_paths(prev.freehand_paths);
+		const edits = undo_mgr.Undo(Find_Element);
+		if (edits) {
+			Apply_History_Edits(edits);
 			set_selected_ids(new Set());
 		}
-	}, [shapes, connectors, freehand_paths, undo_mgr]);
+	}, [undo_mgr]);
 
 	const Do_Redo = useCallback(() => {
-		const next = undo_mgr.Redo({ shapes, connectors, freehand_paths });
-		if (next) {
-			Broadcast_Undo_Diff(shapes, connectors, freehand_paths, next);
-			set_shapes(next.shapes);
-			set_connectors(next.connectors);
-			set_freehand_paths(next.freehand_paths);
+		const edits = undo_mgr.Redo(Find_Element);
+		if (edits) {
+			Apply_History_Edits(edits);
 			set_selected_ids(new Set());
 		}
-	}, [shapes, connectors, freehand_paths, undo_mgr]);
+	}, [undo_mgr]);
 
 	const Delete_Selected = useCallback(() => {
 		if (selected_ids.size === 0) return;
@@ -479,8 +1135,36 @@ export function Canvas() {
 		set_freehand_paths(prev => prev.filter(p => !selected_ids.has(p.id)));
 		set_selected_ids(new Set());
 		Broadcast_Delete(ids_to_delete);
+
+		// Drop deleted elements from their groups (dissolving groups left with one member)
+		const remaining = All_Element_Ids();
+		for (const id of selected_ids) remaining.delete(id);
+		for (const c of connectors_ref.current) {
+			if ((c.source.shape_id && selected_ids.has(c.source.shape_id)) || (c.target.shape_id && selected_ids.has(c.target.shape_id))) remaining.delete(c.id);
+		}
+		Commit_Groups(Prune_Groups(groups_ref.current, remaining));
 	}, [selected_ids, Push_Undo]);
 
+	// Group the selected units (Ctrl+G). Inside an entered group the new group nests within it.
+	const Group_Selected = useCallback(() => {
+		const parents = Parent_Map(groups);
+		const units = Units_Of(selected_ids, entered_group_id, parents);
+		if (units.length < 2) return;
+		// Grouping every member of a group again would just rebuild the same group
+		const parent = groups.find(g => g.id === parents.get(units[0]));
+		if (parent && parent.member_ids.length === units.length) return;
+		Push_Undo();
+		Commit_Groups(Group_Units(groups, units, { id: Generate_Id('g'), member_ids: units, created_by: User_Name() }));
+	}, [selected_ids, groups, entered_group_id, Push_Undo]);
+
+	// Ungroup the selected groups one level (Ctrl+Shift+G); the elements stay selected
+	const Ungroup_Selected = useCallback(() => {
+		const sel_groups = Selected_Groups(selected_ids, groups, entered_group_id, Parent_Map(groups));
+		if (sel_groups.length === 0) return;
+		Push_Undo();
+		Commit_Groups(Ungroup(groups, sel_groups.map(g => g.id)));
+	}, [selected_ids, groups, entered_group_id, Push_Undo]);
+
 	// Duplicate selected shapes with a small offset
 	const Duplicate_Selected = useCallback(() => {
 		if (selected_ids.size === 0) return;
@@ -517,45 +1201,295 @@ export function Canvas() {
 			});
 			id_map.set(c.id, new_id);
 		}
+		const new_freehand: FreehandPath[] = [];
+		for (const f of freehand_paths) {
+			if (!selected_ids.has(f.id)) continue;
+			const new_id = Generate_Id('f');
+			id_map.set(f.id, new_id);
+			new_freehand.push({ ...f, id: new_id, points: f.points.map(p => ({ x: p.x + 20, y: p.y + 20 })), z_index: Next_Z(), created_by: User_Name() });
+		}
+		Remap_Frames([...new_shapes, ...new_connectors, ...new_freehand], id_map);
+		// Duplicated groups keep the copies grouped the same way
+		const new_groups = Clone_Groups(Groups_Within(selected_ids, groups), id_map, User_Name());
 		set_shapes(prev => [...prev, ...new_shapes]);
 		set_connectors(prev => [...prev, ...new_connectors]);
-		const new_ids = new Set([...new_shapes.map(s => s.id), ...new_connectors.map(c => c.id)]);
+		set_freehand_paths(prev => [...prev, ...new_freehand]);
+		new_shapes.forEach(s => Broadcast_Add('shape', s));
+		new_connectors.forEach(c => Broadcast_Add('connector', c));
+		new_freehand.forEach(f => Broadcast_Add('freehand', f));
+		if (new_groups.length > 0) Commit_Groups([...groups, ...new_groups]);
+		const new_ids = new Set([...new_shapes.map(s => s.id), ...new_connectors.map(c => c.id), ...new_freehand.map(f => f.id)]);
+		set_entered_group_id(null);
 		set_selected_ids(new_ids);
-	}, [selected_ids, shapes, connectors, Push_Undo]);
+	}, [selected_ids, shapes, connectors, freehand_paths, groups, Push_Undo]);
 
 	// Copy selected shapes to clipboard
 	const Copy_Selected = useCallback(() => {
 		if (selected_ids.size === 0) return;
 		const copied_shapes = shapes.filter(s => selected_ids.has(s.id));
 		const copied_connectors = connectors.filter(c => selected_ids.has(c.id));
-		clipboard.current = { shapes: copied_shapes, connectors: copied_connectors };
-	}, [selected_ids, shapes, connectors]);
+		const copied_freehand = freehand_paths.filter(f => selected_ids.has(f.id));
+		clipboard.current = { shapes: copied_shapes, connectors: copied_connectors, freehand_paths: copied_freehand, groups: Groups_Within(selected_ids, groups) };
+	}, [selected_ids, shapes, connectors, freehand_paths, groups]);
 
 	// Paste from clipboard with offset
 	const Paste = useCallback(() => {
-		if (!clipboard.current || clipboard.current.shapes.length === 0) return;
+		const cb = clipboard.current;
+		if (!cb || cb.shapes.length + cb.connectors.length + cb.freehand_paths.length === 0) return;
 		Push_Undo();
 		const id_map = new Map<string, string>();
-		const new_shapes = clipboard.current.shapes.map(s => {
+		const new_shapes = cb.shapes.map(s => {
 			const new_id = Generate_Id('s');
 			id_map.set(s.id, new_id);
 			return { ...s, id: new_id, x: s.x + 30, y: s.y + 30, ports: Default_Ports(), z_index: Next_Z(), created_by: User_Name() };
 		});
-		const new_connectors = clipboard.current.connectors.map(c => ({
-			...c,
-			id: Generate_Id('c'),
-			source: { ...c.source, shape_id: c.source.shape_id ? (id_map.get(c.source.shape_id) ?? c.source.shape_id) : null },
-			target: { ...c.target, shape_id: c.target.shape_id ? (id_map.get(c.target.shape_id) ?? c.target.shape_id) : null },
-			z_index: Next_Z(),
-			created_by: User_Name(),
-		}));
+		const new_connectors = cb.connectors.map(c => {
+			const new_id = Generate_Id('c');
+			id_map.set(c.id, new_id);
+			// Free ends and control points shift with the pasted shapes
+			return Map_Connector_Points({
+				...c,
+				id: new_id,
+				source: { ...c.source, shape_id: c.source.shape_id ? (id_map.get(c.source.shape_id) ?? c.source.shape_id) : null },
+				target: { ...c.target, shape_id: c.target.shape_id ? (id_map.get(c.target.shape_id) ?? c.target.shape_id) : null },
+				z_index: Next_Z(),
+				created_by: User_Name(),
+			}, p => ({ x: p.x + 30, y: p.y + 30 }));
+		});
+		const new_freehand = cb.freehand_paths.map(f => {
+			const new_id = Generate_Id('f');
+			id_map.set(f.id, new_id);
+			return { ...f, id: new_id, points: f.points.map(p => ({ x: p.x + 30, y: p.y + 30 })), z_index: Next_Z(), created_by: User_Name() };
+		});
+		Remap_Frames([...new_shapes, ...new_connectors, ...new_freehand], id_map);
+		const new_groups = Clone_Groups(cb.groups, id_map, User_Name());
 		set_shapes(prev => [...prev, ...new_shapes]);
 		set_connectors(prev => [...prev, ...new_connectors]);
-		set_selected_ids(new Set(new_shapes.map(s => s.id)));
+		set_freehand_paths(prev => [...prev, ...new_freehand]);
+		new_shapes.forEach(s => Broadcast_Add('shape', s));
+		new_connectors.forEach(c => Broadcast_Add('connector', c));
+		new_freehand.forEach(f => Broadcast_Add('freehand', f));
+		if (new_groups.length > 0) Commit_Groups([...groups_ref.current, ...new_groups]);
+		set_entered_group_id(null);
+		set_selected_ids(new Set([...new_shapes.map(s => s.id), ...new_connectors.map(c => c.id), ...new_freehand.map(f => f.id)]));
 		// Update clipboard positions so repeated paste cascades
-		clipboard.current = { shapes: new_shapes, connectors: new_connectors };
+		clipboard.current = { shapes: new_shapes, connectors: new_connectors, freehand_paths: new_freehand, groups: new_groups };
 	}, [Push_Undo]);
 
+	// Add an image shape centred on a canvas point. Only the asset id goes into the board/ops;
+	// the pixels live in the asset store.
+	const Insert_Image = useCallback(async (blob: Blob, at: Point) => {
+		let asset_id: string;
+		let size: { width: number; height: number };
+		try {
+			size = await Image_Size(blob);
+			asset_id = await Put_Asset(blob);
+		} catch (err: any) {
+			alert(`Could not insert image: ${err?.message || err}`);
+			return;
+		}
+		const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(size.width, size.height));
+		const width = Math.max(1, Math.round(size.width * scale));
+		const height = Math.max(1, Math.round(size.height * scale));
+
+		Push_Undo();
+		const new_shape: Shape = {
+			id: Generate_Id('s'),
+			type: 'image',
+			x: at.x - width / 2,
+			y: at.y - height / 2,
+			width,
+			height,
+			rotation: 0,
+			text: '',
+			style: { ...DEFAULT_STYLE, fill: 'none', stroke: 'none', stroke_width: 0 },
+			ports: Default_Ports(),
+			z_index: Next_Z(),
+			image: { asset_id, natural_width: size.width, natural_height: size.height },
+			frame_id: Frame_Id_At(at),
+			created_by: User_Name(),
+		};
+		set_shapes(prev => [...prev, new_shape]);
+		Broadcast_Add('shape', new_shape);
+		set_entered_group_id(null);
+		set_selected_ids(new Set([new_shape.id]));
+		set_active_tool('select');
+	}, [Push_Undo]);
+
+	// Canvas point at the centre of the visible area
+	const View_Centre = useCallback((): Point => {
+		const rect = svg_ref.current?.getBoundingClientRect();
+		return Screen_To_Canvas({ x: (rect?.width ?? 0) / 2, y: (rect?.height ?? 0) / 2 }, viewport);
+	}, [viewport]);
+
+	// Add a shape of default size centred on a canvas point, for the text and sticky note
+	// tools and for drops from the shape palette. Text and notes open for typing straight away.
+	const Create_Shape_At = useCallback((type: ShapeType, at: Point, colour?: string) => {
+		const size = type === 'text' ? { width: 100, height: 30 }
+			: type === 'sticky' ? { width: STICKY_SIZE, height: STICKY_SIZE }
+			: { width: 120, height: 80 };
+		const style: ShapeStyle = type === 'text'
+			? { ...DEFAULT_STYLE, fill: 'none', stroke: 'none', stroke_width: 0, font_size: tool_settings.text_size, text_colour: tool_settings.text_color }
+			: type === 'sticky'
+			? { ...DEFAULT_STYLE, fill: colour ?? tool_settings.sticky_colour, stroke: 'none', stroke_width: 0, font_size: STICKY_FONT_SIZE }
+			: { ...DEFAULT_STYLE, fill: tool_settings.shape_fill, stroke: tool_settings.shape_stroke };
+		Push_Undo();
+		const new_shape: Shape = {
+			id: Generate_Id('s'),
+			type,
+			x: at.x - size.width / 2,
+			y: at.y - size.height / 2,
+			...size,
+			rotation: 0,
+			text: '',
+			style,
+			ports: Default_Ports(),
+			z_index: Next_Z(),
+			frame_id: Frame_Id_At(at),
+			created_by: User_Name(),
+		};
+		set_shapes(prev => [...prev, new_shape]);
+		Broadcast_Add('shape', new_shape);
+		set_entered_group_id(null);
+		set_selected_ids(new Set([new_shape.id]));
+		if (type === 'text' || type === 'sticky') {
+			editing_started_at.current = Date.now();
+			set_editing_shape_id(new_shape.id);
+		}
+		set_active_tool('select');
+	}, [Push_Undo, tool_settings]);
+
+	// Tidy the selected sticky notes into a grid
+	const Stack_Selected = useCallback(() => {
+		const notes = shapes_ref.current.filter(s => s.type === 'sticky' && selected_ids.has(s.id));
+		const positions = Stack_Notes(notes);
+		const frames = shapes_ref.current.filter(Is_Frame);
+		const edits: (ElementEdit & { fields?: string[] })[] = [];
+		for (const note of notes) {
+			const pos = positions.get(note.id)!;
+			if (pos.x === note.x && pos.y === note.y) continue;
+			const frame_id = Frame_At({ x: pos.x + note.width / 2, y: pos.y + note.height / 2 }, frames)?.id;
+			edits.push({ kind: 'shape', id: note.id, item: { ...note, ...pos, frame_id }, fields: ['x', 'y', 'frame_id'] });
+		}
+		if (edits.length === 0) return;
+		Push_Undo();
+		Put_Elements(edits);
+		for (const e of edits) Broadcast_Update('shape', e.item);
+	}, [selected_ids, Push_Undo]);
+
+	// Rearrange the selected shapes (or, with fewer than two selected, every shape with a
+	// connector) as a diagram, re-picking the ports their connectors attach to
+	const Layout_Diagram = useCallback((algorithm: LayoutAlgorithm, direction: LayoutDirection) => {
+		const connectors = connectors_ref.current;
+		const selected = shapes_ref.current.filter(s => !Is_Frame(s) && selected_ids.has(s.id));
+		const connected = new Set(connectors.filter(c => c.source.shape_id && c.target.shape_id).flatMap(c => [c.source.shape_id!, c.target.shape_id!]));
+		const nodes = selected.length >= 2 ? selected : shapes_ref.current.filter(s => !Is_Frame(s) && connected.has(s.id));
+		if (nodes.length < 2) {
+			set_collab_toast('Select some shapes, or connect shapes with arrows, to lay them out');
+			return;
+		}
+		const ids = new Set(nodes.map(n => n.id));
+		const links = connectors.filter(c => ids.has(c.source.shape_id ?? '') && ids.has(c.target.shape_id ?? ''));
+		const positions = Auto_Layout(nodes, links.map(c => ({ source: c.source.shape_id!, target: c.target.shape_id! })), algorithm, direction);
+
+		const moved = shapes_ref.current.map(s => {
+			const pos = positions.get(s.id);
+			return pos ? { ...s, x: Math.round(pos.x), y: Math.round(pos.y) } : s;
+		});
+		const moved_by_id = new Map(moved.map(s => [s.id, s]));
+		const frames = moved.filter(Is_Frame);
+		const edits: (ElementEdit & { fields?: string[] })[] = [];
+		for (const node of nodes) {
+			const item = moved_by_id.get(node.id)!;
+			item.frame_id = Frame_At(Element_Centre(item, moved), frames)?.id;
+			edits.push({ kind: 'shape', id: item.id, item, fields: ['x', 'y', 'frame_id'] });
+		}
+		// Each connector attaches to the sides of its shapes that face each other
+		for (const c of links) {
+			const src = moved_by_id.get(c.source.shape_id!)!;
+			const tgt = moved_by_id.get(c.target.shape_id!)!;
+			const src_centre = { x: src.x + src.width / 2, y: src.y + src.height / 2 };
+			const tgt_centre = { x: tgt.x + tgt.width / 2, y: tgt.y + tgt.height / 2 };
+			const item: Connector = {
+				...c,
+				source: { ...c.source, port_id: Nearest_Port(src, tgt_centre).id },
+				target: { ...c.target, port_id: Nearest_Port(tgt, src_centre).id },
+				control_points: undefined,
+			};
+			item.frame_id = Frame_At(Element_Centre(item, moved), frames)?.id;
+			edits.push({ kind: 'connector', id: c.id, item, fields: ['source', 'target', 'control_points', 'frame_id'] });
+		}
+		Push_Undo();
+		Put_Elements(edits);
+		for (const e of edits) Broadcast_Update(e.kind, e.item);
+	}, [selected_ids, Push_Undo]);
+
+	// Move each selected unit by an offset worked out from the boxes they cover (each group,
+	// or element on its own, moves as one, and frames take their contents along)
+	const Move_Selected_Units = useCallback((Offsets: (boxes: Map<string, Bounds>) => Map<string, Point>) => {
+		const shapes = shapes_ref.current;
+		const connectors = connectors_ref.current;
+		const freehand = freehand_ref.current;
+		const units = Units_Of(selected_ids, entered_group_id, Parent_Map(groups_ref.current));
+		const members = new Map<string, Set<string>>();
+		const boxes = new Map<string, Bounds>();
+		for (const unit of units) {
+			const ids = new Set(Leaf_Ids(unit, groups_ref.current));
+			const box = Elements_Bounds(shapes.filter(s => ids.has(s.id)), connectors.filter(c => ids.has(c.id)), freehand.filter(f => ids.has(f.id)), shapes);
+			if (!box) continue;
+			for (const s of shapes) {
+				if (!ids.has(s.id) || !Is_Frame(s)) continue;
+				for (const id of Frame_Member_Ids(s.id, shapes, connectors, freehand)) {
+					if (!selected_ids.has(id)) ids.add(id);
+				}
+			}
+			members.set(unit, ids);
+			boxes.set(unit, box);
+		}
+
+		const offsets = new Map<string, Point>();
+		for (const [unit, d] of Offsets(boxes)) {
+			if (Math.round(d.x) === 0 && Math.round(d.y) === 0) continue;
+			for (const id of members.get(unit)!) offsets.set(id, { x: Math.round(d.x), y: Math.round(d.y) });
+		}
+		if (offsets.size === 0) return;
+
+		const Shift = (d: Point) => (p: Point) => ({ x: p.x + d.x, y: p.y + d.y });
+		const moved = shapes.map(s => offsets.has(s.id) ? { ...s, ...Shift(offsets.get(s.id)!)(s) } : s);
+		const frames = moved.filter(Is_Frame);
+		const edits: (ElementEdit & { fields?: string[] })[] = [];
+		for (const item of moved) {
+			if (!offsets.has(item.id)) continue;
+			if (!Is_Frame(item)) item.frame_id = Frame_At(Element_Centre(item, moved), frames)?.id;
+			edits.push({ kind: 'shape', id: item.id, item, fields: ['x', 'y', 'frame_id'] });
+		}
+		for (const f of freehand) {
+			const d = offsets.get(f.id);
+			if (!d) continue;
+			const item = { ...f, points: f.points.map(Shift(d)) };
+			item.frame_id = Frame_At(Element_Centre(item, moved), frames)?.id;
+			edits.push({ kind: 'freehand', id: f.id, item, fields: ['points', 'frame_id'] });
+		}
+		for (const c of connectors) {
+			const d = offsets.get(c.id);
+			if (!d) continue;
+			const item = Map_Connector_Points(c, Shift(d));
+			item.frame_id = Frame_At(Element_Centre(item, moved), frames)?.id;
+			edits.push({ kind: 'connector', id: c.id, item, fields: ['source', 'target', 'control_points', 'frame_id'] });
+		}
+		Push_Undo();
+		Put_Elements(edits);
+		for (const e of edits) Broadcast_Update(e.kind, e.item);
+	}, [selected_ids, entered_group_id, Push_Undo]);
+
+	const Align_Selected = useCallback((edge: AlignEdge) => {
+		Move_Selected_Units(boxes => Align_Offsets(boxes, edge));
+	}, [Move_Selected_Units]);
+
+	const Distribute_Selected = useCallback((axis: DistributeAxis) => {
+		Move_Selected_Units(boxes => Distribute_Offsets(boxes, axis));
+	}, [Move_Selected_Units]);
+
 	// Apply colour changes to selected shapes
 	const Apply_Style_Change = useCallback((changes: Partial<ShapeStyle>) => {
 		Push_Undo();
@@ -602,12 +1536,16 @@ export function Canvas() {
 			set_active_tool(changes.shape_type);
 		} else if (changes.connector_routing !== undefined || changes.arrow_type !== undefined || changes.connector_thickness !== undefined) {
 			set_active_tool('arrow');
-		} else if (changes.pen_size !== undefined || changes.pen_color !== undefined) {
+		} else if (changes.pen_variant !== undefined || changes.pen_snap_to_shape !== undefined || changes.pen_size !== undefined || changes.pen_color !== undefined || changes.pen_thinning !== undefined || changes.pen_streamline !== undefined || changes.pen_taper !== undefined) {
 			set_active_tool('freehand');
 		} else if (changes.text_size !== undefined || changes.text_color !== undefined) {
 			set_active_tool('text');
 		} else if (changes.laser_color !== undefined) {
 			set_active_tool('laser');
+		} else if (changes.sticky_colour !== undefined) {
+			set_active_tool('sticky');
+		} else if (changes.eraser_mode !== undefined || changes.eraser_size !== undefined) {
+			set_active_tool('eraser');
 		}
 	}, []);
 
@@ -640,9 +1578,9 @@ export function Canvas() {
 		}
 		if (active_pointers.current.size > 2) return;
 
-		// Freehand and laser tools should work even when clicking over existing objects
+		// Freehand, eraser and laser tools should work even when clicking over existing objects
 		const on_background = (e.target as Element) === svg_ref.current;
-		if (!on_background && active_tool !== 'freehand' && active_tool !== 'laser') return;
+		if (!on_background && active_tool !== 'freehand' && active_tool !== 'eraser' && active_tool !== 'laser') return;
 
 		const screen_pt = Get_SVG_Point(e);
 		const canvas_pt = Screen_To_Canvas(screen_pt, viewport);
@@ -665,8 +1603,9 @@ export function Canvas() {
 		// Left click on background
 		if (e.button === 0) {
 			if (active_tool === 'select') {
-				// Start marquee selection
+				// Start marquee selection (clicking the background also leaves an entered group)
 				set_selected_ids(new Set());
+				set_entered_group_id(null);
 				drag_state.current = {
 					type: 'marquee',
 					start_canvas: canvas_pt,
@@ -681,37 +1620,34 @@ export function Canvas() {
 					start_screen: screen_pt,
 					connector_source: { shape_id: null, port_id: null, x: canvas_pt.x, y: canvas_pt.y },
 				};
-			} else if (active_tool === 'text') {
-				// Create a text shape immediately and start editing
-				Push_Undo();
-				const new_shape: Shape = {
-					id: Generate_Id('s'),
-					type: 'text',
-					x: canvas_pt.x - 50,
-					y: canvas_pt.y - 15,
-					width: 100,
-					height: 30,
-					rotation: 0,
-					text: '',
-					style: { ...DEFAULT_STYLE, fill: 'none', stroke: 'none', stroke_width: 0, font_size: tool_settings.text_size, text_colour: tool_settings.text_color },
-					ports: Default_Ports(),
-					z_index: Next_Z(),
-					created_by: User_Name(),
-				};
-				set_shapes(prev => [...prev, new_shape]);
-				Broadcast_Add('shape', new_shape);
-				set_selected_ids(new Set([new_shape.id]));
-				editing_started_at.current = Date.now();
-				set_editing_shape_id(new_shape.id);
-				set_active_tool('select');
+			} else if (active_tool === 'text' || active_tool === 'sticky') {
+				// Create a text shape or sticky note immediately and start editing
+				Create_Shape_At(active_tool, canvas_pt);
 			} else if (active_tool === 'freehand') {
 				Push_Undo();
+				const pen = Pen_Sample(e);
 				drag_state.current = {
 					type: 'freehand',
 					start_canvas: canvas_pt,
 					start_screen: screen_pt,
 					freehand_points: [canvas_pt],
+					freehand_pressures: pen ? [pen.pressure] : undefined,
+					freehand_tilts: pen ? [pen.tilt] : undefined,
 				};
+			} else if (active_tool === 'eraser') {
+				// Everything one stroke of the eraser removes is a single undo step
+				Push_Undo();
+				drag_state.current = {
+					type: 'erase',
+					start_canvas: canvas_pt,
+					start_screen: screen_pt,
+					erase_last: canvas_pt,
+					erase_gone: new Set(),
+					erase_pieces: new Map(),
+					erase_origins: new Map(),
+				};
+				Erase_Along(canvas_pt, canvas_pt);
+				set_eraser_at(canvas_pt);
 			} else if (active_tool === 'laser') {
 				const now = Date.now();
 				drag_state.current = {
@@ -735,7 +1671,8 @@ export function Canvas() {
 				cancelAnimationFrame(laser_raf.current);
 				laser_raf.current = requestAnimationFrame(Fade);
 			} else {
-				// Start creating a shape
+				// Start creating a shape (or frame)
+				const is_frame = active_tool === 'frame';
 				const new_shape: Shape = {
 					id: Generate_Id('s'),
 					type: active_tool as Shape['type'],
@@ -744,8 +1681,10 @@ export function Canvas() {
 					width: 0,
 					height: 0,
 					rotation: 0,
-					text: '',
-					style: { ...DEFAULT_STYLE, fill: tool_settings.shape_fill, stroke: tool_settings.shape_stroke },
+					text: is_frame ? `Frame ${shapes_ref.current.filter(Is_Frame).length + 1}` : '',
+					style: is_frame
+						? { ...DEFAULT_STYLE, stroke: '#64748b', stroke_width: 1, font_size: 13, text_colour: '#ffffff' }
+						: { ...DEFAULT_STYLE, fill: tool_settings.shape_fill, stroke: tool_settings.shape_stroke },
 					ports: Default_Ports(),
 					z_index: Next_Z(),
 					created_by: User_Name(),
@@ -758,7 +1697,7 @@ export function Canvas() {
 				};
 			}
 		}
-	}, [viewport, active_tool, Get_SVG_Point, tool_settings]);
+	}, [viewport, active_tool, Get_SVG_Point, tool_settings, Create_Shape_At]);
 
 	const Handle_Canvas_PointerMove = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
 		// Update tracked pointer position
@@ -810,20 +1749,45 @@ export function Canvas() {
 				offset_y: ds.start_viewport.offset_y + (screen_pt.y - ds.start_screen.y),
 			});
 		} else if (ds.type === 'move' && ds.shape_origins) {
-			const dx = canvas_pt.x - ds.start_canvas.x;
-			const dy = canvas_pt.y - ds.start_canvas.y;
-			const should_snap = snap_enabled && !e.altKey;
-			set_shapes(prev => prev.map(s => {
-				const origin = ds.shape_origins!.get(s.id);
-				if (!origin) return s;
-				let nx = origin.x + dx;
-				let ny = origin.y + dy;
-				if (should_snap) {
-					nx = Snap_To_Grid(nx, grid_size);
-					ny = Snap_To_Grid(ny, grid_size);
-				}
-				return { ...s, x: nx, y: ny };
-			}));
+			const raw_dx = canvas_pt.x - ds.start_canvas.x;
+			const raw_dy = canvas_pt.y - ds.start_canvas.y;
+			let dx = raw_dx;
+			let dy = raw_dy;
+			// Snap the dragged shape to the grid and move everything else by the same amount,
+			// so grouped elements keep their relative positions
+			if (snap_enabled && !e.altKey && ds.move_anchor) {
+				dx = Snap_To_Grid(ds.move_anchor.x + dx, grid_size) - ds.move_anchor.x;
+				dy = Snap_To_Grid(ds.move_anchor.y + dy, grid_size) - ds.move_anchor.y;
+			}
+			// Smart guides take over from the grid on an axis where they find something to line up with
+			if (!e.altKey && ds.guide_box && ds.guide_targets) {
+				const box = { ...ds.guide_box, x: ds.guide_box.x + raw_dx, y: ds.guide_box.y + raw_dy };
+				const snap = Snap_Move(box, ds.guide_targets, GUIDE_SNAP_DISTANCE / viewport.zoom, { x: dx - raw_dx, y: dy - raw_dy });
+				dx = raw_dx + snap.dx;
+				dy = raw_dy + snap.dy;
+				set_snap_guides(snap.guides);
+			} else {
+				set_snap_guides(prev => prev.length > 0 ? [] : prev);
+			}
+			const Translate = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+			if (ds.shape_origins.size > 0) {
+				set_shapes(prev => prev.map(s => {
+					const origin = ds.shape_origins!.get(s.id);
+					return origin ? { ...s, ...Translate(origin) } : s;
+				}));
+			}
+			if (ds.freehand_path_origins?.size) {
+				set_freehand_paths(prev => prev.map(p => {
+					const orig = ds.freehand_path_origins!.get(p.id);
+					return orig ? { ...p, points: orig.map(Translate) } : p;
+				}));
+			}
+			if (ds.connector_origins?.size) {
+				set_connectors(prev => prev.map(c => {
+					const orig = ds.connector_origins!.get(c.id);
+					return orig ? Map_Connector_Points(orig, Translate) : c;
+				}));
+			}
 		} else if (ds.type === 'create' && ds.creating_shape) {
 			const should_snap = snap_enabled && !e.altKey;
 			let bounds = Normalise_Bounds(ds.start_canvas, canvas_pt);
@@ -868,11 +1832,7 @@ export function Canvas() {
 				: { x: source_end.x, y: source_end.y };
 
 			// Show port indicators on shape under cursor
-			const hover_shape = shapes.find(s =>
-				canvas_pt.x >= s.x && canvas_pt.x <= s.x + s.width &&
-				canvas_pt.y >= s.y && canvas_pt.y <= s.y + s.height &&
-				s.id !== source_end.shape_id
-			);
+			const hover_shape = Shape_At(canvas_pt, source_end.shape_id);
 			set_hovered_shape_id(hover_shape?.id ?? null);
 			set_connector_preview({ from, to: canvas_pt });
 		} else if (ds.type === 'resize' && ds.resize_original && ds.resize_shape_id != null) {
@@ -892,6 +1852,13 @@ export function Canvas() {
 			else if (handle === 6) { height += dy; }
 			else if (handle === 7) { x += dx; width -= dx; }
 
+			// Images always keep their aspect ratio (and skip grid snapping, which would break it)
+			if (shapes.find(s => s.id === ds.resize_shape_id)?.type === 'image') {
+				const locked = Aspect_Locked_Resize(orig, handle, { x, y, width, height });
+				set_shapes(prev => prev.map(s => s.id === ds.resize_shape_id ? { ...s, ...locked } : s));
+				return;
+			}
+
 			// Shift constrains to square aspect ratio (corner handles only)
 			if (e.shiftKey && handle <= 3) {
 				const size = Math.max(width, height);
@@ -903,12 +1870,24 @@ export function Canvas() {
 				height = size;
 			}
 
+			const raw = { x, y, width, height };
 			if (snap_enabled && !e.altKey) {
 				x = Snap_To_Grid(x, grid_size);
 				y = Snap_To_Grid(y, grid_size);
 				width = Snap_To_Grid(width, grid_size);
 				height = Snap_To_Grid(height, grid_size);
 			}
+			// Smart guides snap the edges being dragged (but not while Shift keeps it square, or
+			// for rotated shapes, whose edges don't run along the guides)
+			const resizing = shapes.find(s => s.id === ds.resize_shape_id);
+			const square = e.shiftKey && handle <= 3;
+			if (!e.altKey && !square && ds.guide_targets && resizing && (resizing.rotation ?? 0) % 180 === 0) {
+				const snap = Snap_Resize(raw, ds.guide_targets, GUIDE_SNAP_DISTANCE / viewport.zoom, Handle_Edges(handle), { x, y, width, height });
+				({ x, y, width, height } = snap.bounds);
+				set_snap_guides(snap.guides);
+			} else {
+				set_snap_guides(prev => prev.length > 0 ? [] : prev);
+			}
 
 			// Enforce minimum size
 			if (width < 10) { width = 10; }
@@ -934,20 +1913,24 @@ export function Canvas() {
 			}
 		} else if (ds.type === 'freehand' && ds.freehand_points) {
 			ds.freehand_points.push(canvas_pt);
+			if (ds.freehand_pressures && ds.freehand_tilts) {
+				const pen = Pen_Sample(e);
+				ds.freehand_pressures.push(pen?.pressure ?? ds.freehand_pressures[ds.freehand_pressures.length - 1]);
+				ds.freehand_tilts.push(pen?.tilt ?? ds.freehand_tilts[ds.freehand_tilts.length - 1]);
+			}
 			// Live preview by updating freehand paths
-			set_freehand_paths(prev => {
-				const without = prev.filter(p => p.id !== '__drawing__');
-				return [...without, { id: '__drawing__', points: [...ds.freehand_points!], style: { stroke: tool_settings.pen_color, stroke_width: tool_settings.pen_size }, z_index: Number.MAX_SAFE_INTEGER }];
-			});
-		} else if (ds.type === 'freehand_move' && ds.freehand_path_origins) {
-			ds.moved = true;
-			const dx = canvas_pt.x - ds.start_canvas.x;
-			const dy = canvas_pt.y - ds.start_canvas.y;
-			set_freehand_paths(prev => prev.map(p => {
-				const orig = ds.freehand_path_origins!.get(p.id);
-				if (!orig) return p;
-				return { ...p, points: orig.map(pt => ({ x: pt.x + dx, y: pt.y + dy })) };
-			}));
+			const drawn = {
+				points: [...ds.freehand_points],
+				...(ds.freehand_pressures && { pressures: [...ds.freehand_pressures], tilts: [...ds.freehand_tilts!] }),
+			};
+			const preview: FreehandPath = {
+				id: '__drawing__',
+				...(Is_Straight_Stroke(tool_settings, e) ? Straighten(drawn) : drawn),
+				variant: tool_settings.pen_variant,
+				style: Pen_Style(tool_settings),
+				z_index: Number.MAX_SAFE_INTEGER,
+			};
+			set_freehand_paths(prev => [...prev.filter(p => p.id !== '__drawing__'), preview]);
 		} else if (ds.type === 'freehand_resize' && ds.freehand_path_origins && ds.freehand_resize_bounds) {
 			const orig_bounds = ds.freehand_resize_bounds;
 			const handle = ds.freehand_resize_handle ?? 2;
@@ -978,6 +1961,93 @@ export function Canvas() {
 					})),
 				};
 			}));
+		} else if (ds.type === 'group_resize' && ds.group_origins && ds.group_bounds) {
+			const ob = ds.group_bounds;
+			const handle = ds.resize_handle!;
+			const dx = canvas_pt.x - ds.start_canvas.x;
+			const dy = canvas_pt.y - ds.start_canvas.y;
+			let { x, y, width, height } = ob;
+
+			// Handle index: 0=TL, 1=TR, 2=BR, 3=BL, 4=T, 5=R, 6=B, 7=L
+			if (handle === 0) { x += dx; y += dy; width -= dx; height -= dy; }
+			else if (handle === 1) { y += dy; width += dx; height -= dy; }
+			else if (handle === 2) { width += dx; height += dy; }
+			else if (handle === 3) { x += dx; width -= dx; height += dy; }
+			else if (handle === 4) { y += dy; height -= dy; }
+			else if (handle === 5) { width += dx; }
+			else if (handle === 6) { height += dy; }
+			else if (handle === 7) { x += dx; width -= dx; }
+
+			// Shift keeps the group's aspect ratio (corner handles only)
+			if (e.shiftKey && handle <= 3 && ob.width > 0 && ob.height > 0) {
+				const scale = Math.max(width / ob.width, height / ob.height);
+				const new_w = ob.width * scale, new_h = ob.height * scale;
+				if (handle === 0 || handle === 3) x += width - new_w;
+				if (handle === 0 || handle === 1) y += height - new_h;
+				width = new_w;
+				height = new_h;
+			}
+
+			const raw = { x, y, width, height };
+			if (snap_enabled && !e.altKey) {
+				x = Snap_To_Grid(x, grid_size);
+				y = Snap_To_Grid(y, grid_size);
+				width = Snap_To_Grid(width, grid_size);
+				height = Snap_To_Grid(height, grid_size);
+			}
+			if (!e.altKey && !(e.shiftKey && handle <= 3) && ds.guide_targets) {
+				const snap = Snap_Resize(raw, ds.guide_targets, GUIDE_SNAP_DISTANCE / viewport.zoom, Handle_Edges(handle), { x, y, width, height });
+				({ x, y, width, height } = snap.bounds);
+				set_snap_guides(snap.guides);
+			} else {
+				set_snap_guides(prev => prev.length > 0 ? [] : prev);
+			}
+			if (width < 10) width = 10;
+			if (height < 10) height = 10;
+
+			// Scale every element from the original bounds into the new ones
+			const sx = width / (ob.width || 1);
+			const sy = height / (ob.height || 1);
+			const Scale = (p: Point) => ({ x: x + (p.x - ob.x) * sx, y: y + (p.y - ob.y) * sy });
+			const { shapes: o_shapes, connectors: o_connectors, freehand_paths: o_freehand } = ds.group_origins;
+			const shape_map = new Map(o_shapes.map(s => {
+				const c = Scale({ x: s.x + s.width / 2, y: s.y + s.height / 2 });
+				const w = s.width * sx, h = s.height * sy;
+				return [s.id, { ...s, x: c.x - w / 2, y: c.y - h / 2, width: w, height: h }];
+			}));
+			const conn_map = new Map(o_connectors.map(c => [c.id, Map_Connector_Points(c, Scale)]));
+			const fh_map = new Map(o_freehand.map(f => [f.id, { ...f, points: f.points.map(Scale) }]));
+			set_shapes(prev => prev.map(s => shape_map.get(s.id) ?? s));
+			set_connectors(prev => prev.map(c => conn_map.get(c.id) ?? c));
+			set_freehand_paths(prev => prev.map(f => fh_map.get(f.id) ?? f));
+		} else if (ds.type === 'group_rotate' && ds.group_origins && ds.group_bounds) {
+			const b = ds.group_bounds;
+			const cx = b.x + b.width / 2;
+			const cy = b.y + b.height / 2;
+			const current_angle = Math.atan2(canvas_pt.y - cy, canvas_pt.x - cx) * (180 / Math.PI);
+			let delta = current_angle - (ds.rotate_start_angle ?? 0);
+			// Snap to 15° increments when Shift is held
+			if (e.shiftKey) {
+				delta = Math.round(delta / 15) * 15;
+			}
+
+			// Rotate every element about the group centre
+			const rad = delta * Math.PI / 180;
+			const cos = Math.cos(rad), sin = Math.sin(rad);
+			const Rotate = (p: Point) => ({
+				x: cx + (p.x - cx) * cos - (p.y - cy) * sin,
+				y: cy + (p.x - cx) * sin + (p.y - cy) * cos,
+			});
+			const { shapes: o_shapes, connectors: o_connectors, freehand_paths: o_freehand } = ds.group_origins;
+			const shape_map = new Map(o_shapes.map(s => {
+				const c = Rotate({ x: s.x + s.width / 2, y: s.y + s.height / 2 });
+				return [s.id, { ...s, x: c.x - s.width / 2, y: c.y - s.height / 2, rotation: (s.rotation ?? 0) + delta }];
+			}));
+			const conn_map = new Map(o_connectors.map(c => [c.id, Map_Connector_Points(c, Rotate)]));
+			const fh_map = new Map(o_freehand.map(f => [f.id, { ...f, points: f.points.map(Rotate) }]));
+			set_shapes(prev => prev.map(s => shape_map.get(s.id) ?? s));
+			set_connectors(prev => prev.map(c => conn_map.get(c.id) ?? c));
+			set_freehand_paths(prev => prev.map(f => fh_map.get(f.id) ?? f));
 		} else if (ds.type === 'cp_drag' && ds.cp_connector_id != null) {
 			// Drag a bézier control point to the current canvas position
 			set_connectors(prev => prev.map(c => {
@@ -992,10 +2062,7 @@ export function Canvas() {
 			}));
 		} else if (ds.type === 'endpoint_drag' && ds.endpoint_connector_id) {
 			// Snap to nearest port if cursor is over a shape, otherwise free-floating
-			const hover_shape = shapes.find(s =>
-				canvas_pt.x >= s.x && canvas_pt.x <= s.x + s.width &&
-				canvas_pt.y >= s.y && canvas_pt.y <= s.y + s.height
-			);
+			const hover_shape = Shape_At(canvas_pt);
 			set_hovered_shape_id(hover_shape?.id ?? null);
 
 			const new_end: ConnectorEnd = hover_shape
@@ -1036,6 +2103,10 @@ export function Canvas() {
 				const t = Closest_T_On_Line(src, tgt, canvas_pt);
 				return { ...c, label_t: Math.max(0.05, Math.min(0.95, t)) };
 			}));
+		} else if (ds.type === 'erase' && ds.erase_last) {
+			Erase_Along(ds.erase_last, canvas_pt);
+			ds.erase_last = canvas_pt;
+			set_eraser_at(canvas_pt);
 		} else if (ds.type === 'laser' && ds.laser_points) {
 			const now = Date.now();
 			ds.laser_points.push({ ...canvas_pt, timestamp: now });
@@ -1055,15 +2126,18 @@ export function Canvas() {
 			// Require a minimum size
 			if (shape.width < 10 || shape.height < 10) {
 				// Clicked without dragging — create a default-sized shape
-				shape.width = shape.type === 'text' ? 100 : 120;
-				shape.height = shape.type === 'text' ? 30 : 80;
+				shape.width = shape.type === 'text' ? 100 : shape.type === 'frame' ? 400 : 120;
+				shape.height = shape.type === 'text' ? 30 : shape.type === 'frame' ? 300 : 80;
 			}
+			if (shape.type !== 'frame') shape.frame_id = Frame_Id_At(Element_Centre(shape, shapes));
 			Push_Undo();
 			set_shapes(prev => {
 				const without = prev.filter(s => s.id !== shape.id);
 				return [...without, shape];
 			});
 			Broadcast_Add('shape', shape);
+			// A new frame takes in whatever it was drawn around
+			if (shape.type === 'frame') Update_Frames(null, [...shapes_ref.current.filter(s => Is_Frame(s) && s.id !== shape.id), shape]);
 			set_selected_ids(new Set([shape.id]));
 			set_active_tool('select');
 		} else if (ds.type === 'marquee' && ds.marquee_start) {
@@ -1075,39 +2149,36 @@ export function Canvas() {
 			const own_only = e.shiftKey;
 			const me = own_only ? User_Name() : null;
 
-			for (const shape of shapes) {
-				if (own_only && shape.created_by !== me) continue;
-				if (Bounds_Overlap(sel_bounds, Shape_Bounds(shape))) {
-					ids.add(shape.id);
-				}
-			}
-			// Also select freehand paths whose bounding box overlaps
-			for (const fp of freehand_paths) {
-				if (own_only && fp.created_by !== me) continue;
-				if (Bounds_Overlap(sel_bounds, Freehand_Bounds(fp.points))) {
-					ids.add(fp.id);
+			// The index narrows down the candidates; each is then tested against its exact bounds
+			for (const entry of spatial_index.Query(sel_bounds)) {
+				if (own_only && entry.item.created_by !== me) continue;
+				if (entry.kind === 'shape' && Is_Frame(entry.item)) {
+					// Frames only when wholly inside, so a marquee within a frame picks what's in it
+					if (Bounds_Contain(sel_bounds, Shape_Bounds(entry.item))) ids.add(entry.item.id);
+				} else if (entry.kind === 'shape') {
+					if (Bounds_Overlap(sel_bounds, Shape_Bounds(entry.item))) ids.add(entry.item.id);
+				} else if (entry.kind === 'freehand') {
+					// Freehand paths whose bounding box overlaps
+					if (Bounds_Overlap(sel_bounds, Freehand_Bounds(entry.item.points))) ids.add(entry.item.id);
+				} else {
+					// Connectors whose endpoints are within the marquee
+					const src = Resolve_Connector_End(entry.item.source, shapes);
+					const tgt = Resolve_Connector_End(entry.item.target, shapes);
+					const c_bounds = {
+						x: Math.min(src.x, tgt.x), y: Math.min(src.y, tgt.y),
+						width: Math.abs(tgt.x - src.x) || 1, height: Math.abs(tgt.y - src.y) || 1,
+					};
+					if (Bounds_Overlap(sel_bounds, c_bounds)) ids.add(entry.item.id);
 				}
 			}
-			// Also select connectors whose endpoints are within the marquee
-			for (const c of connectors) {
-				if (own_only && c.created_by !== me) continue;
-				const src = Resolve_Connector_End(c.source, shapes);
-				const tgt = Resolve_Connector_End(c.target, shapes);
-				const c_bounds = {
-					x: Math.min(src.x, tgt.x), y: Math.min(src.y, tgt.y),
-					width: Math.abs(tgt.x - src.x) || 1, height: Math.abs(tgt.y - src.y) || 1,
-				};
-				if (Bounds_Overlap(sel_bounds, c_bounds)) ids.add(c.id);
-			}
-			set_selected_ids(ids);
+			// Anything grouped selects its whole group
+			const units = Units_Of(ids, null, Parent_Map(groups_ref.current));
+			set_selected_ids(new Set(units.flatMap(u => Leaf_Ids(u, groups_ref.current))));
 			set_marquee(null);
 		} else if (ds.type === 'connector') {
 			set_connector_preview(null);
 			const canvas_pt = Screen_To_Canvas(Get_SVG_Point(e), viewport);
-			const target_shape = shapes.find(s =>
-				canvas_pt.x >= s.x && canvas_pt.x <= s.x + s.width &&
-				canvas_pt.y >= s.y && canvas_pt.y <= s.y + s.height
-			);
+			const target_shape = Shape_At(canvas_pt);
 
 			// Determine target end — snap to shape port or free point
 			const target_end: ConnectorEnd = target_shape && target_shape.id !== ds.connector_source?.shape_id
@@ -1129,14 +2200,23 @@ export function Canvas() {
 					z_index: Next_Z(),
 					created_by: User_Name(),
 				};
+				new_connector.frame_id = Frame_Id_At(Element_Centre(new_connector, shapes));
 				set_connectors(prev => [...prev, new_connector]);
 				Broadcast_Add('connector', new_connector);
 			}
-		} else if (ds.type === 'move') {
-			// Broadcast updated shapes and connectors after move
-			for (const id of selected_ids) {
-				const s = shapes.find(sh => sh.id === id);
-				if (s) Broadcast_Update('shape', s);
+		} else if (ds.type === 'move' || ds.type === 'group_resize' || ds.type === 'group_rotate') {
+			// Broadcast everything that was dragged (refs — the elements may have changed since this render)
+			const ids = new Set([
+				...(ds.shape_origins?.keys() ?? []),
+				...(ds.freehand_path_origins?.keys() ?? []),
+				...(ds.connector_origins?.keys() ?? []),
+				...(ds.group_origins ? [...ds.group_origins.shapes, ...ds.group_origins.connectors, ...ds.group_origins.freehand_paths].map(i => i.id) : []),
+			]);
+			if (ds.moved) {
+				shapes_ref.current.filter(s => ids.has(s.id)).forEach(s => Broadcast_Update('shape', s));
+				connectors_ref.current.filter(c => ids.has(c.id)).forEach(c => Broadcast_Update('connector', c));
+				freehand_ref.current.filter(f => ids.has(f.id)).forEach(f => Broadcast_Update('freehand', f));
+				Update_Frames(ids);
 			}
 		} else if (ds.type === 'resize') {
 			// Broadcast resized shape
@@ -1144,6 +2224,9 @@ export function Canvas() {
 				const s = shapes.find(sh => sh.id === id);
 				if (s) Broadcast_Update('shape', s);
 			}
+			// A resized frame takes in or lets go of what's now inside or outside it
+			const resized = shapes_ref.current.find(sh => sh.id === ds.resize_shape_id);
+			if (resized) Update_Frames(Is_Frame(resized) ? null : new Set([resized.id]));
 		} else if (ds.type === 'rotate') {
 			// Broadcast rotated shape
 			for (const id of selected_ids) {
@@ -1151,34 +2234,76 @@ export function Canvas() {
 				if (s) Broadcast_Update('shape', s);
 			}
 		} else if (ds.type === 'freehand' && ds.freehand_points) {
-			// Finalize freehand path — simplify then smooth for natural-looking curves
-			if (ds.freehand_points.length > 1) {
-				const simplified = Simplify_Points(ds.freehand_points, 2);
-				const smoothed = Smooth_Points(simplified, 2);
+			// Snap to shape: a stroke that looks like a shape, line or arrow becomes one (in the
+			// same undo step as the stroke would have been)
+			const recognised = tool_settings.pen_snap_to_shape && tool_settings.pen_variant !== 'highlighter'
+				? Recognise_Stroke(ds.freehand_points)
+				: null;
+			if (recognised?.kind === 'shape') {
+				const shape: Shape = {
+					id: Generate_Id('s'),
+					type: recognised.type,
+					...recognised.bounds,
+					rotation: 0,
+					text: '',
+					style: { ...DEFAULT_STYLE, fill: tool_settings.shape_fill, stroke: tool_settings.shape_stroke },
+					ports: Default_Ports(),
+					z_index: Next_Z(),
+					created_by: User_Name(),
+				};
+				shape.frame_id = Frame_Id_At(Element_Centre(shape, shapes));
+				set_freehand_paths(prev => prev.filter(p => p.id !== '__drawing__'));
+				set_shapes(prev => [...prev, shape]);
+				Broadcast_Add('shape', shape);
+			} else if (recognised?.kind === 'line') {
+				// Ends on or near a shape bind to its nearest port
+				const reach = BIND_DISTANCE / viewport.zoom;
+				const End = (pt: Point, exclude_id?: string | null): ConnectorEnd => {
+					const shape = Shape_Near(pt, reach, exclude_id);
+					return shape
+						? { shape_id: shape.id, port_id: Nearest_Port(shape, pt).id, x: 0, y: 0 }
+						: { shape_id: null, port_id: null, x: pt.x, y: pt.y };
+				};
+				const source = End(recognised.from);
+				const connector: Connector = {
+					id: Generate_Id('c'),
+					source,
+					target: End(recognised.to, source.shape_id),
+					arrow_type: recognised.arrow ? 'forward' : 'none',
+					routing: 'straight',
+					style: { stroke: '#333333', stroke_width: tool_settings.connector_thickness },
+					z_index: Next_Z(),
+					created_by: User_Name(),
+				};
+				connector.frame_id = Frame_Id_At(Element_Centre(connector, shapes));
+				set_freehand_paths(prev => prev.filter(p => p.id !== '__drawing__'));
+				set_connectors(prev => [...prev, connector]);
+				Broadcast_Add('connector', connector);
+			} else if (ds.freehand_points.length > 1) {
+				// Finalize freehand path — simplify then smooth for natural-looking curves
 				const path: FreehandPath = {
 					id: Generate_Id('f'),
-					points: smoothed,
-					style: { stroke: tool_settings.pen_color, stroke_width: tool_settings.pen_size },
+					...(Is_Straight_Stroke(tool_settings, e)
+						? Straighten({ points: ds.freehand_points, pressures: ds.freehand_pressures, tilts: ds.freehand_tilts })
+						: Finish_Stroke(ds.freehand_points, ds.freehand_pressures, ds.freehand_tilts)),
+					variant: tool_settings.pen_variant,
+					style: Pen_Style(tool_settings),
 					z_index: Next_Z(),
 					created_by: User_Name(),
 				};
+				path.frame_id = Frame_Id_At(Element_Centre(path, shapes));
 				set_freehand_paths(prev => [...prev.filter(p => p.id !== '__drawing__'), path]);
 				Broadcast_Add('freehand', path);
 			} else {
 				set_freehand_paths(prev => prev.filter(p => p.id !== '__drawing__'));
 			}
-		} else if (ds.type === 'freehand_move') {
-			// Broadcast moved freehand path
-			for (const id of selected_ids) {
-				const fp = freehand_paths.find(f => f.id === id);
-				if (fp) Broadcast_Update('freehand', fp);
-			}
 		} else if (ds.type === 'freehand_resize') {
 			// Broadcast resized freehand path
 			for (const id of selected_ids) {
 				const fp = freehand_paths.find(f => f.id === id);
 				if (fp) Broadcast_Update('freehand', fp);
 			}
+			Update_Frames(selected_ids);
 		} else if (ds.type === 'cp_drag') {
 			// Broadcast updated connector after CP drag
 			if (ds.cp_connector_id) {
@@ -1213,10 +2338,33 @@ export function Canvas() {
 		} else if (ds.type === 'label_t_drag' && ds.label_connector_id) {
 			const c = connectors.find(cn => cn.id === ds.label_connector_id);
 			if (c) Broadcast_Update('connector', c);
+		} else if (ds.type === 'erase' && ds.erase_gone && ds.erase_pieces && ds.erase_origins) {
+			// Collaborators get the paths this stroke took out and the pieces it left (pieces that
+			// were erased again never leave this board)
+			const deleted = [...ds.erase_gone].filter(id => !ds.erase_pieces!.has(id));
+			const pieces = [...ds.erase_pieces.values()].filter((p): p is FreehandPath => p !== null);
+			if (deleted.length > 0) {
+				Broadcast_Delete(deleted);
+				const remaining = All_Element_Ids();
+				for (const id of deleted) remaining.delete(id);
+				for (const p of pieces) remaining.add(p.id);
+				// Pieces of a grouped path stay in its group
+				const replacements = new Map<string, string[]>();
+				for (const p of pieces) {
+					const origin = ds.erase_origins.get(p.id)!;
+					replacements.set(origin, [...(replacements.get(origin) ?? []), p.id]);
+				}
+				Commit_Groups(Prune_Groups(Replace_Members(groups_ref.current, replacements), remaining));
+				set_selected_ids(prev => deleted.some(id => prev.has(id)) ? new Set([...prev].filter(id => !ds.erase_gone!.has(id))) : prev);
+			}
+			for (const p of pieces) Broadcast_Add('freehand', p);
+			set_eraser_at(null);
 		} else if (ds.type === 'laser') {
 			// Laser trail fades on its own via animation
 		}
 
+		if (ds.moved && PREVIEW_DRAGS.has(ds.type)) collab_ref.current?.Send_Drag_Preview(null);
+		set_snap_guides(prev => prev.length > 0 ? [] : prev);
 		drag_state.current = { type: 'none', start_canvas: { x: 0, y: 0 }, start_screen: { x: 0, y: 0 } };
 	}, [shapes, viewport, Push_Undo, Get_SVG_Point, tool_settings]);
 
@@ -1224,7 +2372,7 @@ export function Canvas() {
 
 	const Handle_Shape_PointerDown = useCallback((e: React.PointerEvent, shape: Shape) => {
 		// When drawing or using laser, let the event bubble up to the canvas handler
-		if (active_tool === 'freehand' || active_tool === 'laser') return;
+		if (active_tool === 'freehand' || active_tool === 'eraser' || active_tool === 'laser') return;
 		e.preventDefault();
 
 		e.stopPropagation();
@@ -1232,16 +2380,12 @@ export function Canvas() {
 		const canvas_pt = Screen_To_Canvas(screen_pt, viewport);
 
 		// When editing is blocked, only allow selection (no move/resize/rotate/connect)
+		const unit_ids = Unit_Ids(shape.id);
 		if (remote_editing_blocked) {
 			if (e.shiftKey) {
-				set_selected_ids(prev => {
-					const next = new Set(prev);
-					if (next.has(shape.id)) next.delete(shape.id);
-					else next.add(shape.id);
-					return next;
-				});
+				set_selected_ids(prev => Toggle_Unit(prev, unit_ids));
 			} else {
-				set_selected_ids(new Set([shape.id]));
+				set_selected_ids(new Set(unit_ids));
 			}
 			return;
 		}
@@ -1258,6 +2402,7 @@ export function Canvas() {
 				resize_shape_id: shape.id,
 				resize_handle: parseInt(handle_index),
 				resize_original: { x: shape.x, y: shape.y, width: shape.width, height: shape.height },
+				guide_targets: Guide_Targets(new Set([shape.id])),
 			};
 			return;
 		}
@@ -1315,39 +2460,158 @@ export function Canvas() {
 			// First Shift+click — set as source
 			quick_connect_source.current = shape.id;
 			// Also toggle selection
-			set_selected_ids(prev => {
-				const next = new Set(prev);
-				if (next.has(shape.id)) next.delete(shape.id);
-				else next.add(shape.id);
-				return next;
-			});
+			set_selected_ids(prev => Toggle_Unit(prev, unit_ids));
 		} else {
 			quick_connect_source.current = null;
 			if (!selected_ids.has(shape.id)) {
-				set_selected_ids(new Set([shape.id]));
+				set_selected_ids(new Set(unit_ids));
 			}
 		}
 
 		// Start dragging
-		const ids = selected_ids.has(shape.id) ? selected_ids : new Set([shape.id]);
-		const origins = new Map<string, Point>();
-		for (const s of shapes) {
-			if (ids.has(s.id)) {
-				origins.set(s.id, { x: s.x, y: s.y });
+		const ids = selected_ids.has(shape.id) ? selected_ids : new Set(unit_ids);
+		Begin_Move(ids, canvas_pt, screen_pt, { x: shape.x, y: shape.y });
+	}, [viewport, active_tool, selected_ids, shapes, Push_Undo, Get_SVG_Point]);
+
+	// Sweep the eraser from one point to another, removing the freehand paths it touches (or,
+	// in pixel mode, cutting out the parts it passes over). Pieces cut earlier in the same
+	// stroke can be erased again.
+	function Erase_Along(from: Point, to: Point): void {
+		const ds = drag_state.current;
+		if (!ds.erase_gone || !ds.erase_pieces || !ds.erase_origins) return;
+		const { eraser_mode, eraser_size } = tool_settings;
+		const candidates = new Map<string, FreehandPath>();
+		for (const entry of spatial_index.Query(Sweep_Bounds(from, to, eraser_size))) {
+			if (entry.kind === 'freehand' && entry.item.id !== '__drawing__' && !ds.erase_gone.has(entry.item.id)) candidates.set(entry.item.id, entry.item);
+		}
+		for (const p of ds.erase_pieces.values()) if (p) candidates.set(p.id, p);
+
+		const gone = new Set<string>();
+		const added: FreehandPath[] = [];
+		for (const path of candidates.values()) {
+			if (eraser_mode === 'stroke') {
+				if (Sweep_Hits(path, from, to, eraser_size)) gone.add(path.id);
+				continue;
 			}
+			const pieces = Sweep_Cut(path, from, to, eraser_size);
+			if (!pieces) continue;
+			gone.add(path.id);
+			const origin = ds.erase_origins.get(path.id) ?? path.id;
+			for (const piece of pieces) {
+				const id = Generate_Id('f');
+				ds.erase_origins.set(id, origin);
+				added.push({ ...path, id, ...piece });
+			}
+		}
+		if (gone.size === 0) return;
+		for (const id of gone) {
+			ds.erase_gone.add(id);
+			if (ds.erase_pieces.has(id)) ds.erase_pieces.set(id, null);
+		}
+		for (const p of added) ds.erase_pieces.set(p.id, p);
+		set_freehand_paths(prev => [...prev.filter(p => !gone.has(p.id)), ...added]);
+	}
+
+	// Start moving a selection. Shapes and freehand paths move with it, as do the free ends
+	// and control points of selected connectors, and everything inside selected frames.
+	// 'anchor' is the dragged shape's origin.
+	function Begin_Move(selected: Set<string>, canvas_pt: Point, screen_pt: Point, anchor?: Point): void {
+		const ids = new Set(selected);
+		for (const s of shapes_ref.current) {
+			if (!selected.has(s.id) || !Is_Frame(s)) continue;
+			for (const id of Frame_Member_Ids(s.id, shapes_ref.current, connectors_ref.current, freehand_ref.current)) ids.add(id);
+		}
+		const shape_origins = new Map<string, Point>();
+		for (const s of shapes_ref.current) {
+			if (ids.has(s.id)) shape_origins.set(s.id, { x: s.x, y: s.y });
+		}
+		const freehand_path_origins = new Map<string, Point[]>();
+		for (const p of freehand_ref.current) {
+			if (ids.has(p.id)) freehand_path_origins.set(p.id, p.points.map(pt => ({ ...pt })));
+		}
+		const connector_origins = new Map<string, Connector>();
+		for (const c of connectors_ref.current) {
+			if (ids.has(c.id)) connector_origins.set(c.id, c);
 		}
 
+		const guide_box = Elements_Bounds(
+			shapes_ref.current.filter(s => ids.has(s.id)), [],
+			freehand_ref.current.filter(f => ids.has(f.id)), shapes_ref.current,
+		) ?? undefined;
+
 		Push_Undo();
 		drag_state.current = {
 			type: 'move',
 			start_canvas: canvas_pt,
 			start_screen: screen_pt,
-			shape_origins: origins,
+			shape_origins,
+			freehand_path_origins,
+			connector_origins,
+			move_anchor: anchor,
+			guide_box,
+			guide_targets: Guide_Targets(ids),
 			moved: false,
 		};
-	}, [viewport, active_tool, selected_ids, shapes, Push_Undo, Get_SVG_Point]);
+	}
+
+	// Boxes of the shapes on screen that smart guides line a drag up with, leaving out 'exclude'
+	function Guide_Targets(exclude: Set<string>): Bounds[] {
+		const vp = viewport_ref.current;
+		const size = view_size_ref.current;
+		const view = { x: -vp.offset_x / vp.zoom, y: -vp.offset_y / vp.zoom, width: size.width / vp.zoom, height: size.height / vp.zoom };
+		return spatial_index.Query(view).flatMap(entry =>
+			entry.kind === 'shape' && !exclude.has(entry.item.id) ? [Rotated_Shape_Bounds(entry.item)] : []
+		);
+	}
+
+	// Double-clicking a grouped element enters its group (one level per double-click) and
+	// selects the unit under the pointer. Returns false if the element is already a unit.
+	function Enter_Group_At(id: string): boolean {
+		const parents = Parent_Map(groups_ref.current);
+		const scope = Is_Within(id, entered_group_ref.current, parents) ? entered_group_ref.current : null;
+		const unit = Top_Unit(id, scope, parents);
+		if (unit === id) return false;
+		set_entered_group_id(unit);
+		set_selected_ids(new Set(Leaf_Ids(Top_Unit(id, unit, parents), groups_ref.current)));
+		return true;
+	}
+
+	// Resize/rotate handles of a selected group
+	const Handle_Group_PointerDown = useCallback((e: React.PointerEvent, bounds: Bounds) => {
+		const target = e.target as Element;
+		const handle_index = target.getAttribute('data-handle-index');
+		const is_rotate = !!target.getAttribute('data-rotate-handle');
+		if (handle_index === null && !is_rotate) return;
+		e.preventDefault();
+		e.stopPropagation();
+		if (remote_editing_blocked) return;
+
+		const screen_pt = Get_SVG_Point(e);
+		const canvas_pt = Screen_To_Canvas(screen_pt, viewport);
+		const group_origins = {
+			shapes: shapes.filter(s => selected_ids.has(s.id)),
+			connectors: connectors.filter(c => selected_ids.has(c.id)),
+			freehand_paths: freehand_paths.filter(f => selected_ids.has(f.id)),
+		};
+		const cx = bounds.x + bounds.width / 2;
+		const cy = bounds.y + bounds.height / 2;
+
+		Push_Undo();
+		drag_state.current = {
+			type: is_rotate ? 'group_rotate' : 'group_resize',
+			start_canvas: canvas_pt,
+			start_screen: screen_pt,
+			group_origins,
+			group_bounds: bounds,
+			guide_targets: Guide_Targets(new Set(group_origins.shapes.map(s => s.id))),
+			resize_handle: handle_index !== null ? parseInt(handle_index) : undefined,
+			rotate_start_angle: Math.atan2(canvas_pt.y - cy, canvas_pt.x - cx) * (180 / Math.PI),
+		};
+	}, [viewport, selected_ids, shapes, connectors, freehand_paths, remote_editing_blocked, Push_Undo, Get_SVG_Point]);
 
 	const Handle_Shape_DoubleClick = useCallback((_e: React.MouseEvent, shape: Shape) => {
+		if (Enter_Group_At(shape.id)) return;
+		if (shape.type === 'image') return; // images have no label
 		editing_started_at.current = Date.now();
 		set_editing_shape_id(shape.id);
 		set_selected_ids(new Set([shape.id]));
@@ -1355,10 +2619,35 @@ export function Canvas() {
 
 	const Handle_Text_Change = useCallback((value: string) => {
 		if (!editing_shape_id) return;
+		Push_Undo(`text:${editing_shape_id}`);
 		set_shapes(prev => prev.map(s =>
-			s.id === editing_shape_id ? { ...s, text: value } : s
+			s.id === editing_shape_id ? { ...s, text: value, text_marks: Retext_Marks(s.text_marks, s.text, value) } : s
 		));
-	}, [editing_shape_id]);
+	}, [editing_shape_id, Push_Undo]);
+
+	// Toggle formatting on the selected part of the text being edited (the word at the caret
+	// when nothing's selected; bullets go on the selected lines)
+	function Format_Editing_Text(type: TextMarkType): void {
+		const area = text_area_ref.current;
+		const shape = shapes_ref.current.find(s => s.id === editing_shape_id);
+		if (!area || !shape) return;
+		const { selectionStart, selectionEnd } = area;
+		let [start, end] = [selectionStart, selectionEnd];
+		if (type !== 'bullet' && start === end) [start, end] = Word_At(shape.text, start);
+		if (type !== 'bullet' && start === end) return;
+		let href: string | undefined;
+		if (type === 'link' && !Has_Mark(shape.text, shape.text_marks, 'link', start, end)) {
+			href = Safe_Href(prompt('Link address', 'https://')?.trim());
+			// The prompt took the focus; don't let that end the edit
+			editing_started_at.current = Date.now();
+			area.focus();
+			area.setSelectionRange(selectionStart, selectionEnd);
+			if (!href) return;
+		}
+		const text_marks = Toggle_Mark(shape.text, shape.text_marks, type, start, end, href);
+		Push_Undo(`text:${shape.id}`);
+		set_shapes(prev => prev.map(s => s.id === shape.id ? { ...s, text_marks } : s));
+	}
 
 	const Handle_Text_Commit = useCallback(() => {
 		// Guard against immediate blur when input first mounts
@@ -1372,12 +2661,13 @@ export function Canvas() {
 
 	const Handle_Connector_Label_Change = useCallback((value: string) => {
 		if (!editing_connector_id) return;
+		Push_Undo(`label:${editing_connector_id}`);
 		set_connectors(prev => prev.map(c =>
 			c.id === editing_connector_id
 				? { ...c, label: value, label_t: c.label_t ?? 0.5 }
 				: c
 		));
-	}, [editing_connector_id]);
+	}, [editing_connector_id, Push_Undo]);
 
 	const Handle_Connector_Label_Commit = useCallback(() => {
 		if (Date.now() - editing_started_at.current < 200) return;
@@ -1387,6 +2677,7 @@ export function Canvas() {
 				// Empty label → remove it
 				const updated = c.label ? c : { ...c, label: undefined, label_t: undefined };
 				if (!c.label) {
+					Push_Undo(`label:${c.id}`);
 					set_connectors(prev => prev.map(cn =>
 						cn.id === editing_connector_id ? updated : cn
 					));
@@ -1395,7 +2686,7 @@ export function Canvas() {
 			}
 		}
 		set_editing_connector_id(null);
-	}, [editing_connector_id, connectors]);
+	}, [editing_connector_id, connectors, Push_Undo]);
 
 	// ── Canvas double-click → create shape ──
 	const Handle_Canvas_DoubleClick = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
@@ -1473,9 +2764,15 @@ export function Canvas() {
 						...freehand_paths.filter(f => !me || f.created_by === me).map(f => f.id),
 					]));
 				}
-				if (e.key === 'c') { e.preventDefault(); Copy_Selected(); }
-				if (e.key === 'v') { e.preventDefault(); if (!remote_editing_blocked) Paste(); }
+				// Ctrl+C / Ctrl+V are handled by the copy/paste events below (so images can be pasted)
 				if (e.key === 'd') { e.preventDefault(); if (!remote_editing_blocked) Duplicate_Selected(); }
+				if (e.key === 'g' || e.key === 'G') {
+					e.preventDefault();
+					if (!remote_editing_blocked) {
+						if (e.shiftKey) Ungroup_Selected();
+						else Group_Selected();
+					}
+				}
 				return;
 			}
 
@@ -1485,7 +2782,13 @@ export function Canvas() {
 					if (!remote_editing_blocked) Delete_Selected();
 					break;
 				case 'Escape':
-					set_selected_ids(new Set());
+					// Step out of an entered group first, selecting it
+					if (entered_group_id) {
+						set_selected_ids(new Set(Leaf_Ids(entered_group_id, groups)));
+						set_entered_group_id(null);
+					} else {
+						set_selected_ids(new Set());
+					}
 					set_active_tool('select');
 					break;
 				case 'F2':
@@ -1493,6 +2796,7 @@ export function Canvas() {
 					if (!remote_editing_blocked && selected_ids.size === 1) {
 						const id = Array.from(selected_ids)[0];
 						const is_connector = connectors.some(c => c.id === id);
+						if (!is_connector && shapes.find(s => s.id === id)?.type === 'image') break;
 						editing_started_at.current = Date.now();
 						if (is_connector) {
 							set_editing_connector_id(id);
@@ -1505,8 +2809,11 @@ export function Canvas() {
 				case 'v': case 'V': set_active_tool('select'); break;
 				case 's': case 'S': if (!remote_editing_blocked) set_active_tool(tool_settings.shape_type); break;
 				case 't': case 'T': if (!remote_editing_blocked) set_active_tool('text'); break;
+				case 'n': case 'N': if (!remote_editing_blocked) set_active_tool('sticky'); break;
+				case 'f': case 'F': if (!remote_editing_blocked) set_active_tool('frame'); break;
 				case 'a': case 'A': if (!remote_editing_blocked) set_active_tool('arrow'); break;
 				case 'p': case 'P': if (!remote_editing_blocked) set_active_tool('freehand'); break;
+				case 'e': case 'E': if (!remote_editing_blocked) set_active_tool('eraser'); break;
 				case 'l': case 'L': set_active_tool('laser'); break;
 				case 'g': case 'G': set_snap_enabled(prev => !prev); break;
 			}
@@ -1514,7 +2821,66 @@ export function Canvas() {
 
 		window.addEventListener('keydown', On_KeyDown);
 		return () => window.removeEventListener('keydown', On_KeyDown);
-	}, [editing_shape_id, editing_connector_id, shapes, connectors, Do_Undo, Do_Redo, Delete_Selected, Copy_Selected, Paste, Duplicate_Selected, tool_settings.shape_type, remote_editing_blocked, Handle_Connector_Label_Commit]);
+	}, [editing_shape_id, editing_connector_id, shapes, connectors, groups, entered_group_id, Do_Undo, Do_Redo, Delete_Selected, Duplicate_Selected, Group_Selected, Ungroup_Selected, tool_settings.shape_type, remote_editing_blocked, Handle_Connector_Label_Commit]);
+
+	// ── Clipboard: copy elements, paste elements or images ──
+	useEffect(() => {
+		const Is_Text_Target = (e: ClipboardEvent) => {
+			const target = e.target as HTMLElement | null;
+			return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+		};
+		function On_Copy(e: ClipboardEvent) {
+			if (Is_Text_Target(e) || editing_shape_id || editing_connector_id || selected_ids.size === 0) return;
+			e.preventDefault();
+			e.clipboardData?.setData('text/plain', CLIPBOARD_MARKER);
+			Copy_Selected();
+		}
+		function On_Paste(e: ClipboardEvent) {
+			if (Is_Text_Target(e) || editing_shape_id || editing_connector_id) return;
+			e.preventDefault();
+			if (remote_editing_blocked) return;
+			const data = e.clipboardData;
+			const image = Array.from(data?.files ?? []).find(f => f.type.startsWith('image/'));
+			if (image && data?.getData('text/plain') !== CLIPBOARD_MARKER) {
+				Insert_Image(image, View_Centre());
+			} else {
+				Paste();
+			}
+		}
+
+		window.addEventListener('copy', On_Copy);
+		window.addEventListener('paste', On_Paste);
+		return () => {
+			window.removeEventListener('copy', On_Copy);
+			window.removeEventListener('paste', On_Paste);
+		};
+	}, [editing_shape_id, editing_connector_id, selected_ids, remote_editing_blocked, Copy_Selected, Paste, Insert_Image, View_Centre]);
+
+	// ── Drag-and-drop image files, or shapes from the palette, onto the canvas ──
+	const Handle_DragOver = useCallback((e: React.DragEvent<SVGSVGElement>) => {
+		const types = Array.from(e.dataTransfer.types);
+		if (remote_editing_blocked || (!types.includes('Files') && !types.includes(SHAPE_DRAG_TYPE))) return;
+		e.preventDefault();
+		e.dataTransfer.dropEffect = 'copy';
+	}, [remote_editing_blocked]);
+
+	const Handle_Drop = useCallback((e: React.DragEvent<SVGSVGElement>) => {
+		const shape_data = e.dataTransfer.getData(SHAPE_DRAG_TYPE);
+		if (shape_data) {
+			e.preventDefault();
+			if (remote_editing_blocked) return;
+			const drop: PaletteDrop = JSON.parse(shape_data);
+			Create_Shape_At(drop.type, Screen_To_Canvas(Get_SVG_Point(e), viewport), drop.colour);
+			return;
+		}
+		const images = Array.from(e.dataTransfer.files).filter(f => f.type.startsWith('image/'));
+		if (images.length === 0) return;
+		e.preventDefault();
+		if (remote_editing_blocked) return;
+		const at = Screen_To_Canvas(Get_SVG_Point(e), viewport);
+		// Cascade multiple files so they don't stack exactly
+		images.forEach((file, i) => Insert_Image(file, { x: at.x + i * 30, y: at.y + i * 30 }));
+	}, [remote_editing_blocked, viewport, Insert_Image, Get_SVG_Point, Create_Shape_At]);
 
 	// Force tool back to select/laser when remote editing is blocked
 	useEffect(() => {
@@ -1525,37 +2891,47 @@ export function Canvas() {
 
 	// Connector click handler
 	const Handle_Connector_PointerDown = useCallback((e: React.PointerEvent, connector: Connector) => {
-		if (active_tool === 'freehand' || active_tool === 'laser') return;
+		if (active_tool === 'freehand' || active_tool === 'eraser' || active_tool === 'laser') return;
 
 		e.preventDefault();
 		e.stopPropagation();
+		const unit_ids = Unit_Ids(connector.id);
 		if (e.shiftKey) {
-			set_selected_ids(prev => {
-				const next = new Set(prev);
-				if (next.has(connector.id)) next.delete(connector.id);
-				else next.add(connector.id);
-				return next;
-			});
-		} else {
-			set_selected_ids(new Set([connector.id]));
+			set_selected_ids(prev => Toggle_Unit(prev, unit_ids));
+			return;
+		}
+		if (unit_ids.length === 1) {
+			set_selected_ids(new Set(unit_ids));
+			return;
 		}
-	}, [active_tool]);
+		// A grouped connector drags its group like any other member
+		const ids = selected_ids.has(connector.id) ? selected_ids : new Set(unit_ids);
+		set_selected_ids(ids);
+		if (remote_editing_blocked) return;
+		const screen_pt = Get_SVG_Point(e);
+		Begin_Move(ids, Screen_To_Canvas(screen_pt, viewport), screen_pt);
+	}, [active_tool, viewport, selected_ids, remote_editing_blocked, Get_SVG_Point]);
+
+	const Handle_Connector_DoubleClick = useCallback((_e: React.MouseEvent, connector: Connector) => {
+		Enter_Group_At(connector.id);
+	}, []);
 
 	// Board persistence handlers
+	// Boards arrive here already migrated (BoardPanel and GraphService run Migrate_State)
 	const Handle_Load_Board = useCallback((state: CanvasState) => {
-		set_shapes(state.shapes || []);
-		set_connectors(state.connectors || []);
-		set_freehand_paths(state.freehand_paths || []);
+		untracked_all.current = true;
+		set_shapes(state.shapes);
+		set_connectors(state.connectors);
+		set_freehand_paths(state.freehand_paths);
+		set_groups(state.groups ?? []);
+		set_saved_views(state.saved_views ?? []);
 		set_selected_ids(new Set());
+		set_entered_group_id(null);
 		undo_mgr.Clear();
-		const max_z = Math.max(0,
-			...(state.shapes || []).map(s => s.z_index ?? 0),
-			...(state.connectors || []).map(c => c.z_index ?? 0),
-			...(state.freehand_paths || []).map(f => f.z_index ?? 0),
-		);
-		z_counter.current = max_z;
+		z_counter.current = Max_Z_Index(state);
 
 		// Broadcast full state to remote users when switching boards
+		Reset_Crdt(state);
 		collab_ref.current?.Send_State(state);
 	}, [undo_mgr]);
 
@@ -1565,8 +2941,11 @@ export function Canvas() {
 		set_shapes([]);
 		set_connectors([]);
 		set_freehand_paths([]);
+		set_groups([]);
 		set_selected_ids(new Set());
-		collab_ref.current?.Send_State({ shapes: [], connectors: [], freehand_paths: [] });
+		const cleared: CanvasState = { schema_version: SCHEMA_VERSION, shapes: [], connectors: [], freehand_paths: [], groups: [] };
+		Reset_Crdt(cleared);
+		collab_ref.current?.Send_State(cleared);
 	}, [Push_Undo]);
 
 	// Control point drag handler for smooth connectors
@@ -1626,7 +3005,7 @@ export function Canvas() {
 	// Freehand path click handler
 	const Handle_Freehand_PointerDown = useCallback((e: React.PointerEvent, path_id: string) => {
 		// When drawing or using laser, let the event bubble up to the canvas handler
-		if (active_tool === 'freehand' || active_tool === 'laser') return;
+		if (active_tool === 'freehand' || active_tool === 'eraser' || active_tool === 'laser') return;
 
 		e.preventDefault();
 		e.stopPropagation();
@@ -1653,36 +3032,28 @@ export function Canvas() {
 			}
 		}
 
+		const unit_ids = Unit_Ids(path_id);
 		if (e.shiftKey) {
-			set_selected_ids(prev => {
-				const next = new Set(prev);
-				if (next.has(path_id)) next.delete(path_id);
-				else next.add(path_id);
-				return next;
-			});
+			set_selected_ids(prev => Toggle_Unit(prev, unit_ids));
 		} else {
 			if (!selected_ids.has(path_id)) {
-				set_selected_ids(new Set([path_id]));
+				set_selected_ids(new Set(unit_ids));
 			}
 		}
+		if (remote_editing_blocked) return;
 
-		// Start dragging to move selected freehand paths
-		const ids = selected_ids.has(path_id) ? selected_ids : new Set([path_id]);
-		const origins = new Map<string, Point[]>();
-		for (const p of freehand_paths) {
-			if (ids.has(p.id)) {
-				origins.set(p.id, p.points.map(pt => ({ ...pt })));
-			}
-		}
-		Push_Undo();
-		drag_state.current = {
-			type: 'freehand_move',
-			start_canvas: canvas_pt,
-			start_screen: screen_pt,
-			freehand_path_origins: origins,
-			moved: false,
-		};
-	}, [active_tool, viewport, selected_ids, freehand_paths, Push_Undo, Get_SVG_Point]);
+		// Start dragging to move the selection
+		const ids = selected_ids.has(path_id) ? selected_ids : new Set(unit_ids);
+		Begin_Move(ids, canvas_pt, screen_pt);
+	}, [active_tool, viewport, selected_ids, freehand_paths, remote_editing_blocked, Push_Undo, Get_SVG_Point]);
+
+	// Canvas area covered by the viewport (plus a margin) — only elements within it are rendered
+	const visible_area = {
+		x: (-CULL_MARGIN - viewport.offset_x) / viewport.zoom,
+		y: (-CULL_MARGIN - viewport.offset_y) / viewport.zoom,
+		width: (view_size.width + CULL_MARGIN * 2) / viewport.zoom,
+		height: (view_size.height + CULL_MARGIN * 2) / viewport.zoom,
+	};
 
 	// The editing shape (for text input overlay)
 	const editing_shape = editing_shape_id ? shapes.find(s => s.id === editing_shape_id) : null;
@@ -1692,31 +3063,74 @@ export function Canvas() {
 	const selected_connectors = connectors.filter(c => selected_ids.has(c.id));
 	const selected_freehand = freehand_paths.filter(f => selected_ids.has(f.id));
 
+	// Selected groups draw one outline (and handles, if a single group is selected) in place
+	// of their members' individual selection handles
+	const group_parents = Parent_Map(groups);
+	const selected_groups = Selected_Groups(selected_ids, groups, entered_group_id, group_parents);
+	const group_selected_ids = new Set(selected_groups.flatMap(g => Leaf_Ids(g.id, groups)));
+	const Is_Selected = (id: string) => selected_ids.has(id) && !group_selected_ids.has(id);
+	const Group_Bounds = (group_id: string) => {
+		const ids = new Set(Leaf_Ids(group_id, groups));
+		return Elements_Bounds(shapes.filter(s => ids.has(s.id)), connectors.filter(c => ids.has(c.id)), freehand_paths.filter(f => ids.has(f.id)), shapes);
+	};
+	const single_group_selected = selected_groups.length === 1 && Units_Of(selected_ids, entered_group_id, group_parents).length === 1;
+	const entered_bounds = entered_group_id ? Group_Bounds(entered_group_id) : null;
+
 	// Properties panel handlers
 	const Handle_Position_Change = useCallback((changes: { x?: number; y?: number; width?: number; height?: number; rotation?: number }) => {
 		Push_Undo();
 		set_shapes(prev => prev.map(s => {
 			if (!selected_ids.has(s.id)) return s;
+			// Images keep their aspect ratio: changing one dimension changes the other
+			let { width, height } = changes;
+			if (s.type === 'image') {
+				if (width !== undefined) height = width * s.height / s.width;
+				else if (height !== undefined) width = height * s.width / s.height;
+			}
 			return {
 				...s,
 				...(changes.x !== undefined && { x: changes.x }),
 				...(changes.y !== undefined && { y: changes.y }),
-				...(changes.width !== undefined && { width: changes.width }),
-				...(changes.height !== undefined && { height: changes.height }),
+				...(width !== undefined && { width }),
+				...(height !== undefined && { height }),
 				...(changes.rotation !== undefined && { rotation: changes.rotation }),
 			};
 		}));
 	}, [selected_ids, Push_Undo]);
 
+	// Change the crop of selected images. The visible pixels keep their scale and position;
+	// the shape grows/shrinks around them.
+	const Handle_Image_Crop = useCallback((crop: Bounds) => {
+		Push_Undo();
+		set_shapes(prev => prev.map(s => {
+			if (!selected_ids.has(s.id) || !s.image) return s;
+			const old = s.image.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+			const scale_x = s.width / (old.width * s.image.natural_width);
+			const scale_y = s.height / (old.height * s.image.natural_height);
+			const is_full = crop.x <= 0 && crop.y <= 0 && crop.width >= 1 && crop.height >= 1;
+			const updated = {
+				...s,
+				x: s.x + (crop.x - old.x) * s.image.natural_width * scale_x,
+				y: s.y + (crop.y - old.y) * s.image.natural_height * scale_y,
+				width: crop.width * s.image.natural_width * scale_x,
+				height: crop.height * s.image.natural_height * scale_y,
+				image: { ...s.image, crop: is_full ? undefined : crop },
+			};
+			Broadcast_Update('shape', updated);
+			return updated;
+		}));
+	}, [selected_ids, Push_Undo]);
+
 	const Handle_Panel_Text_Change = useCallback((text: string) => {
+		Push_Undo(`text:${Array.from(selected_ids).join()}`);
 		set_shapes(prev => {
 			const updated = prev.map(s =>
-				selected_ids.has(s.id) ? { ...s, text } : s
+				selected_ids.has(s.id) ? { ...s, text, text_marks: Retext_Marks(s.text_marks, s.text, text) } : s
 			);
 			updated.filter(s => selected_ids.has(s.id)).forEach(s => Broadcast_Update('shape', s));
 			return updated;
 		});
-	}, [selected_ids]);
+	}, [selected_ids, Push_Undo]);
 
 	const Handle_Rounded_Change = useCallback((rounded: boolean) => {
 		Push_Undo();
@@ -1748,7 +3162,7 @@ export function Canvas() {
 		}));
 	}, [selected_ids, Push_Undo]);
 
-	const Handle_Freehand_Change = useCallback((changes: Partial<{ stroke: string; stroke_width: number }>) => {
+	const Handle_Freehand_Change = useCallback((changes: Partial<FreehandStyle>) => {
 		Push_Undo();
 		set_freehand_paths(prev => prev.map(f => {
 			if (!selected_ids.has(f.id)) return f;
@@ -1758,6 +3172,9 @@ export function Canvas() {
 					...f.style,
 					...(changes.stroke !== undefined && { stroke: changes.stroke }),
 					...(changes.stroke_width !== undefined && { stroke_width: changes.stroke_width }),
+					...(changes.thinning !== undefined && { thinning: changes.thinning }),
+					...(changes.streamline !== undefined && { streamline: changes.streamline }),
+					...(changes.taper !== undefined && { taper: changes.taper }),
 				},
 			};
 			Broadcast_Update('freehand', updated);
@@ -1821,39 +3238,61 @@ export function Canvas() {
 	return (
 		<div style={{ position: 'absolute', inset: 0, background: '#f8f9fa' }}>
 			{/* Toolbar sits outside the overflow-hidden canvas layer so dropdowns aren't clipped */}
-			<Toolbar
-				active_tool={active_tool}
-				on_tool_change={set_active_tool}
-				tool_settings={tool_settings}
-				on_tool_settings_change={Handle_Tool_Settings_Change}
-				snap_enabled={snap_enabled}
-				on_toggle_snap={() => set_snap_enabled(prev => !prev)}
-				grid_size={grid_size}
-				on_grid_size_change={set_grid_size}
-				on_undo={Do_Undo}
-				on_redo={Do_Redo}
-				on_delete={Delete_Selected}
-				on_duplicate={Duplicate_Selected}
-				can_undo={undo_mgr.Can_Undo}
-				can_redo={undo_mgr.Can_Redo}
-				has_selection={selected_ids.size > 0}
-				editing_blocked={remote_editing_blocked}
-			/>
-
-			<TipsOverlay />
-
-			<BoardPanel
-				is_open={show_board_panel}
-				on_toggle={() => set_show_board_panel(prev => !prev)}
-				current_state={{ shapes, connectors, freehand_paths }}
-				on_load_board={Handle_Load_Board}
-				on_clear_canvas={Handle_Clear_Canvas}
-				current_board_id={current_board_id}
-				on_board_id_change={set_current_board_id}
-				current_board_name={current_board_name}
-				on_board_name_change={(name: string) => { set_current_board_name(name); Broadcast_Update('board_name', name); }}
-				graph_auth={graph_auth}
-			/>
+			{!presenting && (
+				<Toolbar
+					active_tool={active_tool}
+					on_tool_change={set_active_tool}
+					tool_settings={tool_settings}
+					on_tool_settings_change={Handle_Tool_Settings_Change}
+					snap_enabled={snap_enabled}
+					on_toggle_snap={() => set_snap_enabled(prev => !prev)}
+					grid_size={grid_size}
+					on_grid_size_change={set_grid_size}
+					on_undo={Do_Undo}
+					on_redo={Do_Redo}
+					on_delete={Delete_Selected}
+					on_duplicate={Duplicate_Selected}
+					on_layout={Layout_Diagram}
+					can_undo={undo_mgr.Can_Undo}
+					can_redo={undo_mgr.Can_Redo}
+					has_selection={selected_ids.size > 0}
+					editing_blocked={remote_editing_blocked}
+				/>
+			)}
+
+			{!presenting && <TipsOverlay />}
+
+			{!presenting && (
+				<BoardPanel
+					is_open={show_board_panel}
+					on_toggle={() => { set_show_board_panel(prev => !prev); set_show_shape_palette(false); }}
+					current_state={{ schema_version: SCHEMA_VERSION, shapes, connectors, freehand_paths, groups, saved_views }}
+					on_load_board={Handle_Load_Board}
+					on_clear_canvas={Handle_Clear_Canvas}
+					current_board_id={current_board_id}
+					on_board_id_change={set_current_board_id}
+					current_board_name={current_board_name}
+					on_board_name_change={(name: string) => { set_current_board_name(name); Broadcast_Update('board_name', name); }}
+					graph_auth={graph_auth}
+					with_all_rendered={With_All_Rendered}
+					on_insert_image={(file: File) => Insert_Image(file, View_Centre())}
+					on_go_to_frame={Go_To_Frame}
+					saved_views={saved_views}
+					can_edit_views={!remote_editing_blocked}
+					on_save_view={Save_Current_View}
+					on_saved_views_change={Commit_Saved_Views}
+					on_go_to_view={(view: SavedView) => Animate_To_View(view.view)}
+					on_present={() => Start_Presentation()}
+				/>
+			)}
+
+			{!presenting && (
+				<ShapePalette
+					is_open={show_shape_palette}
+					on_toggle={() => { set_show_shape_palette(prev => !prev); set_show_board_panel(false); }}
+					on_select_tool={set_active_tool}
+				/>
+			)}
 
 			{/* Canvas layer clips pan/zoom content */}
 			<div style={{ position: 'absolute', inset: 0, overflow: 'hidden' }}>
@@ -1867,6 +3306,8 @@ export function Canvas() {
 				onDoubleClick={Handle_Canvas_DoubleClick}
 				onWheel={Handle_Wheel}
 				onContextMenu={Handle_ContextMenu}
+				onDragOver={Handle_DragOver}
+				onDrop={Handle_Drop}
 			>
 				{/* Grid patterns — minor lines and major lines */}
 				{(() => {
@@ -1905,20 +3346,17 @@ export function Canvas() {
 
 				{/* Transformed canvas content */}
 				<g transform={`translate(${viewport.offset_x}, ${viewport.offset_y}) scale(${viewport.zoom})`}>
-					{/* All elements rendered in z-index order */}
+					{/* Elements near the viewport, rendered in z-index order */}
 					{(() => {
-						type RenderItem =
-							| { kind: 'shape'; item: Shape }
-							| { kind: 'connector'; item: Connector }
-							| { kind: 'freehand'; item: FreehandPath };
-						const items: RenderItem[] = [
-							...shapes.map(s => ({ kind: 'shape' as const, item: s })),
-							...connectors.map(c => ({ kind: 'connector' as const, item: c })),
-							...freehand_paths.map(f => ({ kind: 'freehand' as const, item: f })),
-						];
+						const items = (culling_enabled ? spatial_index.Query(visible_area) : spatial_index.All())
+							.filter(entry => entry.kind !== 'shape' || !Is_Frame(entry.item));
 						items.sort((a, b) => (a.item.z_index ?? 0) - (b.item.z_index ?? 0));
+						// Frames are always drawn, under everything else, so their members can clip to them.
+						// Selected members aren't clipped, so they stay visible while dragged out.
+						const frames = shapes.filter(Is_Frame).sort((a, b) => a.z_index - b.z_index);
+						const frame_ids = new Set(frames.map(f => f.id));
 
-						return items.map(entry => {
+						const Render_Entry = (entry: typeof items[number]) => {
 							if (entry.kind === 'connector') {
 								const c = entry.item;
 								return (
@@ -1926,8 +3364,10 @@ export function Canvas() {
 										key={c.id}
 										connector={c}
 										shapes={shapes}
-										is_selected={selected_ids.has(c.id)}
+										spatial_index={spatial_index}
+										is_selected={Is_Selected(c.id)}
 										on_pointer_down={Handle_Connector_PointerDown}
+										on_double_click={Handle_Connector_DoubleClick}
 										on_control_point_drag={Handle_Control_Point_Drag}
 										on_endpoint_drag={Handle_Endpoint_Drag}
 										on_label_t_drag={Handle_Label_T_Drag}
@@ -1940,7 +3380,7 @@ export function Canvas() {
 									<ShapeRenderer
 										key={s.id}
 										shape={s}
-										is_selected={selected_ids.has(s.id)}
+										is_selected={Is_Selected(s.id)}
 										is_hovered={hovered_shape_id === s.id}
 										on_pointer_down={Handle_Shape_PointerDown}
 										on_pointer_enter={(shape) => set_hovered_shape_id(shape.id)}
@@ -1951,25 +3391,16 @@ export function Canvas() {
 							}
 							if (entry.kind === 'freehand') {
 								const path = entry.item;
-								const is_sel = selected_ids.has(path.id);
+								const is_sel = Is_Selected(path.id);
 								const is_drawing = path.id === '__drawing__';
-								const stroke_points = getStroke(path.points, {
-									size: path.style.stroke_width * 2,
-									thinning: 0.5,
-									smoothing: 0.5,
-									streamline: 0.5,
-									simulatePressure: true,
-									start: { cap: true, taper: 0 },
-									end: { cap: true, taper: is_drawing ? 0 : 20 },
-									last: !is_drawing,
-								});
-								const path_d = Get_Svg_Path_From_Stroke(stroke_points);
+								const path_d = Freehand_Outline(path, is_drawing);
+								const variant = Pen_Variant(path);
 								const bounds = is_sel ? Freehand_Bounds(path.points) : null;
 								const pts_str = path.points.map(p => `${p.x},${p.y}`).join(' ');
 
 								return (
-									<g key={path.id} onPointerDown={(e) => Handle_Freehand_PointerDown(e, path.id)}>
-										<polyline points={pts_str} fill="none" stroke="transparent" strokeWidth={16} style={{ cursor: 'pointer' }} />
+									<g key={path.id} onPointerDown={(e) => Handle_Freehand_PointerDown(e, path.id)} onDoubleClick={() => Enter_Group_At(path.id)}>
+										<polyline points={pts_str} fill="none" stroke="transparent" strokeWidth={Math.max(16, Drawn_Radius(path) * 2)} style={{ cursor: 'pointer' }} />
 										{is_sel && bounds && bounds.width > 0 && bounds.height > 0 && (
 											<>
 												<rect
@@ -1994,14 +3425,60 @@ export function Canvas() {
 												))}
 											</>
 										)}
-										<path d={path_d} fill={path.style.stroke} stroke="none" pointerEvents="none" />
+										<path
+											d={path_d} fill={path.style.stroke} stroke="none" pointerEvents="none"
+											opacity={variant.opacity < 1 ? variant.opacity : undefined}
+											style={variant.blend && { mixBlendMode: variant.blend }}
+										/>
 									</g>
 								);
 							}
 							return null;
-						});
+						};
+
+						return [
+							...frames.map(f => Render_Entry({ kind: 'shape', item: f })),
+							...items.map(entry => {
+								const frame_id = entry.item.frame_id;
+								if (!frame_id || !frame_ids.has(frame_id)) return Render_Entry(entry);
+								const clipped = !selected_ids.has(entry.item.id);
+								return (
+									<g key={entry.item.id} clipPath={clipped ? `url(#${Frame_Clip_Id(frame_id)})` : undefined} data-frame-id={frame_id}>
+										{Render_Entry(entry)}
+									</g>
+								);
+							}),
+						];
 					})()}
 
+					{/* Outline of the group being edited */}
+					{entered_bounds && (
+						<rect
+							x={entered_bounds.x - 8} y={entered_bounds.y - 8}
+							width={entered_bounds.width + 16} height={entered_bounds.height + 16}
+							fill="none" stroke="#999" strokeWidth={1 / viewport.zoom}
+							strokeDasharray="6 4" pointerEvents="none"
+						/>
+					)}
+
+					{/* Selected groups */}
+					{selected_groups.map(g => {
+						const b = Group_Bounds(g.id);
+						if (!b) return null;
+						return single_group_selected && !remote_editing_blocked ? (
+							<g key={g.id} onPointerDown={(e) => Handle_Group_PointerDown(e, b)}>
+								<SelectionHandles x={b.x} y={b.y} width={b.width} height={b.height} />
+							</g>
+						) : (
+							<rect
+								key={g.id}
+								x={b.x} y={b.y} width={b.width} height={b.height}
+								fill="none" stroke="#00d4ff" strokeWidth={1}
+								strokeDasharray="6 3" pointerEvents="none"
+							/>
+						);
+					})}
+
 					{/* Connector preview while dragging */}
 					{connector_preview && (
 						<line
@@ -2063,11 +3540,40 @@ export function Canvas() {
 						pointerEvents="none"
 					/>
 				)}
+
+				{/* Smart guides: dashed where edges or centres line up, solid across matching gaps */}
+				{snap_guides.map((g, i) => (
+					<line
+						key={i}
+						x1={g.x1 * viewport.zoom + viewport.offset_x}
+						y1={g.y1 * viewport.zoom + viewport.offset_y}
+						x2={g.x2 * viewport.zoom + viewport.offset_x}
+						y2={g.y2 * viewport.zoom + viewport.offset_y}
+						stroke="#e91e63"
+						strokeWidth={1}
+						strokeDasharray={g.gap ? undefined : '4 3'}
+						pointerEvents="none"
+					/>
+				))}
+
+				{/* Eraser outline while erasing */}
+				{eraser_at && (
+					<circle
+						cx={eraser_at.x * viewport.zoom + viewport.offset_x}
+						cy={eraser_at.y * viewport.zoom + viewport.offset_y}
+						r={tool_settings.eraser_size / 2 * viewport.zoom}
+						fill="rgba(255, 255, 255, 0.5)"
+						stroke="#888"
+						strokeWidth={1}
+						pointerEvents="none"
+					/>
+				)}
 			</svg>
 
 			{/* Remote cursors overlay (rendered in screen space on top of SVG) */}
 			{remote_users.length > 0 && (
 				<svg style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 50 }}>
+					<RemoteSelections users={remote_users} viewport={viewport} outline_of={Element_Outline} />
 					<RemoteCursors users={remote_users} viewport={viewport} />
 				</svg>
 			)}
@@ -2085,8 +3591,92 @@ export function Canvas() {
 				</div>
 			)}
 
+			{/* Following a collaborator: frame the board in their colour */}
+			{following_id && (() => {
+				const leader = remote_users.find(u => u.id === following_id);
+				if (!leader) return null;
+				return (
+					<>
+						<div style={{ position: 'absolute', inset: 0, border: `3px solid ${leader.colour}`, pointerEvents: 'none', zIndex: 60 }} />
+						<div style={{
+							position: 'absolute', top: 12, left: '50%', transform: 'translateX(-50%)',
+							background: leader.colour, color: '#fff', borderRadius: 8, padding: '4px 6px 4px 12px',
+							fontSize: 12, fontWeight: 600, boxShadow: '0 2px 8px rgba(0,0,0,0.15)', zIndex: 100,
+							display: 'flex', alignItems: 'center', gap: 8,
+						}}>
+							Following {leader.name}
+							<button
+								onClick={() => set_following_id(null)}
+								style={{
+									border: 'none', borderRadius: 4, background: 'rgba(255,255,255,0.25)', color: '#fff',
+									fontSize: 11, padding: '2px 8px', cursor: 'pointer',
+								}}
+							>Stop</button>
+						</div>
+					</>
+				);
+			})()}
+
+			{/* Presentation controls */}
+			{presentation && (
+				<div style={{
+					position: 'absolute', bottom: 16, left: '50%', transform: 'translateX(-50%)',
+					background: 'rgba(33,33,33,0.85)', color: '#fff', borderRadius: 10, padding: '6px 8px',
+					fontSize: 13, boxShadow: '0 2px 12px rgba(0,0,0,0.25)', zIndex: 100,
+					display: 'flex', alignItems: 'center', gap: 8,
+				}}>
+					<button onClick={() => Step_Presentation(-1)} disabled={presentation.index === 0} style={presentation_btn_style} title="Previous view (←)">◀</button>
+					<span style={{ minWidth: 120, textAlign: 'center' }}>
+						{presented_view?.name}
+						<span style={{ opacity: 0.6, marginLeft: 8 }}>{Math.min(presentation.index, saved_views.length - 1) + 1} / {saved_views.length}</span>
+					</span>
+					<button onClick={() => Step_Presentation(1)} disabled={presentation.index >= saved_views.length - 1} style={presentation_btn_style} title="Next view (→)">▶</button>
+					{collab_session?.Is_Host && (
+						<button
+							onClick={() => set_presentation(p => p && { ...p, lead: !p.lead })}
+							style={{ ...presentation_btn_style, background: presentation.lead ? '#2196F3' : 'rgba(255,255,255,0.15)' }}
+							title="Move everyone in the session through the views with you"
+						>
+							📡 {presentation.lead ? 'Leading everyone' : 'Lead everyone'}
+						</button>
+					)}
+					<button onClick={() => set_presentation(null)} style={presentation_btn_style} title="End presentation (Esc)">✕</button>
+				</div>
+			)}
+
+			{/* The host is presenting to the room */}
+			{remote_presentation && !presentation && (
+				<div style={{
+					position: 'absolute', bottom: 16, left: '50%', transform: 'translateX(-50%)',
+					background: 'rgba(33,33,33,0.85)', color: '#fff', borderRadius: 10, padding: '4px 6px 4px 12px',
+					fontSize: 12, boxShadow: '0 2px 12px rgba(0,0,0,0.25)', zIndex: 100,
+					display: 'flex', alignItems: 'center', gap: 8,
+				}}>
+					▶ {remote_users.find(u => u.id === collab_session?.Host_Id)?.name ?? 'The host'} is presenting · {remote_presentation.name}
+					<span style={{ opacity: 0.6 }}>{remote_presentation.index + 1} / {remote_presentation.count}</span>
+					<button onClick={() => set_tracking_presentation(prev => !prev)} style={presentation_btn_style}>
+						{tracking_presentation ? 'Stop following' : 'Follow'}
+					</button>
+				</div>
+			)}
+
+			{sync_progress !== null && (
+				<div style={{
+					position: 'absolute', top: 12, left: '50%', transform: 'translateX(-50%)',
+					background: '#fff', border: '1px solid #c8e1ff', borderRadius: 8, padding: '6px 12px',
+					fontSize: 12, color: '#1565C0', boxShadow: '0 2px 8px rgba(0,0,0,0.1)', zIndex: 100,
+					display: 'flex', alignItems: 'center', gap: 8,
+				}}>
+					Loading board…
+					<div style={{ width: 120, height: 6, borderRadius: 3, background: '#e3f2fd', overflow: 'hidden' }}>
+						<div style={{ width: `${Math.round(sync_progress * 100)}%`, height: '100%', background: '#2196F3' }} />
+					</div>
+					{Math.round(sync_progress * 100)}%
+				</div>
+			)}
+
 			{/* Join Room UI — top-left overlay for Teams where URL pasting isn't possible */}
-			{!collab_session && (
+			{!collab_session && !presenting && (
 				<div style={{ position: 'absolute', top: 8, left: 8, zIndex: 100 }}>
 					{!show_join_room ? (
 						<button
@@ -2109,7 +3699,7 @@ export function Canvas() {
 							<div style={{ fontSize: 13, fontWeight: 600 }}>Join a Room</div>
 							<input
 								type="text"
-								placeholder="Room code (e.g. abc123)"
+								placeholder="Invite link or code"
 								value={join_room_code}
 								onChange={(e) => set_join_room_code(e.target.value)}
 								onKeyDown={(e) => { if (e.key === 'Enter') Handle_Join_Room(); if (e.key === 'Escape') set_show_join_room(false); e.stopPropagation(); }}
@@ -2157,8 +3747,8 @@ export function Canvas() {
 				</div>
 			)}
 
-			{/* Text editing overlay */}
-			{editing_shape && (
+			{/* Frame title editing overlay, in the title bar */}
+			{editing_shape && Is_Frame(editing_shape) && (
 				<input
 					ref={text_input_ref}
 					type="text"
@@ -2174,9 +3764,9 @@ export function Canvas() {
 						left: editing_shape.x * viewport.zoom + viewport.offset_x,
 						top: editing_shape.y * viewport.zoom + viewport.offset_y,
 						width: editing_shape.width * viewport.zoom,
-						height: editing_shape.height * viewport.zoom,
+						height: Math.min(FRAME_TITLE_HEIGHT, editing_shape.height) * viewport.zoom,
 						fontSize: editing_shape.style.font_size * viewport.zoom,
-						textAlign: 'center',
+						textAlign: 'left',
 						border: '2px solid #2196F3',
 						borderRadius: 4,
 						outline: 'none',
@@ -2187,6 +3777,66 @@ export function Canvas() {
 				/>
 			)}
 
+			{/* Text editing overlay. Enter finishes (Shift+Enter for a new line), except on sticky
+			    notes where Enter starts a new line and Ctrl+Enter finishes. */}
+			{editing_shape && !Is_Frame(editing_shape) && (() => {
+				const is_sticky = editing_shape.type === 'sticky';
+				const left = editing_shape.x * viewport.zoom + viewport.offset_x;
+				const top = editing_shape.y * viewport.zoom + viewport.offset_y;
+				return (
+					<>
+						<div style={{ ...format_bar_style, left, top: top - 36 }}>
+							{FORMAT_BUTTONS.map(b => (
+								<button key={b.type} title={b.title}
+									// Keep the focus (and selection) in the text box
+									onMouseDown={(e) => e.preventDefault()}
+									onClick={() => Format_Editing_Text(b.type)}
+									style={{ ...format_btn_style, ...b.style }}
+								>{b.icon}</button>
+							))}
+						</div>
+						<textarea
+							ref={text_area_ref}
+							value={editing_shape.text}
+							onChange={(e) => Handle_Text_Change(e.target.value)}
+							onBlur={Handle_Text_Commit}
+							onKeyDown={(e) => {
+								const mod = e.ctrlKey || e.metaKey;
+								const format = mod ? FORMAT_BUTTONS.find(b => b.key === e.key.toLowerCase() && !!b.shift === e.shiftKey) : undefined;
+								if (format) {
+									e.preventDefault();
+									Format_Editing_Text(format.type);
+								} else if (e.key === 'Escape' || (e.key === 'Enter' && (mod || (!is_sticky && !e.shiftKey)))) {
+									e.preventDefault();
+									Handle_Text_Commit();
+								}
+								e.stopPropagation();
+							}}
+							style={{
+								position: 'absolute',
+								left,
+								top,
+								width: editing_shape.width * viewport.zoom,
+								height: editing_shape.height * viewport.zoom,
+								padding: (is_sticky ? STICKY_PADDING : 4) * viewport.zoom,
+								fontSize: editing_shape.style.font_size * viewport.zoom,
+								fontFamily: 'inherit',
+								lineHeight: LINE_HEIGHT,
+								textAlign: editing_shape.style.text_align ?? 'center',
+								color: editing_shape.style.text_colour,
+								background: is_sticky ? editing_shape.style.fill : 'rgba(255,255,255,0.95)',
+								border: '2px solid #2196F3',
+								borderRadius: is_sticky ? 0 : 4,
+								outline: 'none',
+								resize: 'none',
+								zIndex: 200,
+								boxSizing: 'border-box',
+							}}
+						/>
+					</>
+				);
+			})()}
+
 			{/* Connector label editing overlay */}
 			{editing_connector && (() => {
 				const src = Resolve_Connector_End(editing_connector.source, shapes);
@@ -2226,31 +3876,84 @@ export function Canvas() {
 			})()}
 
 			{/* Properties panel */}
-			<PropertiesPanel
-				selected_shapes={selected_shapes}
-				selected_connectors={selected_connectors}
-				selected_freehand={selected_freehand}
-				on_style_change={Apply_Style_Change}
-				on_position_change={Handle_Position_Change}
-				on_text_change={Handle_Panel_Text_Change}
-				on_rounded_change={Handle_Rounded_Change}
-				on_z_order={Handle_Z_Order}
-				on_connector_change={Handle_Connector_Change}
-				on_freehand_change={Handle_Freehand_Change}
-				collab_session={collab_session}
-				collab_connected={collab_connected}
-				remote_users={remote_users}
-				on_start_sharing={Handle_Start_Sharing}
-				on_stop_sharing={Stop_Collab_Session}
-				allow_remote_editing={allow_remote_editing}
-				on_toggle_remote_editing={Handle_Toggle_Remote_Editing}
-				remote_editing_blocked={remote_editing_blocked}
-			/>
+			{!presenting && (
+				<PropertiesPanel
+					selected_shapes={selected_shapes}
+					selected_connectors={selected_connectors}
+					selected_freehand={selected_freehand}
+					on_style_change={Apply_Style_Change}
+					on_position_change={Handle_Position_Change}
+					on_image_crop_change={Handle_Image_Crop}
+					on_text_change={Handle_Panel_Text_Change}
+					on_rounded_change={Handle_Rounded_Change}
+					on_z_order={Handle_Z_Order}
+					on_connector_change={Handle_Connector_Change}
+					on_freehand_change={Handle_Freehand_Change}
+					on_stack_notes={Stack_Selected}
+					unit_count={Units_Of(selected_ids, entered_group_id, group_parents).length}
+					on_align={Align_Selected}
+					on_distribute={Distribute_Selected}
+					collab_session={collab_session}
+					collab_connected={collab_connected}
+					collab_pending={collab_pending}
+					remote_users={remote_users}
+					on_start_sharing={Handle_Start_Sharing}
+					on_stop_sharing={Handle_Stop_Sharing}
+					allow_remote_editing={allow_remote_editing}
+					on_toggle_remote_editing={Handle_Toggle_Remote_Editing}
+					on_set_user_permission={Handle_Set_User_Permission}
+					following_id={following_id}
+					on_follow={Start_Following}
+					remote_editing_blocked={remote_editing_blocked}
+				/>
+			)}
 			</div>
 		</div>
 	);
 }
 
+const presentation_btn_style: React.CSSProperties = {
+	border: 'none', borderRadius: 6, background: 'rgba(255,255,255,0.15)', color: '#fff',
+	fontSize: 12, padding: '4px 10px', cursor: 'pointer',
+};
+
+// Formatting buttons shown over the text being edited, with their Ctrl+key shortcuts
+const FORMAT_BUTTONS: { type: TextMarkType; icon: string; title: string; key: string; shift?: boolean; style?: React.CSSProperties }[] = [
+	{ type: 'bold', icon: 'B', title: 'Bold (Ctrl+B)', key: 'b', style: { fontWeight: 700 } },
+	{ type: 'italic', icon: 'I', title: 'Italic (Ctrl+I)', key: 'i', style: { fontStyle: 'italic' } },
+	{ type: 'underline', icon: 'U', title: 'Underline (Ctrl+U)', key: 'u', style: { textDecoration: 'underline' } },
+	{ type: 'strike', icon: 'S', title: 'Strikethrough (Ctrl+Shift+X)', key: 'x', shift: true, style: { textDecoration: 'line-through' } },
+	{ type: 'link', icon: '🔗', title: 'Link (Ctrl+K)', key: 'k' },
+	{ type: 'bullet', icon: '•', title: 'Bulleted list (Ctrl+Shift+L)', key: 'l', shift: true },
+];
+
+const format_bar_style: React.CSSProperties = {
+	position: 'absolute',
+	display: 'flex',
+	gap: 2,
+	padding: 2,
+	background: '#fff',
+	border: '1px solid #ddd',
+	borderRadius: 6,
+	boxShadow: '0 2px 6px rgba(0,0,0,0.12)',
+	zIndex: 201,
+};
+
+const format_btn_style: React.CSSProperties = {
+	width: 26,
+	height: 26,
+	padding: 0,
+	border: 'none',
+	borderRadius: 4,
+	background: 'none',
+	cursor: 'pointer',
+	fontSize: 13,
+	fontFamily: 'inherit',
+};
+
+// Drags whose in-progress result collaborators see as ghost outlines
+const PREVIEW_DRAGS = new Set(['move', 'resize', 'rotate', 'freehand_resize', 'group_resize', 'group_rotate']);
+
 function Active_Cursor(tool: ToolType): string {
 	switch (tool) {
 		case 'select': return 'default';
@@ -1,10 +1,68 @@
-import type { CollabMessage, CollabUser, Point, CanvasState } from './types';
+import type { CollabMessage, CollabMessageType, CollabUser, Point, CanvasState, RemoteOutline, SharedView, PresentationStep } from './types';
+import { Get_Asset, Store_Asset, Blob_To_Data_Url } from './assets';
 
 const USER_COLOURS = [
 	'#2196F3', '#E91E63', '#4CAF50', '#FF9800', '#9C27B0',
 	'#00BCD4', '#F44336', '#8BC34A', '#FF5722', '#3F51B5',
 ];
 
+// Image assets are sent in pieces to stay well under the service's message size limit
+const ASSET_CHUNK_BYTES = 192 * 1024;
+// Peers holding a requested asset wait up to this long before answering, and stand down if
+// someone else starts sending it first
+const ASSET_REPLY_JITTER_MS = 500;
+// Everyone re-announces themselves this often. Peers not heard from for PEER_TIMEOUT_MS are
+// treated as gone (a closed tab doesn't always get its 'leave' out).
+const HEARTBEAT_MS = 10000;
+const PEER_TIMEOUT_MS = 30000;
+// Viewport updates are throttled harder than cursors; followers animate between them anyway
+const VIEW_THROTTLE_MS = 100;
+// Guests ask for the board again if nobody answers (e.g. the host left and a new one is taking over)
+const STATE_RETRY_MS = 5000;
+// The board is sent in pieces too (gzipped where the browser can), with a checksum of the whole
+const STATE_CHUNK_BYTES = 192 * 1024;
+// A transfer that stops arriving is asked for again, just the missing pieces, a few times before
+// starting over. Senders keep what they sent long enough to answer.
+const STATE_STALL_MS = 4000;
+const STATE_STALL_RETRIES = 3;
+const STATE_KEEP_MS = 60000;
+
+// Messages that change the board go to the room's group, which only editors may send to. Everything
+// else (presence, cursors, asset transfers) goes to '<room>.all', open to viewers too.
+const EDIT_MESSAGES = new Set<CollabMessageType>(['op_add', 'op_update', 'op_delete', 'state_chunk']);
+// Editors announce themselves on the room's group too, so others can tell who is really an
+// editor (and so may be host) from where the announcement arrived rather than what it says
+const PRESENCE_MESSAGES = new Set<CollabMessageType>(['join', 'presence']);
+
+// One piece of a board transfer. 'to' is the member who asked for it (null: everyone).
+interface StateChunk {
+	transfer_id: string;
+	to: string | null;
+	index: number;
+	count: number;
+	encoding: 'gzip' | 'none';
+	checksum: string;
+	data: string;
+}
+
+// A board transfer being received
+interface StateDownload {
+	sender_id: string;
+	chunks: (string | undefined)[];
+	received: number;
+	stall_timer: ReturnType<typeof setTimeout> | null;
+	retries: number;
+}
+
+// Invites for others to join the room, as far as our own role allows
+export interface RoomInvites {
+	edit?: string;
+	view?: string;
+}
+
+// Optional Entra ID token, so negotiate can identify signed-in users
+export type IdTokenSource = () => Promise<string | null>;
+
 // Generate a persistent user ID (stored in localStorage)
 function Get_User_Id(): string {
 	let id = localStorage.getItem('whitebored-user-id');
@@ -29,35 +87,96 @@ function Get_User_Colour(user_id: string): string {
 }
 
 export type CollabEventHandler = {
-	on_user_join?: (user: CollabUser) => void;
+	// 'already_present' is set for members who were in the room before we joined
+	on_user_join?: (user: CollabUser, already_present: boolean) => void;
 	on_user_leave?: (user_id: string) => void;
+	// A member's details changed (e.g. the host made them a viewer)
+	on_user_update?: (user: CollabUser) => void;
 	on_cursor_move?: (user_id: string, cursor: Point, sender_name: string, sender_colour: string) => void;
-	on_state_sync?: (state: CanvasState) => void;
+	on_selection_change?: (user_id: string, ids: string[]) => void;
+	// Outlines of what they're dragging; null when they let go
+	on_drag_preview?: (user_id: string, outlines: RemoteOutline[] | null) => void;
+	on_view_change?: (user_id: string, view: SharedView) => void;
+	// The host asked everyone to follow them
+	on_summon?: (host_id: string) => void;
+	// The host's presentation moved to another view (null when it ends)
+	on_presentation?: (step: PresentationStep | null) => void;
+	// 'merge' is set when catching up after a reconnect: merge it with our board rather than replace it
+	on_state_sync?: (state: CanvasState, merge: boolean) => void;
+	// A board transfer is arriving; 'received' reaches 'count' once it's all here
+	on_state_progress?: (received: number, count: number) => void;
 	on_operation?: (msg: CollabMessage) => void;
 	on_state_requested?: () => CanvasState | null;
 	on_connection_change?: (connected: boolean) => void;
+	// Board edits made while disconnected (or not yet confirmed by the service)
+	on_pending_change?: (count: number) => void;
+	on_host_change?: (host_id: string) => void;
+	on_permission_change?: (permission: CollabUser['permission']) => void;
+	// Negotiate refused us (bad or expired invite); the session won't retry
+	on_access_denied?: (message: string) => void;
 };
 
 export class CollabSession {
 	private ws: WebSocket | null = null;
 	private room_id: string;
+	private invite: string;
+	private get_id_token: IdTokenSource | null;
+	private permission: CollabUser['permission'] = 'edit';
+	// Set once the host changes our role; it outlasts reconnects, which renegotiate from the invite
+	private assigned_permission: CollabUser['permission'] | null = null;
+	private can_assign_roles: boolean = false;
+	// Roles we've given others (as the room's creator), and the connection each was last applied to
+	private role_overrides: Map<string, CollabUser['permission']> = new Map();
+	private applied_roles: Map<string, string> = new Map();
+	private connection_id: string | null = null;
+	private invites: RoomInvites = {};
 	private user_id: string;
 	private user_name: string;
 	private user_colour: string;
 	private is_host: boolean;
+	private host_id: string | null;
+	// The room's creator, as named by the server: its claim to be host always stands
+	private creator_id: string | null = null;
 	private handlers: CollabEventHandler;
 	private users: Map<string, CollabUser> = new Map();
+	private last_seen: Map<string, number> = new Map();
 	private cursor_throttle: number = 0;
+	private preview_throttle: number = 0;
+	private selection: string[] = [];
+	private view: SharedView | null = null;
+	private view_timer: ReturnType<typeof setTimeout> | null = null;
+	private view_dirty: boolean = false;
+	// The presentation we're leading (as host), and the last step we heard of from the host
+	private presentation: PresentationStep | null = null;
+	private presented: string = 'null';
 	private reconnect_timer: ReturnType<typeof setTimeout> | null = null;
+	private heartbeat_timer: ReturnType<typeof setInterval> | null = null;
+	private state_timer: ReturnType<typeof setTimeout> | null = null;
 	private connected: boolean = false;
+	// Edits waiting to be sent, and those sent but not yet acknowledged (resent if the connection drops)
+	private outbox: { type: CollabMessageType; payload: any }[] = [];
+	private unacked: Map<number, { type: CollabMessageType; payload: any }> = new Map();
+	private next_ack_id: number = 1;
+	// Whether we have the board: after a reconnect we catch up by merging rather than replacing it
+	private has_board: boolean;
+	private resyncing: boolean = false;
+	private state_downloads: Map<string, StateDownload> = new Map();
+	private state_uploads: Map<string, { chunks: StateChunk[]; timer: ReturnType<typeof setTimeout> }> = new Map();
+	private asset_replies: Map<string, ReturnType<typeof setTimeout>> = new Map();
+	private asset_downloads: Map<string, { mime: string; chunks: string[]; received: number }> = new Map();
 
-	constructor(room_id: string, handlers: CollabEventHandler, is_host: boolean = false) {
+	constructor(room_id: string, invite: string, handlers: CollabEventHandler, is_host: boolean = false, get_id_token: IdTokenSource | null = null) {
 		this.room_id = room_id;
+		this.invite = invite;
+		this.get_id_token = get_id_token;
 		this.user_id = Get_User_Id();
 		this.user_name = Get_User_Name();
 		this.user_colour = Get_User_Colour(this.user_id);
 		this.handlers = handlers;
 		this.is_host = is_host;
+		this.host_id = is_host ? this.user_id : null;
+		this.has_board = is_host;
+		window.addEventListener('pagehide', this.Handle_Page_Hide);
 	}
 
 	get User_Id(): string { return this.user_id; }
@@ -65,8 +184,14 @@ export class CollabSession {
 	get User_Colour(): string { return this.user_colour; }
 	get Room_Id(): string { return this.room_id; }
 	get Is_Host(): boolean { return this.is_host; }
+	get Host_Id(): string | null { return this.host_id; }
 	get Is_Connected(): boolean { return this.connected; }
+	get Permission(): CollabUser['permission'] { return this.permission; }
+	get Invites(): RoomInvites { return this.invites; }
+	// Only the room's creator can make others editors or viewers
+	get Can_Assign_Roles(): boolean { return this.can_assign_roles; }
 	get Users(): CollabUser[] { return Array.from(this.users.values()); }
+	get Pending_Count(): number { return this.outbox.length + this.unacked.size; }
 
 	Set_User_Name(name: string): void {
 		this.user_name = name;
@@ -76,9 +201,31 @@ export class CollabSession {
 	async Connect(): Promise<void> {
 		try {
 			// Negotiate a WebSocket URL from the API
-			const resp = await fetch(`/api/negotiate?room=${encodeURIComponent(this.room_id)}&user=${encodeURIComponent(this.user_id)}`);
+			const query = `room=${encodeURIComponent(this.room_id)}&invite=${encodeURIComponent(this.invite)}&user=${encodeURIComponent(Get_User_Id())}`;
+			const resp = await fetch(`/api/negotiate?${query}`, { headers: await Auth_Headers(this.get_id_token) });
+			if (resp.status === 401 || resp.status === 403) {
+				const { error } = await resp.json().catch(() => ({ error: null }));
+				this.handlers.on_access_denied?.(error || 'You no longer have access to this session');
+				return;
+			}
 			if (!resp.ok) throw new Error(`Negotiate failed: ${resp.status}`);
-			const { url } = await resp.json();
+			const { url, user_id, role, invites, host_id } = await resp.json();
+
+			// The server decides who we are and what we may do
+			if (user_id && user_id !== this.user_id) {
+				if (this.host_id === this.user_id) this.host_id = user_id;
+				this.user_id = user_id;
+				this.user_colour = Get_User_Colour(user_id);
+			}
+			this.invites = invites ?? {};
+			this.can_assign_roles = role === 'host';
+			this.creator_id = host_id ?? null;
+			const permission = this.assigned_permission ?? (role === 'view' ? 'view' : 'edit');
+			if (permission !== this.permission) {
+				this.permission = permission;
+				this.handlers.on_permission_change?.(permission);
+			}
+
 			this.ws = new WebSocket(url, 'json.webpubsub.azure.v1');
 			this.ws.onopen = () => this.Handle_Open();
 			this.ws.onmessage = (e) => this.Handle_Message(e);
@@ -90,19 +237,28 @@ export class CollabSession {
 		}
 	}
 
+	// Leave the room. Edits that haven't been delivered (Pending_Count) are dropped with it.
 	Disconnect(): void {
 		if (this.reconnect_timer) {
 			clearTimeout(this.reconnect_timer);
 			this.reconnect_timer = null;
 		}
+		this.Stop_Timers();
+		window.removeEventListener('pagehide', this.Handle_Page_Hide);
 		if (this.ws) {
 			// Send leave before closing
 			this.Send({ type: 'leave', payload: {} });
+			// Leaving on purpose: don't treat it as a dropped connection
+			this.ws.onclose = null;
+			this.ws.onerror = null;
 			this.ws.close();
 			this.ws = null;
 		}
 		this.connected = false;
 		this.users.clear();
+		this.last_seen.clear();
+		this.outbox = [];
+		this.unacked.clear();
 		this.handlers.on_connection_change?.(false);
 	}
 
@@ -114,17 +270,153 @@ export class CollabSession {
 		this.Send({ type: 'cursor', payload: { ...cursor, pressing } });
 	}
 
-	// Send a canvas operation
+	// Tell the others what we have selected (also sent with presence, for newcomers)
+	Send_Selection(ids: string[]): void {
+		if (ids.length === this.selection.length && ids.every((id, i) => id === this.selection[i])) return;
+		this.selection = ids;
+		this.Send({ type: 'selection', payload: { ids } });
+	}
+
+	// Send outlines of elements being dragged (throttled like the cursor), or null when the drag ends
+	Send_Drag_Preview(outlines: RemoteOutline[] | null): void {
+		const now = Date.now();
+		if (outlines && now - this.preview_throttle < 50) return;
+		this.preview_throttle = outlines ? now : 0;
+		this.Send({ type: 'drag_preview', payload: { outlines } });
+	}
+
+	// Send what part of the board we're looking at, for anyone following us. Throttled, but the
+	// last update always goes out so followers end up where we stopped.
+	Send_View(view: SharedView): void {
+		this.view = view;
+		if (this.view_timer) {
+			this.view_dirty = true;
+			return;
+		}
+		this.Send({ type: 'viewport', payload: view });
+		this.view_timer = setTimeout(() => {
+			this.view_timer = null;
+			if (this.view_dirty && this.view) {
+				this.view_dirty = false;
+				this.Send_View(this.view);
+			}
+		}, VIEW_THROTTLE_MS);
+	}
+
+	// Host: have everyone follow our view
+	Summon(): void {
+		if (this.is_host) this.Send({ type: 'summon', payload: {} });
+	}
+
+	// Host: take everyone through a presentation (null ends it). Also sent with presence, so
+	// people joining part way through catch up.
+	Present(step: PresentationStep | null): void {
+		if (!this.is_host || (!step && !this.presentation)) return;
+		this.presentation = step;
+		this.Send({ type: 'present', payload: { step } });
+	}
+
+	// Send a canvas operation. Queued while disconnected, and kept until the service confirms it.
 	Send_Operation(type: 'op_add' | 'op_update' | 'op_delete', payload: any): void {
-		this.Send({ type, payload });
+		this.outbox.push({ type, payload });
+		this.Flush_Outbox();
+	}
+
+	private Flush_Outbox(): void {
+		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+			this.handlers.on_pending_change?.(this.Pending_Count);
+			return;
+		}
+		for (const op of this.outbox) {
+			const ack_id = this.next_ack_id++;
+			this.unacked.set(ack_id, op);
+			this.Send(op, ack_id);
+		}
+		this.outbox = [];
+		this.handlers.on_pending_change?.(this.Pending_Count);
+	}
+
+	private Handle_Ack(ack_id: number): void {
+		// Failed acks (e.g. we've been made a viewer) are dropped too: resending won't help
+		if (!this.unacked.delete(ack_id)) return;
+		this.handlers.on_pending_change?.(this.Pending_Count);
+	}
+
+	// Make a member an editor or a viewer. The server applies it to their connection, so a viewer
+	// can't send edits whatever their client does. Throws if the server refuses.
+	async Set_User_Permission(user_id: string, permission: CollabUser['permission']): Promise<void> {
+		const user = this.users.get(user_id);
+		if (!user?.connection_id) throw new Error(`${user?.name ?? 'That user'} isn't connected`);
+		this.role_overrides.set(user_id, permission);
+		await this.Apply_Role(user, permission);
+	}
+
+	private async Apply_Role(user: CollabUser, permission: CollabUser['permission']): Promise<void> {
+		const connection_id = user.connection_id!;
+		const query = [
+			`room=${encodeURIComponent(this.room_id)}`,
+			`invite=${encodeURIComponent(this.invite)}`,
+			`user=${encodeURIComponent(Get_User_Id())}`,
+			`target=${encodeURIComponent(user.id)}`,
+			`connection=${encodeURIComponent(connection_id)}`,
+			`role=${permission}`,
+		].join('&');
+		const resp = await fetch(`/api/role?${query}`, { method: 'POST', headers: await Auth_Headers(this.get_id_token) });
+		if (!resp.ok) {
+			const { error } = await resp.json().catch(() => ({ error: null }));
+			throw new Error(error || `Couldn't change ${user.name}'s role (${resp.status})`);
+		}
+		this.applied_roles.set(user.id, connection_id);
+		this.Send({ type: 'permission', payload: { user_id: user.id, permission } });
+		this.Update_User_Permission(user.id, permission);
+	}
+
+	private Update_User_Permission(user_id: string, permission: CollabUser['permission']): void {
+		const user = this.users.get(user_id);
+		if (!user || user.permission === permission) return;
+		user.permission = permission;
+		this.handlers.on_user_update?.({ ...user });
 	}
 
-	// Send full state (host responds to state requests)
-	Send_State(state: CanvasState): void {
-		this.Send({ type: 'state_sync', payload: state });
+	// Ask collaborators for an image asset this device doesn't have
+	Request_Asset(asset_id: string): void {
+		this.Send({ type: 'asset_request', payload: { asset_id } });
 	}
 
-	private Send(partial: { type: CollabMessage['type']; payload: any }): void {
+	// Send full state, to whoever asked for it or (by default) everyone
+	Send_State(state: CanvasState, to: string | null = null): void {
+		this.Send_State_Chunks(state, to).catch(err => console.warn('Collab state send failed:', err));
+	}
+
+	private async Send_State_Chunks(state: CanvasState, to: string | null): Promise<void> {
+		const json = new TextEncoder().encode(JSON.stringify(state));
+		const checksum = await Sha256_Hex(json);
+		const encoding = typeof CompressionStream === 'undefined' ? 'none' : 'gzip';
+		const bytes = encoding === 'gzip' ? await Transform_Bytes(json, new CompressionStream('gzip')) : json;
+		const data = Bytes_To_Base64(bytes);
+
+		const transfer_id = `${this.user_id}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+		const count = Math.max(1, Math.ceil(data.length / STATE_CHUNK_BYTES));
+		const chunks: StateChunk[] = [];
+		for (let index = 0; index < count; index++) {
+			chunks.push({ transfer_id, to, index, count, encoding, checksum, data: data.slice(index * STATE_CHUNK_BYTES, (index + 1) * STATE_CHUNK_BYTES) });
+		}
+		this.state_uploads.set(transfer_id, { chunks, timer: setTimeout(() => this.state_uploads.delete(transfer_id), STATE_KEEP_MS) });
+		console.log(`[Collab] Sending state: ${json.length} bytes as ${count} ${encoding} chunk(s)`);
+		for (const chunk of chunks) this.Send({ type: 'state_chunk', payload: chunk });
+	}
+
+	// Someone is missing pieces of a transfer we sent
+	private Resend_State_Chunks(transfer_id: string, missing: number[], requester_id: string): void {
+		const upload = this.state_uploads.get(transfer_id);
+		if (!upload) return;
+		for (const index of missing) {
+			const chunk = upload.chunks[index];
+			if (chunk) this.Send({ type: 'state_chunk', payload: { ...chunk, to: requester_id } });
+		}
+	}
+
+	private Send(partial: { type: CollabMessage['type']; payload: any }, ack_id?: number): void {
 		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
 		const msg: CollabMessage = {
 			type: partial.type,
@@ -138,9 +430,10 @@ export class CollabSession {
 		// Use Web PubSub's JSON subprotocol format to send to group
 		this.ws.send(JSON.stringify({
 			type: 'sendToGroup',
-			group: this.room_id,
+			group: EDIT_MESSAGES.has(partial.type) || (PRESENCE_MESSAGES.has(partial.type) && this.permission === 'edit') ? this.room_id : `${this.room_id}.all`,
 			dataType: 'json',
 			data: msg,
+			...(ack_id !== undefined ? { ackId: ack_id } : {}),
 		}));
 	}
 
@@ -148,57 +441,236 @@ export class CollabSession {
 		this.connected = true;
 		this.handlers.on_connection_change?.(true);
 
-		// Join the room group
-		this.ws!.send(JSON.stringify({
-			type: 'joinGroup',
-			group: this.room_id,
-		}));
+		// Join the room's groups
+		for (const group of [this.room_id, `${this.room_id}.all`]) {
+			this.ws!.send(JSON.stringify({ type: 'joinGroup', group }));
+		}
 
 		// Announce ourselves
 		setTimeout(() => {
-			this.Send({
-				type: 'join',
-				payload: {
-					name: this.user_name,
-					colour: this.user_colour,
-					is_host: this.is_host,
-				},
-			});
+			this.Send({ type: 'join', payload: this.Presence() });
+			// Edits made while we were offline
+			this.Flush_Outbox();
 
-			// If not host, request the current state
-			if (!this.is_host) {
-				this.Send({ type: 'request_state', payload: {} });
+			// Back after a dropped connection: catch up on what others did meanwhile.
+			// Otherwise, if not host, request the current state.
+			if (this.has_board) {
+				this.resyncing = true;
+				this.Request_State(true);
+			} else if (!this.is_host) {
+				this.Request_State();
 			}
 		}, 200);
+
+		if (this.heartbeat_timer) clearInterval(this.heartbeat_timer);
+		this.heartbeat_timer = setInterval(() => this.Heartbeat(), HEARTBEAT_MS);
+	}
+
+	private Presence(): { name: string; colour: string; is_host: boolean; permission: CollabUser['permission']; connection_id: string | null; selection: string[]; view: SharedView | null; presentation: PresentationStep | null } {
+		return { name: this.user_name, colour: this.user_colour, is_host: this.is_host, permission: this.permission, connection_id: this.connection_id, selection: this.selection, view: this.view, presentation: this.is_host ? this.presentation : null };
 	}
 
+	// Ask for the board, repeating until someone answers. A resync is answered even if we're the
+	// host, by another editor, and given up on once there's nobody else to ask.
+	private Request_State(resync: boolean = false): void {
+		if (this.state_timer) clearTimeout(this.state_timer);
+		this.Send({ type: 'request_state', payload: resync ? { resync: true } : {} });
+		this.state_timer = setTimeout(() => {
+			this.state_timer = null;
+			if (resync ? this.users.size > 0 : !this.is_host) this.Request_State(resync);
+			else this.resyncing = false;
+		}, STATE_RETRY_MS);
+	}
+
+	// Who answers our requests for the board: the host, or when the host is catching up after
+	// a dropped connection, the next editor in line (as in 'request_state' below)
+	private State_Answerer(): string | null {
+		return this.resyncing && this.is_host ? this.Lowest_Editor(this.user_id) : this.host_id;
+	}
+
+	private Heartbeat(): void {
+		this.Send({ type: 'presence', payload: this.Presence() });
+		const cutoff = Date.now() - PEER_TIMEOUT_MS;
+		for (const [id, seen] of this.last_seen) {
+			if (seen < cutoff) this.Remove_User(id);
+		}
+		// Nobody has claimed the room (e.g. the host left before we joined)
+		if (!this.host_id) this.Elect_Host();
+	}
+
+	// A member announcing itself. Whether it's an editor comes from the group the announcement
+	// arrived on (only editors may send to the room's group), not from what it says.
+	private Add_User(msg: CollabMessage, already_present: boolean, editor: boolean): void {
+		const previous = this.users.get(msg.sender_id);
+		const user: CollabUser = {
+			id: msg.sender_id,
+			name: msg.payload.name || msg.sender_name,
+			colour: msg.payload.colour || msg.sender_colour,
+			status: 'viewing',
+			permission: editor ? 'edit' : 'view',
+			connection_id: msg.payload.connection_id ?? undefined,
+			selection: Array.isArray(msg.payload.selection) ? msg.payload.selection : [],
+			view: msg.payload.view ?? previous?.view,
+		};
+		this.users.set(user.id, { ...previous, ...user });
+		if (!previous || !already_present) this.handlers.on_user_join?.(user, already_present);
+		else if (previous.permission !== user.permission) this.handlers.on_user_update?.(user);
+
+		// They've reconnected since we changed their role: the new connection needs it too
+		const assigned = this.role_overrides.get(user.id);
+		if (assigned && user.connection_id && this.applied_roles.get(user.id) !== user.connection_id) {
+			this.applied_roles.set(user.id, user.connection_id);
+			this.Apply_Role(user, assigned).catch(err => {
+				// Try again when we next hear from them
+				this.applied_roles.delete(user.id);
+				console.warn('Collab role change failed:', err);
+			});
+		}
+
+		// Only editors can be host
+		if (msg.payload.is_host && editor) this.Handle_Host_Claim(msg.sender_id);
+		// A peer we had down as host no longer claims it (it lost a conflicting claim): wait to
+		// hear from the winner, or elect one at the next heartbeat
+		else if (msg.sender_id === this.host_id) this.host_id = null;
+		if (msg.sender_id === this.host_id) this.Handle_Presentation(msg.payload.presentation ?? null);
+	}
+
+	// The host's presentation step. Heartbeats repeat it, so only changes are passed on.
+	private Handle_Presentation(step: PresentationStep | null): void {
+		const key = JSON.stringify(step);
+		if (key === this.presented) return;
+		this.presented = key;
+		this.handlers.on_presentation?.(step);
+	}
+
+	private Remove_User(user_id: string): void {
+		this.last_seen.delete(user_id);
+		if (!this.users.delete(user_id)) return;
+		this.handlers.on_user_leave?.(user_id);
+		if (user_id === this.host_id) {
+			this.Handle_Presentation(null);
+			this.Elect_Host();
+		}
+	}
+
+	// The host left: the editor with the lowest id takes over (viewers can't send the board).
+	// Every client knows the same members (from joins and heartbeats), so they all pick the same one.
+	private Elect_Host(): void {
+		const id = this.Lowest_Editor();
+		if (!id) return;
+		this.Set_Host(id);
+		if (this.is_host) this.Send({ type: 'presence', payload: this.Presence() });
+	}
+
+	private Lowest_Editor(exclude: string | null = null): string | null {
+		const ids = this.Users.filter(u => u.permission === 'edit' && u.id !== exclude).map(u => u.id);
+		if (this.permission === 'edit' && this.user_id !== exclude) ids.push(this.user_id);
+		return ids.sort()[0] ?? null;
+	}
+
+	// Another member says it's the host. The room's creator always is. Anyone else is ignored
+	// while the host we know of is still here, except that if we think we're host too (two
+	// elections crossed), the lower id wins.
+	private Handle_Host_Claim(claimant_id: string): void {
+		if (claimant_id === this.host_id) return;
+		if (claimant_id !== this.creator_id) {
+			if (this.is_host) {
+				if (this.user_id === this.creator_id || this.user_id < claimant_id) {
+					this.Send({ type: 'presence', payload: this.Presence() });
+					return;
+				}
+			} else if (this.host_id && this.users.has(this.host_id)) {
+				return;
+			}
+		}
+		this.Set_Host(claimant_id);
+	}
+
+	private Set_Host(host_id: string): void {
+		if (host_id === this.host_id) return;
+		this.host_id = host_id;
+		this.is_host = host_id === this.user_id;
+		if (this.is_host && this.state_timer && !this.resyncing) {
+			clearTimeout(this.state_timer);
+			this.state_timer = null;
+		}
+		this.handlers.on_host_change?.(host_id);
+	}
+
+	private Stop_Timers(): void {
+		if (this.view_timer) {
+			clearTimeout(this.view_timer);
+			this.view_timer = null;
+		}
+		if (this.heartbeat_timer) {
+			clearInterval(this.heartbeat_timer);
+			this.heartbeat_timer = null;
+		}
+		if (this.state_timer) {
+			clearTimeout(this.state_timer);
+			this.state_timer = null;
+		}
+		for (const download of this.state_downloads.values()) {
+			if (download.stall_timer) clearTimeout(download.stall_timer);
+		}
+		this.state_downloads.clear();
+	}
+
+	// Closing the tab: let the others know straight away so a new host can take over
+	private Handle_Page_Hide = (): void => {
+		this.Send({ type: 'leave', payload: {} });
+	};
+
 	private Handle_Message(event: MessageEvent): void {
 		try {
 			const envelope = JSON.parse(event.data);
 
-			// Web PubSub system messages (ack, connected) — skip
+			// Web PubSub system messages (ack, connected) — skip, noting our connection id and delivered edits
+			if (envelope.type === 'system' && envelope.event === 'connected') this.connection_id = envelope.connectionId ?? null;
+			if (envelope.type === 'ack') this.Handle_Ack(envelope.ackId);
 			if (envelope.type === 'ack' || envelope.type === 'connected' || envelope.type === 'system') return;
 
 			// Web PubSub wraps group messages: { type: "message", from: "group", data: { ...our msg... } }
 			const msg: CollabMessage = envelope.data ?? envelope;
 			if (!msg.type || msg.sender_id === this.user_id) return;
+			// The service stamps the sender's verified id; drop messages claiming to be someone else
+			if (envelope.fromUserId && envelope.fromUserId !== msg.sender_id) return;
+			// Edits only count from the room's group: anyone may send to '<room>.all', so edits
+			// addressed there could come from a viewer
+			const on_edit_group = envelope.group === this.room_id;
+			if (EDIT_MESSAGES.has(msg.type) && !on_edit_group) return;
+			if (msg.type !== 'leave') this.last_seen.set(msg.sender_id, Date.now());
 
 			switch (msg.type) {
 				case 'join': {
-					const user: CollabUser = {
-						id: msg.sender_id,
-						name: msg.payload.name || msg.sender_name,
-						colour: msg.payload.colour || msg.sender_colour,
-						status: 'viewing',
-						permission: 'edit',
-					};
-					this.users.set(user.id, user);
-					this.handlers.on_user_join?.(user);
+					this.Add_User(msg, false, on_edit_group);
+					// Let the newcomer know we're here (and who the host is)
+					this.Send({ type: 'presence', payload: this.Presence() });
+					break;
+				}
+				case 'presence': {
+					this.Add_User(msg, true, on_edit_group);
 					break;
 				}
 				case 'leave': {
-					this.users.delete(msg.sender_id);
-					this.handlers.on_user_leave?.(msg.sender_id);
+					this.Remove_User(msg.sender_id);
+					break;
+				}
+				case 'permission': {
+					// The server has already applied it; this just keeps everyone's view in step
+					if (msg.sender_id !== this.host_id) break;
+					const { user_id, permission } = msg.payload;
+					if (permission !== 'edit' && permission !== 'view') break;
+					if (user_id === this.user_id) {
+						this.assigned_permission = permission;
+						if (permission !== this.permission) {
+							this.permission = permission;
+							this.handlers.on_permission_change?.(permission);
+							this.Send({ type: 'presence', payload: this.Presence() });
+						}
+					} else {
+						this.Update_User_Permission(user_id, permission);
+					}
 					break;
 				}
 				case 'cursor': {
@@ -210,21 +682,64 @@ export class CollabSession {
 					this.handlers.on_cursor_move?.(msg.sender_id, msg.payload, msg.sender_name, msg.sender_colour);
 					break;
 				}
-				case 'state_sync': {
-					this.handlers.on_state_sync?.(msg.payload);
+				case 'selection': {
+					const ids: string[] = Array.isArray(msg.payload.ids) ? msg.payload.ids : [];
+					const user = this.users.get(msg.sender_id);
+					if (user) user.selection = ids;
+					this.handlers.on_selection_change?.(msg.sender_id, ids);
+					break;
+				}
+				case 'viewport': {
+					const user = this.users.get(msg.sender_id);
+					if (user) user.view = msg.payload;
+					this.handlers.on_view_change?.(msg.sender_id, msg.payload);
+					break;
+				}
+				case 'summon': {
+					if (msg.sender_id === this.host_id) this.handlers.on_summon?.(msg.sender_id);
+					break;
+				}
+				case 'present': {
+					if (msg.sender_id === this.host_id) this.Handle_Presentation(msg.payload.step ?? null);
+					break;
+				}
+				case 'drag_preview': {
+					const outlines: RemoteOutline[] | null = Array.isArray(msg.payload.outlines) ? msg.payload.outlines : null;
+					const user = this.users.get(msg.sender_id);
+					if (user) user.drag_preview = outlines ?? undefined;
+					this.handlers.on_drag_preview?.(msg.sender_id, outlines);
+					break;
+				}
+				case 'state_chunk': {
+					this.Handle_State_Chunk(msg.sender_id, msg.payload);
 					break;
 				}
 				case 'request_state': {
-					// If we're host, respond with current state
-					if (this.is_host) {
+					// Pieces missing from an earlier transfer: whoever sent it fills them in
+					const { transfer_id, missing } = msg.payload ?? {};
+					if (transfer_id) {
+						this.Resend_State_Chunks(transfer_id, Array.isArray(missing) ? missing : [], msg.sender_id);
+						break;
+					}
+					// The host answers, unless it's the host catching up: then the next editor in line does
+					const answerer = msg.payload?.resync && msg.sender_id === this.host_id ? this.Lowest_Editor(msg.sender_id) : this.host_id;
+					if (answerer === this.user_id) {
 						const state = this.handlers.on_state_requested?.();
 						if (state) {
 							console.log('[Collab] Sending state sync:', state.shapes?.length, 'shapes,', state.connectors?.length, 'connectors,', state.freehand_paths?.length, 'paths');
-							this.Send_State(state);
+							this.Send_State(state, msg.sender_id);
 						}
 					}
 					break;
 				}
+				case 'asset_request': {
+					this.Handle_Asset_Request(msg.payload.asset_id);
+					break;
+				}
+				case 'asset_chunk': {
+					this.Handle_Asset_Chunk(msg.payload);
+					break;
+				}
 				case 'op_add':
 				case 'op_update':
 				case 'op_delete': {
@@ -239,8 +754,120 @@ export class CollabSession {
 		}
 	}
 
+	private Handle_State_Chunk(sender_id: string, chunk: StateChunk): void {
+		if (chunk.to && chunk.to !== this.user_id) return;
+		// A board sent to us must come from whoever we asked (pieces of a transfer, from whoever
+		// started it). Boards sent to everyone (a board loaded or cleared) can come from any editor.
+		const download_sender = this.state_downloads.get(chunk.transfer_id)?.sender_id;
+		if (download_sender ? sender_id !== download_sender : chunk.to && sender_id !== this.State_Answerer()) return;
+		// Someone's answering: stop asking
+		if (this.state_timer) {
+			clearTimeout(this.state_timer);
+			this.state_timer = null;
+		}
+
+		let download = this.state_downloads.get(chunk.transfer_id);
+		if (!download) {
+			// A newer board replaces any we were still receiving
+			for (const old of this.state_downloads.values()) {
+				if (old.stall_timer) clearTimeout(old.stall_timer);
+			}
+			this.state_downloads.clear();
+			download = { sender_id, chunks: new Array(chunk.count), received: 0, stall_timer: null, retries: 0 };
+			this.state_downloads.set(chunk.transfer_id, download);
+		}
+		if (download.chunks[chunk.index] !== undefined) return;
+		download.chunks[chunk.index] = chunk.data;
+		download.received++;
+		this.handlers.on_state_progress?.(download.received, chunk.count);
+
+		if (download.stall_timer) clearTimeout(download.stall_timer);
+		download.stall_timer = null;
+		if (download.received < chunk.count) {
+			download.stall_timer = setTimeout(() => this.Handle_State_Stall(chunk.transfer_id), STATE_STALL_MS);
+			return;
+		}
+
+		this.state_downloads.delete(chunk.transfer_id);
+		const merge = this.resyncing && chunk.to === this.user_id;
+		Decode_State(download.chunks.join(''), chunk.encoding, chunk.checksum)
+			.then(state => {
+				if (merge) this.resyncing = false;
+				this.has_board = true;
+				this.handlers.on_state_sync?.(state, merge);
+			})
+			.catch(err => {
+				console.warn('Collab state transfer failed, asking again:', err);
+				this.Request_State();
+			});
+	}
+
+	// Pieces stopped arriving: ask for the missing ones, or the whole board again if that keeps failing
+	private Handle_State_Stall(transfer_id: string): void {
+		const download = this.state_downloads.get(transfer_id);
+		if (!download) return;
+		download.stall_timer = null;
+		if (++download.retries > STATE_STALL_RETRIES || !this.users.has(download.sender_id)) {
+			this.state_downloads.delete(transfer_id);
+			this.handlers.on_state_progress?.(0, 0);
+			this.Request_State();
+			return;
+		}
+		const missing: number[] = [];
+		for (let index = 0; index < download.chunks.length; index++) {
+			if (download.chunks[index] === undefined) missing.push(index);
+		}
+		this.Send({ type: 'request_state', payload: { transfer_id, missing } });
+		download.stall_timer = setTimeout(() => this.Handle_State_Stall(transfer_id), STATE_STALL_MS);
+	}
+
+	private Handle_Asset_Request(asset_id: string): void {
+		if (this.asset_replies.has(asset_id)) return;
+		const timer = setTimeout(async () => {
+			this.asset_replies.delete(asset_id);
+			const blob = await Get_Asset(asset_id);
+			if (!blob) return;
+			const count = Math.max(1, Math.ceil(blob.size / ASSET_CHUNK_BYTES));
+			for (let index = 0; index < count; index++) {
+				const piece = blob.slice(index * ASSET_CHUNK_BYTES, (index + 1) * ASSET_CHUNK_BYTES);
+				const data = (await Blob_To_Data_Url(piece)).split(',')[1] ?? '';
+				this.Send({ type: 'asset_chunk', payload: { asset_id, mime: blob.type, index, count, data } });
+			}
+		}, Math.random() * ASSET_REPLY_JITTER_MS);
+		this.asset_replies.set(asset_id, timer);
+	}
+
+	private Handle_Asset_Chunk(payload: { asset_id: string; mime: string; index: number; count: number; data: string }): void {
+		const { asset_id, mime, index, count, data } = payload;
+
+		// Someone else is already answering this request
+		const reply = this.asset_replies.get(asset_id);
+		if (reply) {
+			clearTimeout(reply);
+			this.asset_replies.delete(asset_id);
+		}
+
+		let download = this.asset_downloads.get(asset_id);
+		if (!download || download.chunks.length !== count) {
+			download = { mime, chunks: new Array(count), received: 0 };
+			this.asset_downloads.set(asset_id, download);
+		}
+		if (download.chunks[index] !== undefined) return;
+		download.chunks[index] = data;
+		if (++download.received < count) return;
+
+		this.asset_downloads.delete(asset_id);
+		const parts = download.chunks.map(b64 => Uint8Array.from(atob(b64), c => c.charCodeAt(0)));
+		Store_Asset(asset_id, new Blob(parts, { type: download.mime })).catch(err => console.warn('Failed to store asset:', err));
+	}
+
 	private Handle_Close(): void {
+		this.Stop_Timers();
 		this.connected = false;
+		// Edits the service never confirmed go out again (in order) once we're back
+		this.outbox = [...Array.from(this.unacked.keys()).sort((a, b) => a - b).map(id => this.unacked.get(id)!), ...this.outbox];
+		this.unacked.clear();
+		this.handlers.on_pending_change?.(this.Pending_Count);
 		this.handlers.on_connection_change?.(false);
 		this.Schedule_Reconnect();
 	}
@@ -254,17 +881,70 @@ export class CollabSession {
 	}
 }
 
-// Generate a short room ID for sharing
-export function Generate_Room_Id(): string {
-	const chars = 'abcdefghijkmnpqrstuvwxyz23456789';
-	let id = '';
-	for (let i = 0; i < 6; i++) {
-		id += chars[Math.floor(Math.random() * chars.length)];
+async function Sha256_Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+	return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Run bytes through a (de)compression stream
+async function Transform_Bytes(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+	return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+}
+
+function Bytes_To_Base64(bytes: Uint8Array): string {
+	let binary = '';
+	// In slices, as spreading a large array into fromCharCode overflows the stack
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
 	}
-	return id;
+	return btoa(binary);
+}
+
+// Reassembled transfer → board, checking it arrived intact
+async function Decode_State(data: string, encoding: StateChunk['encoding'], checksum: string): Promise<CanvasState> {
+	let bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+	if (encoding === 'gzip') bytes = await Transform_Bytes(bytes, new DecompressionStream('gzip'));
+	if (await Sha256_Hex(bytes) !== checksum) throw new Error('State checksum mismatch');
+	return JSON.parse(new TextDecoder().decode(bytes));
 }
 
-// Build a shareable URL from a room ID
-export function Share_Url(room_id: string): string {
-	return `${window.location.origin}${window.location.pathname}?room=${room_id}`;
+async function Auth_Headers(get_id_token: IdTokenSource | null): Promise<Record<string, string>> {
+	const token = await get_id_token?.().catch(() => null);
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Create a room on the server. Returns its id and our host invite for joining it.
+export async function Create_Room(get_id_token: IdTokenSource | null = null): Promise<{ room_id: string; invite: string }> {
+	const resp = await fetch(`/api/negotiate?create=1&user=${encodeURIComponent(Get_User_Id())}`, { headers: await Auth_Headers(get_id_token) });
+	if (!resp.ok) {
+		const { error } = await resp.json().catch(() => ({ error: null }));
+		throw new Error(error || `Couldn't start a session (${resp.status})`);
+	}
+	const { room, invite } = await resp.json();
+	return { room_id: room, invite };
+}
+
+// Build a shareable URL from a room ID and invite
+export function Share_Url(room_id: string, invite: string): string {
+	return `${window.location.origin}${window.location.pathname}?room=${room_id}&invite=${encodeURIComponent(invite)}`;
+}
+
+// Read a pasted invite link, or a bare invite code (which names its room)
+export function Parse_Invite(text: string): { room_id: string; invite: string } | null {
+	const trimmed = text.trim();
+	try {
+		const params = new URL(trimmed).searchParams;
+		const room_id = params.get('room');
+		const invite = params.get('invite');
+		return room_id && invite ? { room_id, invite } : null;
+	} catch {
+		// Not a URL
+	}
+	try {
+		const payload = trimmed.split('.')[0].replace(/-/g, '+').replace(/_/g, '/');
+		const { room } = JSON.parse(atob(payload));
+		return typeof room === 'string' ? { room_id: room, invite: trimmed } : null;
+	} catch {
+		return null;
+	}
 }
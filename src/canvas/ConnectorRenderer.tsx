@@ -1,20 +1,38 @@
-import type { Connector, Shape, Point } from './types';
-import { Port_Position, Port_Outward_Normal, Default_Control_Points, Point_At_T } from './helpers';
+import { useRef } from 'react';
+import type { Connector, Shape, Point, PortSide } from './types';
+import { Port_Position, Port_Outward_Normal, Default_Control_Points, Point_At_T, Rotated_Shape_Bounds, Port_Facing_Side } from './helpers';
+import { Route_Orthogonal, Route_Search_Area } from './router';
+import { Is_Frame } from './frames';
+import type { SpatialIndex } from './spatial';
 
 interface ConnectorRendererProps {
 	connector: Connector;
 	shapes: Shape[];
+	spatial_index: SpatialIndex;
 	is_selected: boolean;
 	on_pointer_down: (e: React.PointerEvent, connector: Connector) => void;
+	on_double_click?: (e: React.MouseEvent, connector: Connector) => void;
 	on_control_point_drag?: (connector_id: string, cp_index: number, e: React.PointerEvent) => void;
 	on_endpoint_drag?: (connector_id: string, end: 'source' | 'target', e: React.PointerEvent) => void;
 	on_label_t_drag?: (connector_id: string, e: React.PointerEvent) => void;
 }
 
-export function ConnectorRenderer({ connector, shapes, is_selected, on_pointer_down, on_control_point_drag, on_endpoint_drag, on_label_t_drag }: ConnectorRendererProps) {
+export function ConnectorRenderer({ connector, shapes, spatial_index, is_selected, on_pointer_down, on_double_click, on_control_point_drag, on_endpoint_drag, on_label_t_drag }: ConnectorRendererProps) {
 	const source = Resolve_End(connector.source, shapes);
 	const target = Resolve_End(connector.target, shapes);
 
+	// Routing is slow, so the route is only worked out again when its ends move or a shape
+	// near them changes
+	const route = useRef<{ key: string; path: Point[] } | null>(null);
+	const inputs = source && target ? Route_Inputs(connector, shapes, spatial_index, source, target) : null;
+	if (inputs && route.current?.key !== inputs.key) {
+		const obstacles = inputs.obstacles.map(Rotated_Shape_Bounds);
+		const path = Route_Orthogonal(inputs.from, inputs.to, inputs.from_side, inputs.to_side, obstacles)
+			?? Orthogonal_Path(inputs.from, inputs.to, inputs.from_side, inputs.to_side);
+		route.current = { key: inputs.key, path };
+	}
+	const ortho_path = inputs && route.current!.path;
+
 	if (!source || !target) return null;
 
 	const { stroke, stroke_width } = connector.style;
@@ -47,7 +65,7 @@ export function ConnectorRenderer({ connector, shapes, is_selected, on_pointer_d
 		const label_pt = connector.label ? Bezier_At_T(source, cp[0], cp[1], target, connector.label_t ?? 0.5) : null;
 
 		return (
-			<g onPointerDown={(e) => on_pointer_down(e, connector)} data-connector-id={connector.id}>
+			<g onPointerDown={(e) => on_pointer_down(e, connector)} onDoubleClick={(e) => on_double_click?.(e, connector)} data-connector-id={connector.id}>
 				{/* Fat invisible hit area */}
 				<path d={d} fill="none" stroke="transparent" strokeWidth={12} style={{ cursor: 'pointer' }} />
 				{/* Visible curve */}
@@ -79,46 +97,35 @@ export function ConnectorRenderer({ connector, shapes, is_selected, on_pointer_d
 		);
 	}
 
-	// Use orthogonal routing when both ends are bound to shape ports and routing is ortho
-	const use_ortho = routing === 'ortho' && connector.source.shape_id && connector.target.shape_id
-		&& connector.source.port_id && connector.target.port_id;
-
-	if (use_ortho) {
-		const src_shape = shapes.find(s => s.id === connector.source.shape_id);
-		const tgt_shape = shapes.find(s => s.id === connector.target.shape_id);
-		const src_port = src_shape?.ports.find(p => p.id === connector.source.port_id);
-		const tgt_port = tgt_shape?.ports.find(p => p.id === connector.target.port_id);
-
-		if (src_port && tgt_port) {
-			const path = Orthogonal_Path(source, target, src_port.side, tgt_port.side);
-
-			const target_arrow = (arrow_type === 'forward' || arrow_type === 'both')
-				? Arrow_Head(path[path.length - 2] || source, target, stroke_width)
-				: null;
-			const source_arrow = (arrow_type === 'back' || arrow_type === 'both')
-				? Arrow_Head(path[1] || target, source, stroke_width)
-				: null;
-
-			const label_pt = connector.label ? Polyline_At_T(path, connector.label_t ?? 0.5) : null;
-
-			return (
-				<g onPointerDown={(e) => on_pointer_down(e, connector)} data-connector-id={connector.id}>
-					<polyline points={path.map(p => `${p.x},${p.y}`).join(' ')}
-						fill="none" stroke="transparent" strokeWidth={12} style={{ cursor: 'pointer' }} />
-					<polyline points={path.map(p => `${p.x},${p.y}`).join(' ')}
-						fill="none" stroke={active_stroke} strokeWidth={active_width} pointerEvents="none" />
-					{target_arrow && <polygon points={Arrow_Points(target_arrow)} fill={active_stroke} pointerEvents="none" />}
-					{source_arrow && <polygon points={Arrow_Points(source_arrow)} fill={active_stroke} pointerEvents="none" />}
-					{label_pt && <Label_Group connector={connector} label_pt={label_pt} is_selected={is_selected} on_label_t_drag={on_label_t_drag} />}
-					{is_selected && (
-						<>
-							<EndpointHandle pt={source} end="source" connector_id={connector.id} on_drag={on_endpoint_drag} />
-							<EndpointHandle pt={target} end="target" connector_id={connector.id} on_drag={on_endpoint_drag} />
-						</>
-					)}
-				</g>
-			);
-		}
+	// Orthogonal routing when both ends are bound to shape ports and routing is ortho
+	if (ortho_path) {
+		const path = ortho_path;
+		const target_arrow = (arrow_type === 'forward' || arrow_type === 'both')
+			? Arrow_Head(path[path.length - 2] || source, target, stroke_width)
+			: null;
+		const source_arrow = (arrow_type === 'back' || arrow_type === 'both')
+			? Arrow_Head(path[1] || target, source, stroke_width)
+			: null;
+
+		const label_pt = connector.label ? Polyline_At_T(path, connector.label_t ?? 0.5) : null;
+
+		return (
+			<g onPointerDown={(e) => on_pointer_down(e, connector)} onDoubleClick={(e) => on_double_click?.(e, connector)} data-connector-id={connector.id}>
+				<polyline points={path.map(p => `${p.x},${p.y}`).join(' ')}
+					fill="none" stroke="transparent" strokeWidth={12} style={{ cursor: 'pointer' }} />
+				<polyline points={path.map(p => `${p.x},${p.y}`).join(' ')}
+					fill="none" stroke={active_stroke} strokeWidth={active_width} pointerEvents="none" />
+				{target_arrow && <polygon points={Arrow_Points(target_arrow)} fill={active_stroke} pointerEvents="none" />}
+				{source_arrow && <polygon points={Arrow_Points(source_arrow)} fill={active_stroke} pointerEvents="none" />}
+				{label_pt && <Label_Group connector={connector} label_pt={label_pt} is_selected={is_selected} on_label_t_drag={on_label_t_drag} />}
+				{is_selected && (
+					<>
+						<EndpointHandle pt={source} end="source" connector_id={connector.id} on_drag={on_endpoint_drag} />
+						<EndpointHandle pt={target} end="target" connector_id={connector.id} on_drag={on_endpoint_drag} />
+					</>
+				)}
+			</g>
+		);
 	}
 
 	// Straight line fallback
@@ -132,7 +139,7 @@ export function ConnectorRenderer({ connector, shapes, is_selected, on_pointer_d
 	const label_pt = connector.label ? Point_At_T(source, target, connector.label_t ?? 0.5) : null;
 
 	return (
-		<g onPointerDown={(e) => on_pointer_down(e, connector)} data-connector-id={connector.id}>
+		<g onPointerDown={(e) => on_pointer_down(e, connector)} onDoubleClick={(e) => on_double_click?.(e, connector)} data-connector-id={connector.id}>
 			<line x1={source.x} y1={source.y} x2={target.x} y2={target.y}
 				stroke="transparent" strokeWidth={12} style={{ cursor: 'pointer' }} />
 			<line x1={source.x} y1={source.y} x2={target.x} y2={target.y}
@@ -150,7 +157,7 @@ export function ConnectorRenderer({ connector, shapes, is_selected, on_pointer_d
 	);
 }
 
-// Build an L-shaped or S-shaped orthogonal path between two ports
+// Build an L-shaped or S-shaped orthogonal path between two ports (fallback when routing fails)
 function Orthogonal_Path(
 	from: Point, to: Point,
 	from_side: string, to_side: string,
@@ -200,6 +207,29 @@ function Orthogonal_Path(
 	return points;
 }
 
+// What an orthogonal route depends on, or null when the connector isn't routed orthogonally.
+// The route goes around the shapes near its ends, other than frames (connectors run in and out
+// of them); Orthogonal_Path is the simple L/S bend used when there's no way round. 'key'
+// changes whenever any of this does.
+function Route_Inputs(connector: Connector, shapes: Shape[], spatial_index: SpatialIndex, from: Point, to: Point): { from: Point; to: Point; from_side: PortSide; to_side: PortSide; obstacles: Shape[]; key: string } | null {
+	if ((connector.routing ?? 'ortho') !== 'ortho') return null;
+	const src_shape = shapes.find(s => s.id === connector.source.shape_id);
+	const tgt_shape = shapes.find(s => s.id === connector.target.shape_id);
+	const src_port = src_shape?.ports.find(p => p.id === connector.source.port_id);
+	const tgt_port = tgt_shape?.ports.find(p => p.id === connector.target.port_id);
+	if (!src_shape || !tgt_shape || !src_port || !tgt_port) return null;
+	const from_side = Port_Facing_Side(src_shape, src_port);
+	const to_side = Port_Facing_Side(tgt_shape, tgt_port);
+	const obstacles: Shape[] = [];
+	for (const entry of spatial_index.Query(Route_Search_Area(from, to, from_side, to_side))) {
+		if (entry.kind === 'shape' && !Is_Frame(entry.item)) obstacles.push(entry.item);
+	}
+	// Query order depends on the index's layout, so sort for a stable key
+	const versions = obstacles.map(s => `${s.id}@${spatial_index.Version(s.id)}`).sort();
+	const key = `${from.x},${from.y},${from_side},${to.x},${to.y},${to_side};${versions.join(';')}`;
+	return { from, to, from_side, to_side, obstacles, key };
+}
+
 function Extend_Point(p: Point, side: string, dist: number): Point {
 	switch (side) {
 		case 'top': return { x: p.x, y: p.y - dist };
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
-import type { Shape, ShapeStyle, Connector, ArrowType, ConnectorRouting, FreehandPath, CollabUser } from './types';
+import type { Shape, ShapeStyle, TextAlign, TextVerticalAlign, Bounds, Connector, ArrowType, ConnectorRouting, FreehandPath, FreehandStyle, CollabUser } from './types';
 import { PresenceAvatars } from './RemoteCursors';
 import { CollabSession, Share_Url } from './Collaboration';
+import { STICKY_COLOURS } from './sticky';
+import type { AlignEdge, DistributeAxis } from './align';
+import { DEFAULT_THINNING, DEFAULT_STREAMLINE, DEFAULT_TAPER, Pen_Variant } from './pen';
 
 function Use_Is_Mobile(breakpoint = 640): boolean {
 	const [is_mobile, set_is_mobile] = useState(window.innerWidth < breakpoint);
@@ -19,18 +22,28 @@ interface PropertiesPanelProps {
 	selected_freehand: FreehandPath[];
 	on_style_change: (changes: Partial<ShapeStyle>) => void;
 	on_position_change: (changes: { x?: number; y?: number; width?: number; height?: number; rotation?: number }) => void;
+	on_image_crop_change: (crop: Bounds) => void;
 	on_text_change: (text: string) => void;
 	on_rounded_change: (rounded: boolean) => void;
 	on_z_order: (action: 'bring_front' | 'send_back' | 'bring_forward' | 'send_backward') => void;
 	on_connector_change: (changes: Partial<Pick<Connector, 'arrow_type' | 'routing'> & { stroke: string; stroke_width: number }>) => void;
-	on_freehand_change: (changes: Partial<{ stroke: string; stroke_width: number }>) => void;
+	on_freehand_change: (changes: Partial<FreehandStyle>) => void;
+	on_stack_notes: () => void;
+	// Number of separately selected things (a group counts once), for align and distribute
+	unit_count: number;
+	on_align: (edge: AlignEdge) => void;
+	on_distribute: (axis: DistributeAxis) => void;
 	collab_session: CollabSession | null;
 	collab_connected: boolean;
+	collab_pending: number;
 	remote_users: CollabUser[];
 	on_start_sharing: () => void;
 	on_stop_sharing: () => void;
 	allow_remote_editing: boolean;
 	on_toggle_remote_editing: (allowed: boolean) => void;
+	on_set_user_permission: (user_id: string, permission: CollabUser['permission']) => void;
+	following_id: string | null;
+	on_follow: (user_id: string | null) => void;
 	remote_editing_blocked: boolean;
 }
 
@@ -72,6 +85,9 @@ const COLOUR_PAGES = [
 	},
 ];
 
+// Sticky notes get their paper colours first
+const STICKY_COLOUR_PAGES = [{ name: 'Paper', colours: STICKY_COLOURS }, ...COLOUR_PAGES];
+
 function CreatedByTag({ name }: { name?: string }) {
 	if (!name) return null;
 	return (
@@ -102,23 +118,34 @@ export function PropertiesPanel({
 	selected_freehand,
 	on_style_change,
 	on_position_change,
+	on_image_crop_change,
 	on_text_change,
 	on_rounded_change,
 	on_z_order,
 	on_connector_change,
 	on_freehand_change,
+	on_stack_notes,
+	unit_count,
+	on_align,
+	on_distribute,
 	collab_session,
 	collab_connected,
+	collab_pending,
 	remote_users,
 	on_start_sharing,
 	on_stop_sharing,
 	allow_remote_editing,
 	on_toggle_remote_editing,
+	on_set_user_permission,
+	following_id,
+	on_follow,
 	remote_editing_blocked,
 }: PropertiesPanelProps) {
-	const [active_tab, set_active_tab] = useState<'style' | 'text' | 'arrange'>('style');
+	const [active_tab, set_active_tab] = useState<'style' | 'text' | 'image' | 'arrange'>('style');
 	const [copied, set_copied] = useState(false);
 	const [copied_code, set_copied_code] = useState(false);
+	// Which kind of invite the share link/code hands out
+	const [share_role, set_share_role] = useState<'edit' | 'view'>('edit');
 	const is_mobile = Use_Is_Mobile();
 	const [mobile_panel_open, set_mobile_panel_open] = useState(false);
 
@@ -131,9 +158,12 @@ export function PropertiesPanel({
 	const wrapper_style = is_mobile ? panel_wrapper_mobile_style : panel_wrapper_style;
 	const p_style = is_mobile ? panel_mobile_style : panel_style;
 
+	// Viewers can only pass on view invites
+	const share_invite = collab_session ? collab_session.Invites[share_role] ?? collab_session.Invites.view ?? '' : '';
+
 	function Handle_Copy_Link() {
 		if (!collab_session) return;
-		const url = Share_Url(collab_session.Room_Id);
+		const url = Share_Url(collab_session.Room_Id, share_invite);
 		navigator.clipboard.writeText(url);
 		set_copied(true);
 		setTimeout(() => set_copied(false), 2000);
@@ -141,7 +171,7 @@ export function PropertiesPanel({
 
 	function Handle_Copy_Code() {
 		if (!collab_session) return;
-		navigator.clipboard.writeText(collab_session.Room_Id);
+		navigator.clipboard.writeText(share_invite);
 		set_copied_code(true);
 		setTimeout(() => set_copied_code(false), 2000);
 	}
@@ -155,7 +185,13 @@ export function PropertiesPanel({
 		}}>
 			<div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
 				{collab_session && (
-					<PresenceAvatars users={remote_users} self_name={collab_session.User_Name} />
+					<PresenceAvatars
+						users={remote_users}
+						self_name={collab_session.User_Name}
+						on_set_permission={collab_session.Can_Assign_Roles ? on_set_user_permission : undefined}
+						following_id={following_id}
+						on_follow={on_follow}
+					/>
 				)}
 				{!collab_session ? (
 					<button
@@ -178,7 +214,7 @@ export function PropertiesPanel({
 							cursor: 'pointer',
 							boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
 						}}
-					>{collab_connected ? '● Live' : '○ Connecting...'}</button>
+					>{collab_connected ? '● Live' : collab_pending > 0 ? `○ Reconnecting... ${collab_pending} pending change${collab_pending === 1 ? '' : 's'}` : '○ Connecting...'}</button>
 				)}
 			</div>
 
@@ -189,12 +225,30 @@ export function PropertiesPanel({
 					padding: 10, boxShadow: '0 2px 8px rgba(0,0,0,0.1)', width: 260,
 					boxSizing: 'border-box',
 				}} onPointerDown={e => e.stopPropagation()}>
-					{/* Room code */}
+					{/* Invite role — editors can hand out edit or view-only invites */}
+					{collab_session.Invites.edit && (
+						<div style={{ display: 'flex', gap: 4, marginBottom: 8 }}>
+							{(['edit', 'view'] as const).map(role => (
+								<button
+									key={role}
+									onClick={() => set_share_role(role)}
+									style={{
+										flex: 1, padding: '3px 0', borderRadius: 4, fontSize: 11, cursor: 'pointer',
+										border: share_role === role ? '1px solid #2196F3' : '1px solid #e0e0e0',
+										background: share_role === role ? '#e3f2fd' : '#fff',
+										color: share_role === role ? '#1565C0' : '#555',
+										fontWeight: share_role === role ? 600 : 400,
+									}}
+								>{role === 'edit' ? '✏️ Can edit' : '👁 View only'}</button>
+							))}
+						</div>
+					)}
+					{/* Invite code */}
 					<div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 8 }}>
-						<span style={{ fontSize: 11, fontWeight: 600, color: '#1565C0', whiteSpace: 'nowrap' }}>Room:</span>
+						<span style={{ fontSize: 11, fontWeight: 600, color: '#1565C0', whiteSpace: 'nowrap' }}>Code:</span>
 						<input
 							readOnly
-							value={collab_session.Room_Id}
+							value={share_invite}
 							style={{
 								flex: 1, minWidth: 0, fontSize: 13, fontWeight: 700, color: '#333',
 								letterSpacing: '1.5px', fontFamily: 'monospace',
@@ -215,7 +269,7 @@ export function PropertiesPanel({
 					{/* Share URL */}
 					<input
 						readOnly
-						value={Share_Url(collab_session.Room_Id)}
+						value={Share_Url(collab_session.Room_Id, share_invite)}
 						style={{
 							display: 'block', width: '100%', fontSize: 10, color: '#666', background: '#f5f5f5',
 							borderRadius: 4, padding: '4px 6px', marginBottom: 8,
@@ -237,12 +291,23 @@ export function PropertiesPanel({
 							Allow remote editing
 						</label>
 					)}
+					{collab_session.Is_Host && remote_users.length > 0 && (
+						<button
+							onClick={() => collab_session.Summon()}
+							title="Everyone follows your view until they pan or zoom"
+							style={{
+								width: '100%', padding: '4px 0', marginBottom: 8, borderRadius: 4,
+								border: '1px solid #c8e1ff', background: '#e3f2fd', color: '#1565C0',
+								fontSize: 11, fontWeight: 600, cursor: 'pointer',
+							}}
+						>📍 Bring everyone to me</button>
+					)}
 					{/* Read-only indicator for guests */}
 					{!collab_session.Is_Host && remote_editing_blocked && (
 						<div style={{
 							fontSize: 11, color: '#b71c1c', background: '#ffebee', borderRadius: 4,
 							padding: '4px 8px', marginBottom: 8, textAlign: 'center', fontWeight: 600,
-						}}>🔒 Editing disabled by host</div>
+						}}>{collab_session.Permission === 'view' ? '👁 View only' : '🔒 Editing disabled by host'}</div>
 					)}
 					<button
 						onClick={Handle_Copy_Link}
@@ -319,6 +384,9 @@ export function PropertiesPanel({
 
 	const shape = selected_shapes[0];
 	const style = shape.style;
+	const tabs = shape.type === 'image' ? ['image', 'arrange'] as const : ['style', 'text', 'arrange'] as const;
+	const tab_shown = (tabs as readonly string[]).includes(active_tab) ? active_tab : tabs[0];
+	const sticky_count = selected_shapes.filter(s => s.type === 'sticky').length;
 
 	if (is_mobile && !mobile_panel_open) return <>{collab_controls}</>;
 	return (
@@ -328,7 +396,7 @@ export function PropertiesPanel({
 			{is_mobile && <MobileHandle on_close={() => set_mobile_panel_open(false)} />}
 			{/* Tabs */}
 			<div style={{ display: 'flex', borderBottom: '1px solid #e0e0e0' }}>
-				{(['style', 'text', 'arrange'] as const).map(tab => (
+				{tabs.map(tab => (
 					<button
 						key={tab}
 						onClick={() => set_active_tab(tab)}
@@ -336,12 +404,12 @@ export function PropertiesPanel({
 							flex: 1,
 							padding: '10px 4px',
 							border: 'none',
-							borderBottom: active_tab === tab ? '2px solid #2196F3' : '2px solid transparent',
+							borderBottom: tab_shown === tab ? '2px solid #2196F3' : '2px solid transparent',
 							background: 'none',
 							cursor: 'pointer',
 							fontSize: 12,
 							fontWeight: 500,
-							color: active_tab === tab ? '#2196F3' : '#888',
+							color: tab_shown === tab ? '#2196F3' : '#888',
 							textTransform: 'uppercase',
 							letterSpacing: 0.5,
 							fontFamily: 'inherit',
@@ -354,15 +422,21 @@ export function PropertiesPanel({
 			</div>
 
 			<div style={{ padding: 12, overflowY: 'auto', flex: 1 }}>
-				{active_tab === 'style' && (
+				{sticky_count > 1 && !remote_editing_blocked && (
+					<button onClick={on_stack_notes} style={stack_btn_style} title="Tidy the selected notes into a grid">
+						▦ Stack {sticky_count} notes
+					</button>
+				)}
+				{tab_shown === 'style' && (
 					<StyleTab
 						style={style}
+						pages={shape.type === 'sticky' ? STICKY_COLOUR_PAGES : COLOUR_PAGES}
 						on_style_change={on_style_change}
 						on_rounded_change={on_rounded_change}
 						is_rounded={shape.style.rounded ?? false}
 					/>
 				)}
-				{active_tab === 'text' && (
+				{tab_shown === 'text' && (
 					<TextTab
 						text={shape.text}
 						style={style}
@@ -370,9 +444,20 @@ export function PropertiesPanel({
 						on_style_change={on_style_change}
 					/>
 				)}
-				{active_tab === 'arrange' && (
+				{tab_shown === 'image' && shape.image && (
+					<ImageTab
+						style={style}
+						crop={shape.image.crop ?? { x: 0, y: 0, width: 1, height: 1 }}
+						on_style_change={on_style_change}
+						on_crop_change={on_image_crop_change}
+					/>
+				)}
+				{tab_shown === 'arrange' && (
 					<ArrangeTab
 						shape={shape}
+						unit_count={remote_editing_blocked ? 0 : unit_count}
+						on_align={on_align}
+						on_distribute={on_distribute}
 						on_position_change={on_position_change}
 						on_z_order={on_z_order}
 					/>
@@ -384,14 +469,15 @@ export function PropertiesPanel({
 	);
 }
 
-function StyleTab({ style, on_style_change, on_rounded_change, is_rounded }: {
+function StyleTab({ style, pages, on_style_change, on_rounded_change, is_rounded }: {
 	style: ShapeStyle;
+	pages: { name: string; colours: string[] }[];
 	on_style_change: (changes: Partial<ShapeStyle>) => void;
 	on_rounded_change: (rounded: boolean) => void;
 	is_rounded: boolean;
 }) {
 	const [colour_page, set_colour_page] = useState(0);
-	const page = COLOUR_PAGES[colour_page];
+	const page = pages[colour_page] ?? pages[0];
 
 	return (
 		<>
@@ -399,7 +485,7 @@ function StyleTab({ style, on_style_change, on_rounded_change, is_rounded }: {
 			<div style={{ marginBottom: 12 }}>
 				<div style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 4 }}>
 					<button
-						onClick={() => set_colour_page(p => (p - 1 + COLOUR_PAGES.length) % COLOUR_PAGES.length)}
+						onClick={() => set_colour_page(p => (p - 1 + pages.length) % pages.length)}
 						style={nav_btn_style}
 					>‹</button>
 					<div style={{ flex: 1, display: 'grid', gridTemplateColumns: 'repeat(4, minmax(0, 44px))', gap: 3, justifyContent: 'center' }}>
@@ -419,13 +505,13 @@ function StyleTab({ style, on_style_change, on_rounded_change, is_rounded }: {
 						))}
 					</div>
 					<button
-						onClick={() => set_colour_page(p => (p + 1) % COLOUR_PAGES.length)}
+						onClick={() => set_colour_page(p => (p + 1) % pages.length)}
 						style={nav_btn_style}
 					>›</button>
 				</div>
 				{/* Page dots */}
 				<div style={{ display: 'flex', justifyContent: 'center', gap: 4 }}>
-					{COLOUR_PAGES.map((_, i) => (
+					{pages.map((_, i) => (
 						<div
 							key={i}
 							onClick={() => set_colour_page(i)}
@@ -544,17 +630,213 @@ function TextTab({ text, style, on_text_change, on_style_change }: {
 				/>
 				<span style={{ fontSize: 11, color: '#999' }}>px</span>
 			</div>
+
+			{/* Alignment */}
+			<div style={{ marginBottom: 10 }}>
+				<label style={label_style}>Align</label>
+				<div style={{ display: 'flex', gap: 4, marginBottom: 4 }}>
+					{align_options.map(opt => (
+						<button
+							key={opt.value}
+							onClick={() => on_style_change({ text_align: opt.value })}
+							title={opt.title}
+							style={Option_Style((style.text_align ?? 'center') === opt.value)}
+						>
+							{opt.label}
+						</button>
+					))}
+				</div>
+				<div style={{ display: 'flex', gap: 4 }}>
+					{valign_options.map(opt => (
+						<button
+							key={opt.value}
+							onClick={() => on_style_change({ text_valign: opt.value })}
+							title={opt.title}
+							style={Option_Style((style.text_valign ?? 'middle') === opt.value)}
+						>
+							{opt.label}
+						</button>
+					))}
+				</div>
+			</div>
+			<div style={{ fontSize: 11, color: '#999' }}>
+				Double-click the shape to format its text: bold, italic, links and lists.
+			</div>
 		</>
 	);
 }
 
-function ArrangeTab({ shape, on_position_change, on_z_order }: {
+const align_options: { value: TextAlign; label: string; title: string }[] = [
+	{ value: 'left', label: '⇤ Left', title: 'Align left' },
+	{ value: 'center', label: '↔ Centre', title: 'Centre' },
+	{ value: 'right', label: 'Right ⇥', title: 'Align right' },
+];
+
+const valign_options: { value: TextVerticalAlign; label: string; title: string }[] = [
+	{ value: 'top', label: '⤒ Top', title: 'Align to top' },
+	{ value: 'middle', label: '↕ Middle', title: 'Centre vertically' },
+	{ value: 'bottom', label: '⤓ Bottom', title: 'Align to bottom' },
+];
+
+function Option_Style(selected: boolean): React.CSSProperties {
+	return {
+		...z_btn_style,
+		flex: 1,
+		background: selected ? '#e3f2fd' : '#f5f5f5',
+		border: selected ? '1px solid #90caf9' : '1px solid #e0e0e0',
+		fontWeight: selected ? 600 : 400,
+	};
+}
+
+// Minimum visible fraction of an image on each axis
+const MIN_CROP = 0.05;
+
+function ImageTab({ style, crop, on_style_change, on_crop_change }: {
+	style: ShapeStyle;
+	crop: Bounds;
+	on_style_change: (changes: Partial<ShapeStyle>) => void;
+	on_crop_change: (crop: Bounds) => void;
+}) {
+	// Crop is edited as the percentage trimmed from each side
+	const left = crop.x;
+	const top = crop.y;
+	const right = 1 - crop.x - crop.width;
+	const bottom = 1 - crop.y - crop.height;
+	const Set_Side = (side: 'left' | 'top' | 'right' | 'bottom', percent: number) => {
+		const v = percent / 100;
+		let [l, t, r, b] = [left, top, right, bottom];
+		if (side === 'left') l = Math.min(v, 1 - r - MIN_CROP);
+		if (side === 'top') t = Math.min(v, 1 - b - MIN_CROP);
+		if (side === 'right') r = Math.min(v, 1 - l - MIN_CROP);
+		if (side === 'bottom') b = Math.min(v, 1 - t - MIN_CROP);
+		on_crop_change({ x: l, y: t, width: 1 - l - r, height: 1 - t - b });
+	};
+	const sides = [
+		{ side: 'left', label: 'Left', value: left },
+		{ side: 'top', label: 'Top', value: top },
+		{ side: 'right', label: 'Right', value: right },
+		{ side: 'bottom', label: 'Bottom', value: bottom },
+	] as const;
+
+	return (
+		<>
+			{/* Opacity */}
+			<div style={{ marginBottom: 8 }}>
+				<div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+					<label style={{ ...label_style, marginBottom: 0 }}>Opacity</label>
+					<input
+						type="range"
+						min={0}
+						max={100}
+						value={style.opacity ?? 100}
+						onChange={e => on_style_change({ opacity: parseInt(e.target.value) })}
+						style={{ flex: 1, minWidth: 0 }}
+					/>
+					<span style={{ fontSize: 11, color: '#999', minWidth: 28, textAlign: 'right' }}>{style.opacity ?? 100}%</span>
+				</div>
+			</div>
+
+			{/* Border */}
+			<div style={row_style}>
+				<label style={label_style}>Border</label>
+				<input
+					type="color"
+					value={style.stroke === 'none' ? '#333333' : style.stroke}
+					onChange={e => on_style_change({ stroke: e.target.value, stroke_width: style.stroke_width || 1 })}
+					style={{ width: 28, height: 22, border: 'none', cursor: 'pointer', padding: 0 }}
+				/>
+				<input
+					type="number"
+					value={style.stroke_width}
+					min={0}
+					max={10}
+					step={0.5}
+					onChange={e => on_style_change({ stroke_width: parseFloat(e.target.value) })}
+					style={{ ...input_style, width: 48 }}
+				/>
+				<span style={{ fontSize: 11, color: '#999' }}>pt</span>
+			</div>
+
+			{/* Crop */}
+			<div style={{ borderTop: '1px solid #e0e0e0', marginTop: 12, paddingTop: 8 }}>
+				<label style={{ ...label_style, marginBottom: 6, display: 'block' }}>Crop</label>
+				{sides.map(({ side, label, value }) => (
+					<div key={side} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+						<label style={{ ...label_style, marginBottom: 0 }}>{label}</label>
+						<input
+							type="range"
+							min={0}
+							max={95}
+							value={Math.round(value * 100)}
+							onChange={e => Set_Side(side, parseInt(e.target.value))}
+							style={{ flex: 1, minWidth: 0 }}
+						/>
+						<span style={{ fontSize: 11, color: '#999', minWidth: 28, textAlign: 'right' }}>{Math.round(value * 100)}%</span>
+					</div>
+				))}
+				<button
+					onClick={() => on_crop_change({ x: 0, y: 0, width: 1, height: 1 })}
+					style={{ ...mini_btn_style, background: '#f5f5f5', marginTop: 4 }}
+				>
+					Reset crop
+				</button>
+			</div>
+		</>
+	);
+}
+
+const align_edge_options: { edge: AlignEdge; icon: string; title: string }[] = [
+	{ edge: 'left', icon: '⇤', title: 'Align left edges' },
+	{ edge: 'centre', icon: '↔', title: 'Align centres horizontally' },
+	{ edge: 'right', icon: '⇥', title: 'Align right edges' },
+	{ edge: 'top', icon: '⤒', title: 'Align top edges' },
+	{ edge: 'middle', icon: '↕', title: 'Align centres vertically' },
+	{ edge: 'bottom', icon: '⤓', title: 'Align bottom edges' },
+];
+
+function ArrangeTab({ shape, unit_count, on_align, on_distribute, on_position_change, on_z_order }: {
 	shape: Shape;
+	unit_count: number;
+	on_align: (edge: AlignEdge) => void;
+	on_distribute: (axis: DistributeAxis) => void;
 	on_position_change: (changes: { x?: number; y?: number; width?: number; height?: number; rotation?: number }) => void;
 	on_z_order: (action: 'bring_front' | 'send_back' | 'bring_forward' | 'send_backward') => void;
 }) {
 	return (
 		<>
+			{/* Align and distribute (multi-selection) */}
+			{unit_count > 1 && (
+				<div style={{ borderBottom: '1px solid #e0e0e0', marginBottom: 12, paddingBottom: 10 }}>
+					<label style={{ ...label_style, marginBottom: 6, display: 'block' }}>Align</label>
+					<div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 4 }}>
+						{align_edge_options.map(opt => (
+							<button key={opt.edge} onClick={() => on_align(opt.edge)} style={z_btn_style} title={opt.title}>
+								{opt.icon} {opt.edge[0].toUpperCase() + opt.edge.slice(1)}
+							</button>
+						))}
+					</div>
+					<label style={{ ...label_style, margin: '8px 0 6px', display: 'block' }}>Distribute</label>
+					<div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4 }}>
+						<button
+							onClick={() => on_distribute('horizontal')}
+							disabled={unit_count < 3}
+							style={{ ...z_btn_style, opacity: unit_count < 3 ? 0.5 : 1 }}
+							title="Equal gaps left to right (select three or more)"
+						>
+							⇹ Horizontal
+						</button>
+						<button
+							onClick={() => on_distribute('vertical')}
+							disabled={unit_count < 3}
+							style={{ ...z_btn_style, opacity: unit_count < 3 ? 0.5 : 1 }}
+							title="Equal gaps top to bottom (select three or more)"
+						>
+							⤊ Vertical
+						</button>
+					</div>
+				</div>
+			)}
+
 			<div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
 				<div>
 					<label style={label_style}>X</label>
@@ -657,6 +939,7 @@ function ConnectorTab({ connector, on_connector_change, on_z_order }: {
 		{ value: 'forward', label: '→ Forward' },
 		{ value: 'back', label: '← Back' },
 		{ value: 'both', label: '↔ Both' },
+		{ value: 'none', label: '— None' },
 	];
 	const routing_options: { value: ConnectorRouting; label: string }[] = [
 		{ value: 'ortho', label: '⊾ Orthogonal' },
@@ -706,14 +989,13 @@ function ConnectorTab({ connector, on_connector_change, on_z_order }: {
 			{/* Arrow type */}
 			<div style={{ marginBottom: 10 }}>
 				<label style={label_style}>Arrows</label>
-				<div style={{ display: 'flex', gap: 4 }}>
+				<div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4 }}>
 					{arrow_options.map(opt => (
 						<button
 							key={opt.value}
 							onClick={() => on_connector_change({ arrow_type: opt.value })}
 							style={{
 								...z_btn_style,
-								flex: 1,
 								background: connector.arrow_type === opt.value ? '#e3f2fd' : '#f5f5f5',
 								border: connector.arrow_type === opt.value ? '1px solid #90caf9' : '1px solid #e0e0e0',
 								fontWeight: connector.arrow_type === opt.value ? 600 : 400,
@@ -763,13 +1045,17 @@ function ConnectorTab({ connector, on_connector_change, on_z_order }: {
 
 function FreehandTab({ path, on_freehand_change, on_z_order }: {
 	path: FreehandPath;
-	on_freehand_change: (changes: Partial<{ stroke: string; stroke_width: number }>) => void;
+	on_freehand_change: (changes: Partial<FreehandStyle>) => void;
 	on_z_order: (action: 'bring_front' | 'send_back' | 'bring_forward' | 'send_backward') => void;
 }) {
+	const thinning = path.style.thinning ?? DEFAULT_THINNING;
+	const streamline = path.style.streamline ?? DEFAULT_STREAMLINE;
+	const taper = path.style.taper ?? DEFAULT_TAPER;
+	const variant = Pen_Variant(path);
 	return (
 		<>
 			<div style={{ fontSize: 11, fontWeight: 600, color: '#555', textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 8 }}>
-				Pen Stroke
+				{variant.label} Stroke
 			</div>
 
 			{/* Colour */}
@@ -814,6 +1100,53 @@ function FreehandTab({ path, on_freehand_change, on_z_order }: {
 				<span style={{ fontSize: 11, color: '#999', minWidth: 24 }}>{path.style.stroke_width}px</span>
 			</div>
 
+			{/* Stroke shape */}
+			<div style={{ ...row_style, marginBottom: 10 }}>
+				<label style={label_style}>Smoothing</label>
+				<input
+					type="range"
+					min={0}
+					max={1}
+					step={0.05}
+					value={streamline}
+					onChange={e => on_freehand_change({ streamline: parseFloat(e.target.value) })}
+					style={{ flex: 1, minWidth: 0 }}
+				/>
+				<span style={{ fontSize: 11, color: '#999', minWidth: 24 }}>{Math.round(streamline * 100)}%</span>
+			</div>
+			{variant.pressure && (
+				<>
+					<div style={{ ...row_style, marginBottom: 10 }}>
+						<label style={label_style}>Thinning</label>
+						<input
+							type="range"
+							min={0}
+							max={1}
+							step={0.05}
+							value={thinning}
+							onChange={e => on_freehand_change({ thinning: parseFloat(e.target.value) })}
+							style={{ flex: 1, minWidth: 0 }}
+						/>
+						<span style={{ fontSize: 11, color: '#999', minWidth: 24 }}>{Math.round(thinning * 100)}%</span>
+					</div>
+					<div style={{ ...row_style, marginBottom: 10 }}>
+						<label style={label_style}>Taper</label>
+						<input
+							type="range"
+							min={0}
+							max={100}
+							value={taper}
+							onChange={e => on_freehand_change({ taper: parseInt(e.target.value) })}
+							style={{ flex: 1, minWidth: 0 }}
+						/>
+						<span style={{ fontSize: 11, color: '#999', minWidth: 24 }}>{taper}px</span>
+					</div>
+					<div style={{ fontSize: 11, color: '#999', marginBottom: 10 }}>
+						{path.pressures ? 'Width follows pen pressure and tilt' : 'Width follows drawing speed'}
+					</div>
+				</>
+			)}
+
 			{/* Z-order */}
 			<div style={{ borderTop: '1px solid #e0e0e0', marginTop: 8, paddingTop: 8 }}>
 				<label style={{ ...label_style, marginBottom: 6, display: 'block' }}>Order</label>
@@ -929,6 +1262,20 @@ const z_btn_style: React.CSSProperties = {
 	background: '#f5f5f5',
 };
 
+const stack_btn_style: React.CSSProperties = {
+	width: '100%',
+	padding: '6px 0',
+	marginBottom: 12,
+	border: '1px solid #c8e1ff',
+	borderRadius: 6,
+	background: '#e3f2fd',
+	color: '#1565C0',
+	fontSize: 12,
+	fontWeight: 600,
+	cursor: 'pointer',
+	fontFamily: 'inherit',
+};
+
 const nav_btn_style: React.CSSProperties = {
 	width: 20,
 	height: 20,
@@ -1,4 +1,5 @@
-import type { CollabUser } from './types';
+import { useState } from 'react';
+import type { CollabUser, RemoteOutline } from './types';
 
 interface RemoteCursorsProps {
 	users: CollabUser[];
@@ -51,54 +52,174 @@ export function RemoteCursors({ users, viewport }: RemoteCursorsProps) {
 	);
 }
 
-// Presence avatars for the toolbar
-export function PresenceAvatars({ users, self_name }: { users: CollabUser[]; self_name: string }) {
+interface RemoteSelectionsProps {
+	users: CollabUser[];
+	viewport: { offset_x: number; offset_y: number; zoom: number };
+	// Where an element is on our board (null if we don't have it, or it has no outline)
+	outline_of: (id: string) => RemoteOutline | null;
+}
+
+// Outlines of what collaborators have selected, and ghosts of what they're dragging, in their colour
+export function RemoteSelections({ users, viewport, outline_of }: RemoteSelectionsProps) {
+	const Outline = (o: RemoteOutline, colour: string, ghost: boolean, label?: string) => {
+		const pad = 4;
+		const x = o.x * viewport.zoom + viewport.offset_x - pad;
+		const y = o.y * viewport.zoom + viewport.offset_y - pad;
+		const w = o.width * viewport.zoom + pad * 2;
+		const h = o.height * viewport.zoom + pad * 2;
+		return (
+			<g key={`${ghost ? 'g' : 's'}_${o.id}`} transform={o.rotation ? `rotate(${o.rotation}, ${x + w / 2}, ${y + h / 2})` : undefined}>
+				<rect
+					x={x} y={y} width={w} height={h} rx={3}
+					fill={ghost ? colour : 'none'}
+					fillOpacity={ghost ? 0.12 : undefined}
+					stroke={colour}
+					strokeWidth={ghost ? 1.5 : 2}
+					strokeDasharray={ghost ? '6 3' : undefined}
+				/>
+				{label && (
+					<text
+						x={x} y={y - 4}
+						fontSize={10}
+						fontWeight={600}
+						fill={colour}
+						fontFamily="Segoe UI, system-ui, sans-serif"
+					>
+						{label}
+					</text>
+				)}
+			</g>
+		);
+	};
+
+	return (
+		<g pointerEvents="none">
+			{users.map(user => {
+				const dragging = new Set(user.drag_preview?.map(o => o.id));
+				const selected = (user.selection ?? [])
+					.filter(id => !dragging.has(id))
+					.map(outline_of)
+					.filter((o): o is RemoteOutline => o !== null);
+				return (
+					<g key={user.id}>
+						{selected.map((o, i) => Outline(o, user.colour, false, i === 0 ? user.name : undefined))}
+						{user.drag_preview?.map((o, i) => Outline(o, user.colour, true, i === 0 && selected.length === 0 ? user.name : undefined))}
+					</g>
+				);
+			})}
+		</g>
+	);
+}
+
+// Presence avatars for the toolbar. Clicking someone's avatar follows their view (again to stop);
+// clicking the count lists everyone. 'on_set_permission' (given to the room's creator) adds
+// buttons to make people editors or viewers.
+export function PresenceAvatars({ users, self_name, on_set_permission, following_id, on_follow }: {
+	users: CollabUser[];
+	self_name: string;
+	on_set_permission?: (user_id: string, permission: CollabUser['permission']) => void;
+	following_id?: string | null;
+	on_follow?: (user_id: string | null) => void;
+}) {
+	const [list_open, set_list_open] = useState(false);
 	const all = [
-		{ id: 'self', name: self_name, colour: '#2196F3' },
+		{ id: 'self', name: self_name, colour: '#2196F3', permission: undefined as CollabUser['permission'] | undefined },
 		...users,
 	];
 	const count = all.length;
 
 	return (
-		<div style={{
-			display: 'flex',
-			alignItems: 'center',
-			gap: 2,
-			paddingLeft: 12,
-			borderLeft: '1px solid #e0e0e0',
-			marginLeft: 8,
-		}}>
-			{all.slice(0, 5).map((u, i) => (
+		<div style={{ position: 'relative' }}>
+			<div
+				style={{
+					display: 'flex',
+					alignItems: 'center',
+					gap: 2,
+					paddingLeft: 12,
+					borderLeft: '1px solid #e0e0e0',
+					marginLeft: 8,
+				}}
+			>
+				{all.slice(0, 5).map((u, i) => (
+					<div
+						key={u.id}
+						title={u.name + (u.id === 'self' ? ' (you)' : (u.permission === 'view' ? ' (view only)' : '') + (u.id === following_id ? ' — following' : ' — click to follow'))}
+						onClick={() => u.id !== 'self' && on_follow?.(u.id === following_id ? null : u.id)}
+						style={{
+							width: 26,
+							height: 26,
+							borderRadius: '50%',
+							background: u.colour,
+							display: 'flex',
+							alignItems: 'center',
+							justifyContent: 'center',
+							fontSize: 11,
+							fontWeight: 700,
+							color: '#fff',
+							border: u.id === following_id ? '2px solid #333' : '2px solid #fff',
+							cursor: u.id === 'self' ? 'default' : 'pointer',
+							boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
+							marginLeft: i > 0 ? -8 : 0,
+							zIndex: 10 - i,
+							position: 'relative',
+							opacity: u.permission === 'view' ? 0.6 : 1,
+						}}
+					>
+						{u.name.charAt(0).toUpperCase()}
+					</div>
+				))}
+				{count > 5 && (
+					<span style={{ fontSize: 11, color: '#888', marginLeft: 4 }}>+{count - 5}</span>
+				)}
+				<span
+					onClick={() => set_list_open(!list_open)}
+					title="Show everyone"
+					style={{ fontSize: 11, color: '#888', marginLeft: 6, whiteSpace: 'nowrap', cursor: 'pointer' }}
+				>
+					{count} online ▾
+				</span>
+			</div>
+
+			{list_open && (
 				<div
-					key={u.id}
-					title={u.name + (u.id === 'self' ? ' (you)' : '')}
+					onPointerDown={e => e.stopPropagation()}
 					style={{
-						width: 26,
-						height: 26,
-						borderRadius: '50%',
-						background: u.colour,
-						display: 'flex',
-						alignItems: 'center',
-						justifyContent: 'center',
-						fontSize: 11,
-						fontWeight: 700,
-						color: '#fff',
-						border: '2px solid #fff',
-						boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
-						marginLeft: i > 0 ? -8 : 0,
-						zIndex: 10 - i,
-						position: 'relative',
+						position: 'absolute', top: '100%', right: 0, marginTop: 6, zIndex: 20,
+						background: '#fff', border: '1px solid #e0e0e0', borderRadius: 8,
+						boxShadow: '0 2px 8px rgba(0,0,0,0.15)', padding: 6, minWidth: 200,
 					}}
 				>
-					{u.name.charAt(0).toUpperCase()}
+					{all.map(u => (
+						<div key={u.id} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '3px 4px', fontSize: 12 }}>
+							<span style={{ width: 10, height: 10, borderRadius: '50%', background: u.colour, flexShrink: 0 }} />
+							<span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+								{u.name}{u.id === 'self' ? ' (you)' : ''}
+							</span>
+							{u.id !== 'self' && on_follow && (
+								<button
+									onClick={() => on_follow(u.id === following_id ? null : u.id)}
+									style={{
+										padding: '1px 6px', borderRadius: 4, border: '1px solid #e0e0e0',
+										background: u.id === following_id ? '#e3f2fd' : '#fff', fontSize: 11, cursor: 'pointer', color: '#555',
+									}}
+								>{u.id === following_id ? 'Unfollow' : 'Follow'}</button>
+							)}
+							{u.permission && (on_set_permission ? (
+								<button
+									onClick={() => on_set_permission(u.id, u.permission === 'view' ? 'edit' : 'view')}
+									title={u.permission === 'view' ? 'Let them edit' : 'Make them view only'}
+									style={{
+										padding: '1px 6px', borderRadius: 4, border: '1px solid #e0e0e0',
+										background: '#fff', fontSize: 11, cursor: 'pointer', color: '#555',
+									}}
+								>{u.permission === 'view' ? '👁 Viewer' : '✏️ Editor'}</button>
+							) : (
+								<span style={{ fontSize: 11, color: '#888' }}>{u.permission === 'view' ? '👁 Viewer' : '✏️ Editor'}</span>
+							))}
+						</div>
+					))}
 				</div>
-			))}
-			{count > 5 && (
-				<span style={{ fontSize: 11, color: '#888', marginLeft: 4 }}>+{count - 5}</span>
 			)}
-			<span style={{ fontSize: 11, color: '#888', marginLeft: 6, whiteSpace: 'nowrap' }}>
-				{count} online
-			</span>
 		</div>
 	);
 }
@@ -1,14 +1,23 @@
-import type { ShapeType } from './types';
+import type { ShapeType, ToolType, DrawableShapeType } from './types';
+import { STICKY_COLOURS } from './sticky';
+
+// Drag data type for palette entries dropped on the canvas, carrying a PaletteDrop as JSON
+export const SHAPE_DRAG_TYPE = 'application/x-whiteboard-shape';
+
+export interface PaletteDrop {
+	type: ShapeType;
+	colour?: string;
+}
 
 interface ShapePaletteProps {
-	on_select_tool: (tool: ShapeType) => void;
+	on_select_tool: (tool: ToolType) => void;
 	is_open: boolean;
 	on_toggle: () => void;
 }
 
 interface PaletteCategory {
 	label: string;
-	shapes: { type: ShapeType; label: string; icon: string }[];
+	shapes: { type: DrawableShapeType | 'sticky'; label: string; icon: string }[];
 }
 
 const CATEGORIES: PaletteCategory[] = [
@@ -19,6 +28,7 @@ const CATEGORIES: PaletteCategory[] = [
 			{ type: 'ellipse', label: 'Ellipse', icon: '◯' },
 			{ type: 'diamond', label: 'Diamond', icon: '◇' },
 			{ type: 'text', label: 'Text', icon: 'T' },
+			{ type: 'sticky', label: 'Sticky note', icon: '🗒' },
 		],
 	},
 	{
@@ -31,6 +41,12 @@ const CATEGORIES: PaletteCategory[] = [
 	},
 ];
 
+// Start dragging a palette entry onto the canvas
+function Start_Drag(e: React.DragEvent, drop: PaletteDrop) {
+	e.dataTransfer.setData(SHAPE_DRAG_TYPE, JSON.stringify(drop));
+	e.dataTransfer.effectAllowed = 'copy';
+}
+
 export function ShapePalette({ on_select_tool, is_open, on_toggle }: ShapePaletteProps) {
 	return (
 		<>
@@ -57,8 +73,10 @@ export function ShapePalette({ on_select_tool, is_open, on_toggle }: ShapePalett
 									<button
 										key={`${shape.type}-${i}`}
 										onClick={() => on_select_tool(shape.type)}
+										draggable
+										onDragStart={e => Start_Drag(e, { type: shape.type })}
 										style={shape_btn_style}
-										title={shape.label}
+										title={`${shape.label} (click, then draw — or drag onto the board)`}
 									>
 										<span style={{ fontSize: 20 }}>{shape.icon}</span>
 										<span style={{ fontSize: 10, color: '#666' }}>{shape.label}</span>
@@ -67,6 +85,20 @@ export function ShapePalette({ on_select_tool, is_open, on_toggle }: ShapePalett
 							</div>
 						</div>
 					))}
+					<div style={{ fontSize: 11, color: '#999', fontWeight: 600, marginBottom: 4, textTransform: 'uppercase' }}>
+						Sticky notes
+					</div>
+					<div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 4 }}>
+						{STICKY_COLOURS.map(colour => (
+							<div
+								key={colour}
+								draggable
+								onDragStart={e => Start_Drag(e, { type: 'sticky', colour })}
+								style={{ ...sticky_swatch_style, background: colour }}
+								title="Drag onto the board to add a note"
+							/>
+						))}
+					</div>
 				</div>
 			)}
 		</>
@@ -76,7 +108,8 @@ export function ShapePalette({ on_select_tool, is_open, on_toggle }: ShapePalett
 const toggle_style: React.CSSProperties = {
 	position: 'absolute',
 	left: 8,
-	top: '50%',
+	// Just below the board panel's toggle
+	top: 'calc(50% + 56px)',
 	transform: 'translateY(-50%)',
 	width: 28,
 	height: 48,
@@ -120,3 +153,11 @@ const shape_btn_style: React.CSSProperties = {
 	transition: 'background 0.1s',
 	fontFamily: 'inherit',
 };
+
+const sticky_swatch_style: React.CSSProperties = {
+	height: 28,
+	border: '1px solid #e0e0e0',
+	borderRadius: 2,
+	boxShadow: '1px 2px 3px rgba(0,0,0,0.12)',
+	cursor: 'grab',
+};
@@ -1,5 +1,11 @@
-import type { Shape } from './types';
+import { useMemo } from 'react';
+import type { Shape, ShapeStyle, Bounds } from './types';
 import { Diamond_Points, Port_Position } from './helpers';
+import { useAssetUrl } from './assets';
+import { FRAME_TITLE_HEIGHT, Frame_Body, Frame_Clip_Id } from './frames';
+import { STICKY_AUTHOR_HEIGHT, STICKY_PADDING } from './sticky';
+import { Layout_Text, Fit_Text, Text_Box, Safe_Href } from './richtext';
+import type { TextLayout } from './richtext';
 
 interface ShapeRendererProps {
 	shape: Shape;
@@ -39,8 +45,8 @@ export function ShapeRenderer({
 		onDoubleClick: (e: React.MouseEvent) => on_double_click(e, shape),
 	};
 
-	// Apply rotation transform around shape centre
-	const transform = rotation ? `rotate(${rotation}, ${cx}, ${cy})` : undefined;
+	// Apply rotation transform around shape centre (frames stay upright so they can clip)
+	const transform = rotation && type !== 'frame' ? `rotate(${rotation}, ${cx}, ${cy})` : undefined;
 
 	return (
 		<g {...group_props} data-shape-id={shape.id} transform={transform}
@@ -65,31 +71,191 @@ export function ShapeRenderer({
 			{type === 'text' && (
 				<rect x={x} y={y} width={width} height={height} fill="transparent" stroke="none" />
 			)}
+			{type === 'image' && <ImageContent shape={shape} />}
+			{type === 'frame' && <FrameContent shape={shape} />}
+			{type === 'sticky' && <StickyContent shape={shape} />}
 
-			{/* Text label */}
-			{text && (
+			{/* Text label, wrapped to the shape (sticky notes fit their own) */}
+			{text && type !== 'frame' && type !== 'sticky' && <ShapeText shape={shape} />}
+
+			{/* Selection UI: dashed border + circular grab handles + rotate handle */}
+			{is_selected && <SelectionHandles x={x} y={y} width={width} height={height} rotatable={type !== 'frame'} />}
+
+			{/* Port indicators on hover only (not selected — they overlap resize handles) */}
+			{is_hovered && !is_selected && type !== 'text' && type !== 'frame' && (
+				<PortIndicators shape={shape} />
+			)}
+		</g>
+	);
+}
+
+// Image shapes draw the cropped region of their asset stretched over the shape bounds
+function ImageContent({ shape }: { shape: Shape }) {
+	const { x, y, width, height, style, image } = shape;
+	const url = useAssetUrl(image?.asset_id);
+	if (!image) return null;
+
+	const crop = image.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+	const view_box = [
+		crop.x * image.natural_width,
+		crop.y * image.natural_height,
+		crop.width * image.natural_width,
+		crop.height * image.natural_height,
+	].join(' ');
+
+	return (
+		<>
+			<svg x={x} y={y} width={width} height={height} viewBox={view_box} preserveAspectRatio="none" style={{ cursor: 'pointer' }}>
+				{/* Always present (even before the asset loads) so export can fill it in by asset id */}
+				<image href={url ?? ''} data-asset-id={image.asset_id} width={image.natural_width} height={image.natural_height} preserveAspectRatio="none" />
+			</svg>
+			{!url && (
+				// Asset not loaded yet (or still downloading from the cloud or a collaborator)
+				<rect x={x} y={y} width={width} height={height} fill="#f0f0f0" stroke="#ccc" strokeDasharray="6 4" cursor="pointer" data-asset-placeholder />
+			)}
+			{style.stroke_width > 0 && style.stroke !== 'none' && (
+				<rect x={x} y={y} width={width} height={height} fill="none" stroke={style.stroke} strokeWidth={style.stroke_width} pointerEvents="none" />
+			)}
+		</>
+	);
+}
+
+// Frames are grabbed by their title bar; the body lets clicks through to the elements inside
+// (and to the canvas, for marquee selection). The clip path is used by the frame's members.
+function FrameContent({ shape }: { shape: Shape }) {
+	const { id, x, y, width, style, text } = shape;
+	const body = Frame_Body(shape);
+	const title = body.y - y;
+	return (
+		<>
+			<clipPath id={Frame_Clip_Id(id)}>
+				<rect x={body.x} y={body.y} width={body.width} height={body.height} />
+			</clipPath>
+			<rect x={body.x} y={body.y} width={body.width} height={body.height}
+				fill={style.fill} stroke={style.stroke} strokeWidth={style.stroke_width} pointerEvents="none" />
+			<rect x={x} y={y} width={width} height={title} rx={Math.min(4, title / 2)}
+				fill={style.stroke} stroke={style.stroke} strokeWidth={style.stroke_width} cursor="move" />
+			<text
+				x={x + 10}
+				y={y + title / 2}
+				dominantBaseline="central"
+				fontSize={Math.min(style.font_size, FRAME_TITLE_HEIGHT - 10)}
+				fontWeight={600}
+				fill={style.text_colour}
+				pointerEvents="none"
+				style={{ userSelect: 'none' }}
+			>
+				{text || 'Frame'}
+			</text>
+		</>
+	);
+}
+
+// Sticky notes wrap their text and shrink it to fit the note, with the author's name in the
+// bottom corner
+function StickyContent({ shape }: { shape: Shape }) {
+	const { x, y, width, height, style, text, text_marks, created_by } = shape;
+	const box = {
+		x: x + STICKY_PADDING,
+		y: y + STICKY_PADDING,
+		width: Math.max(0, width - STICKY_PADDING * 2),
+		height: Math.max(0, height - STICKY_PADDING * 2 - (created_by ? STICKY_AUTHOR_HEIGHT : 0)),
+	};
+	const layout = useMemo(
+		() => Fit_Text(text, text_marks, box.width, box.height, style.font_size),
+		[text, text_marks, box.width, box.height, style.font_size],
+	);
+	return (
+		<>
+			<rect x={x + 2} y={y + 3} width={width} height={height} fill="rgba(0,0,0,0.12)" pointerEvents="none" />
+			<rect x={x} y={y} width={width} height={height}
+				fill={style.fill} stroke={style.stroke} strokeWidth={style.stroke_width} cursor="pointer" />
+			{text && <RichText layout={layout} box={box} style={style} />}
+			{created_by && (
 				<text
-					x={cx}
-					y={cy}
-					textAnchor="middle"
-					dominantBaseline="central"
-					fontSize={style.font_size}
+					x={x + width - STICKY_PADDING / 2}
+					y={y + height - STICKY_PADDING / 2}
+					textAnchor="end"
+					fontSize={10}
 					fill={style.text_colour}
+					opacity={0.5}
 					pointerEvents="none"
 					style={{ userSelect: 'none' }}
 				>
-					{text}
+					{created_by}
 				</text>
 			)}
+		</>
+	);
+}
 
-			{/* Selection UI: dashed border + circular grab handles + rotate handle */}
-			{is_selected && <SelectionHandles x={x} y={y} width={width} height={height} />}
+function ShapeText({ shape }: { shape: Shape }) {
+	const { text, text_marks, style } = shape;
+	const box = Text_Box(shape);
+	const layout = useMemo(
+		() => Layout_Text(text, text_marks, box.width, style.font_size),
+		[text, text_marks, box.width, style.font_size],
+	);
+	return <RichText layout={layout} box={box} style={style} />;
+}
 
-			{/* Port indicators on hover only (not selected — they overlap resize handles) */}
-			{is_hovered && !is_selected && type !== 'text' && (
-				<PortIndicators shape={shape} />
-			)}
-		</g>
+// Wrapped, formatted lines of text aligned in a box. Lines that don't fit spill out of the top
+// and bottom evenly (or away from the edge the text is aligned to). Links open with Ctrl+click,
+// so a plain click still selects the shape.
+function RichText({ layout, box, style }: { layout: TextLayout; box: Bounds; style: ShapeStyle }) {
+	const align = style.text_align ?? 'center';
+	const valign = style.text_valign ?? 'middle';
+	const anchor = align === 'left' ? 'start' : align === 'right' ? 'end' : 'middle';
+	const anchor_x = align === 'left' ? box.x : align === 'right' ? box.x + box.width : box.x + box.width / 2;
+	const total = layout.lines.length * layout.line_height;
+	const top = valign === 'top' ? box.y : valign === 'bottom' ? box.y + box.height - total : box.y + (box.height - total) / 2;
+
+	return (
+		<text
+			textAnchor={anchor}
+			dominantBaseline="central"
+			fontSize={layout.font_size}
+			fill={style.text_colour}
+			pointerEvents="none"
+			style={{ userSelect: 'none', whiteSpace: 'pre' }}
+		>
+			{layout.lines.map((line, i) => {
+				const y = top + (i + 0.5) * layout.line_height;
+				const show_bullet = line.bullet && line.first;
+				// Left-aligned lists hang the bullet in the indent; otherwise it leads the line
+				const hanging = align === 'left' && line.bullet;
+				const x = hanging ? anchor_x + layout.indent : anchor_x;
+				return [
+					show_bullet && (hanging
+						? <tspan key={`b${i}`} x={anchor_x} y={y}>•</tspan>
+						: <tspan key={`b${i}`} x={x} y={y}>{'•\u00a0'}</tspan>),
+					...line.runs.map((run, j) => {
+						// The line's first piece of text starts the line, unless a bullet already has
+						const position = j === 0 && (hanging || !show_bullet) ? { x, y } : {};
+						const decoration = [run.underline || run.href ? 'underline' : '', run.strike ? 'line-through' : ''].filter(Boolean).join(' ');
+						const span = (
+							<tspan key={`r${i}-${j}`} {...position}
+								fontWeight={run.bold ? 'bold' : undefined}
+								fontStyle={run.italic ? 'italic' : undefined}
+								textDecoration={decoration || undefined}
+								fill={run.href ? '#1a73e8' : undefined}
+							>
+								{run.text}
+							</tspan>
+						);
+						const href = Safe_Href(run.href);
+						if (!href) return span;
+						return (
+							<a key={`a${i}-${j}`} href={href} target="_blank" rel="noopener noreferrer" style={{ pointerEvents: 'auto', cursor: 'pointer' }}
+								onClick={e => { if (!e.ctrlKey && !e.metaKey) e.preventDefault(); }}>
+								<title>{`${href} (Ctrl+click to open)`}</title>
+								{span}
+							</a>
+						);
+					}),
+				];
+			})}
+		</text>
 	);
 }
 
@@ -97,7 +263,7 @@ const HANDLE_CURSORS = ['nw-resize', 'ne-resize', 'se-resize', 'sw-resize', 'n-r
 const HANDLE_R = 5;
 const ROTATE_OFFSET = 24; // distance of rotate handle above the shape
 
-function SelectionHandles({ x, y, width, height }: { x: number; y: number; width: number; height: number }) {
+export function SelectionHandles({ x, y, width, height, rotatable = true }: { x: number; y: number; width: number; height: number; rotatable?: boolean }) {
 	const points = [
 		{ cx: x, cy: y },                         // 0 TL
 		{ cx: x + width, cy: y },                  // 1 TR
@@ -124,37 +290,41 @@ function SelectionHandles({ x, y, width, height }: { x: number; y: number; width
 				pointerEvents="none"
 			/>
 
-			{/* Line from top-centre to rotate handle */}
-			<line
-				x1={x + width / 2} y1={y}
-				x2={rotate_x} y2={rotate_y}
-				stroke="#00d4ff"
-				strokeWidth={1}
-				pointerEvents="none"
-			/>
+			{rotatable && (
+				<>
+					{/* Line from top-centre to rotate handle */}
+					<line
+						x1={x + width / 2} y1={y}
+						x2={rotate_x} y2={rotate_y}
+						stroke="#00d4ff"
+						strokeWidth={1}
+						pointerEvents="none"
+					/>
 
-			{/* Rotate handle */}
-			<circle
-				cx={rotate_x}
-				cy={rotate_y}
-				r={HANDLE_R + 1}
-				fill="white"
-				stroke="#00d4ff"
-				strokeWidth={1.5}
-				style={{ cursor: 'grab' }}
-				data-rotate-handle="true"
-			/>
-			{/* Rotate icon (↻ arrow) */}
-			<text
-				x={rotate_x}
-				y={rotate_y + 0.5}
-				textAnchor="middle"
-				dominantBaseline="central"
-				fontSize={9}
-				fill="#00d4ff"
-				pointerEvents="none"
-				style={{ userSelect: 'none' }}
-			>↻</text>
+					{/* Rotate handle */}
+					<circle
+						cx={rotate_x}
+						cy={rotate_y}
+						r={HANDLE_R + 1}
+						fill="white"
+						stroke="#00d4ff"
+						strokeWidth={1.5}
+						style={{ cursor: 'grab' }}
+						data-rotate-handle="true"
+					/>
+					{/* Rotate icon (↻ arrow) */}
+					<text
+						x={rotate_x}
+						y={rotate_y + 0.5}
+						textAnchor="middle"
+						dominantBaseline="central"
+						fontSize={9}
+						fill="#00d4ff"
+						pointerEvents="none"
+						style={{ userSelect: 'none' }}
+					>↻</text>
+				</>
+			)}
 
 			{/* Resize grab handles — circular, cyan */}
 			{points.map((p, i) => (
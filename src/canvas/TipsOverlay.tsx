@@ -4,24 +4,39 @@ const tips: { key: string; desc: string }[] = [
 	{ key: 'Double-click canvas', desc: 'Create a rectangle with text editing' },
 	{ key: 'Double-click shape', desc: 'Edit shape text' },
 	{ key: 'F2', desc: 'Edit text of selected shape or connector label' },
+	{ key: 'Shift+Enter (editing)', desc: 'New line (Enter finishes; on sticky notes, Ctrl+Enter)' },
+	{ key: 'Ctrl+B / I / U (editing)', desc: 'Bold / italic / underline the selected text' },
+	{ key: 'Ctrl+K / Ctrl+Shift+L (editing)', desc: 'Link / bulleted list; Ctrl+click a link to open it' },
 	{ key: 'Delete / Backspace', desc: 'Delete selected elements' },
 	{ key: 'Ctrl+Z / Ctrl+Y', desc: 'Undo / Redo' },
 	{ key: 'Ctrl+C / Ctrl+V', desc: 'Copy / Paste' },
 	{ key: 'Ctrl+D', desc: 'Duplicate selection' },
+	{ key: 'Paste / drop image file', desc: 'Insert an image' },
+	{ key: 'Ctrl+G', desc: 'Group selection' },
+	{ key: 'Ctrl+Shift+G', desc: 'Ungroup' },
+	{ key: 'Double-click group', desc: 'Enter group to select its members' },
 	{ key: 'Ctrl+A', desc: 'Select all' },
 	{ key: 'Ctrl+Alt+A', desc: 'Select all (own objects only)' },
 	{ key: 'Shift+drag select', desc: 'Select own objects only' },
-	{ key: 'Escape', desc: 'Cancel / deselect all' },
+	{ key: 'Escape', desc: 'Cancel / deselect all / leave group' },
 	{ key: 'V', desc: 'Select tool' },
 	{ key: 'R', desc: 'Rectangle tool' },
 	{ key: 'O', desc: 'Ellipse tool' },
 	{ key: 'A', desc: 'Arrow/connector tool' },
 	{ key: 'T', desc: 'Text tool' },
-	{ key: 'P', desc: 'Pen (freehand) tool' },
+	{ key: 'F', desc: 'Frame tool (drag a frame by its title bar)' },
+	{ key: 'N', desc: 'Sticky note tool (Ctrl+Enter finishes a note)' },
+	{ key: 'P', desc: 'Pen (freehand) tool — stylus pressure and tilt vary the width' },
+	{ key: 'Shift (highlighter)', desc: 'Highlight in a straight line' },
+	{ key: 'Pen → Snap to shape', desc: 'Sketched boxes, ellipses, diamonds, lines and arrows become real ones' },
+	{ key: 'E', desc: 'Eraser (whole strokes, or parts of strokes)' },
 	{ key: 'L', desc: 'Laser pointer tool' },
 	{ key: 'G', desc: 'Toggle snap-to-grid' },
-	{ key: 'Alt (while dragging)', desc: 'Temporarily disable grid snap' },
+	{ key: '← / → (presenting)', desc: 'Previous / next saved view; Esc ends the presentation' },
+	{ key: 'Alt (while dragging)', desc: 'Temporarily disable grid snap and smart guides' },
+	{ key: 'Arrange tab (2+ selected)', desc: 'Align edges or centres; distribute 3+ evenly' },
 	{ key: 'Shift+click two shapes', desc: 'Quick-connect with an arrow' },
+	{ key: 'Auto-layout (toolbar)', desc: 'Tidy the selection, or every connected shape' },
 	{ key: 'Hover shape edges', desc: 'Show connection ports (blue dots)' },
 	{ key: 'Drag from port', desc: 'Create a connector to another shape' },
 	{ key: 'Mouse wheel', desc: 'Zoom in/out' },
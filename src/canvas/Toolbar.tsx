@@ -1,6 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { ToolType, ToolSettings, ShapeType, ArrowType, ConnectorRouting } from './types';
+import type { ToolType, ToolSettings, DrawableShapeType, ArrowType, ConnectorRouting, PenVariant } from './types';
 import { useMediaQuery } from './useMediaQuery';
+import { STICKY_COLOURS } from './sticky';
+import type { LayoutAlgorithm, LayoutDirection } from './layout';
+import { ERASER_SIZES } from './eraser';
+import { PEN_VARIANTS } from './pen';
 
 interface ToolbarProps {
 	active_tool: ToolType;
@@ -15,6 +19,7 @@ interface ToolbarProps {
 	on_redo: () => void;
 	on_delete: () => void;
 	on_duplicate: () => void;
+	on_layout: (algorithm: LayoutAlgorithm, direction: LayoutDirection) => void;
 	can_undo: boolean;
 	can_redo: boolean;
 	has_selection: boolean;
@@ -30,6 +35,12 @@ const LASER_COLORS = [
 	'#ff2222', '#22cc44', '#2266ff', '#ff8800', '#ffdd00', '#ff00ff', '#00cccc', '#ffffff',
 ];
 
+// Pen stroke shape presets: how much pressure thins the line, how much the line lags behind
+// the pointer to smooth out wobbles, and how far the end tapers off
+const PEN_THINNING_OPTIONS = [{ value: 0, label: 'None' }, { value: 0.5, label: 'Some' }, { value: 0.8, label: 'Lots' }];
+const PEN_STREAMLINE_OPTIONS = [{ value: 0.2, label: 'Low' }, { value: 0.5, label: 'Medium' }, { value: 0.8, label: 'High' }];
+const PEN_TAPER_OPTIONS = [{ value: 0, label: 'None' }, { value: 20, label: 'Short' }, { value: 60, label: 'Long' }];
+
 // Paired fill/stroke presets: light fill with a darker border of the same hue
 const SHAPE_COLOR_PRESETS: { fill: string; stroke: string }[] = [
 	{ fill: '#ffffff', stroke: '#333333' },
@@ -46,14 +57,22 @@ const SHAPE_COLOR_PRESETS: { fill: string; stroke: string }[] = [
 	{ fill: '#f1f5f9', stroke: '#64748b' },
 ];
 
-const SHAPE_ICONS: Record<ShapeType, string> = {
+const SHAPE_ICONS: Record<DrawableShapeType, string> = {
 	rectangle: '▭',
 	ellipse: '◯',
 	diamond: '◇',
 	text: 'T',
 };
 
-type DropdownId = 'pen' | 'text' | 'shape' | 'connector' | 'laser' | 'grid';
+type DropdownId = 'pen' | 'eraser' | 'text' | 'sticky' | 'shape' | 'connector' | 'laser' | 'grid' | 'layout';
+
+const LAYOUT_OPTIONS: { algorithm: LayoutAlgorithm; direction: LayoutDirection; label: string }[] = [
+	{ algorithm: 'layered', direction: 'down', label: '⇣ Layered' },
+	{ algorithm: 'layered', direction: 'right', label: '⇢ Layered' },
+	{ algorithm: 'tree', direction: 'down', label: '⇣ Tree' },
+	{ algorithm: 'tree', direction: 'right', label: '⇢ Tree' },
+	{ algorithm: 'force', direction: 'down', label: '✳ Force' },
+];
 
 export function Toolbar({
 	active_tool,
@@ -68,12 +87,15 @@ export function Toolbar({
 	on_redo,
 	on_delete,
 	on_duplicate,
+	on_layout,
 	can_undo,
 	can_redo,
 	has_selection,
 	editing_blocked,
 }: ToolbarProps) {
 	const [open_dropdown, set_open_dropdown] = useState<DropdownId | null>(null);
+	// The layout the main layout button applies (the last one picked)
+	const [layout, set_layout] = useState(LAYOUT_OPTIONS[0]);
 	const toolbar_ref = useRef<HTMLDivElement>(null);
 	const is_mobile = useMediaQuery('(max-width: 640px)');
 
@@ -116,7 +138,7 @@ export function Toolbar({
 			{/* Pen */}
 			<ToolBtnWithDropdown
 				icon="✎"
-				label="Pen (P)"
+				label={`${PEN_VARIANTS[tool_settings.pen_variant].label} (P)`}
 				active={active_tool === 'freehand'}
 				on_click={() => Gated_Tool_Change('freehand')}
 				disabled={eb}
@@ -124,6 +146,46 @@ export function Toolbar({
 				on_toggle_dropdown={() => Toggle_Dropdown('pen')}
 				is_mobile={is_mobile}
 			>
+				<DropdownSection label="Kind">
+					<div style={chip_row_style}>
+						{(Object.keys(PEN_VARIANTS) as PenVariant[]).map(v => (
+							<button
+								key={v}
+								onClick={() => on_tool_settings_change({ pen_variant: v })}
+								style={{
+									...chip_style,
+									background: tool_settings.pen_variant === v ? '#e3f2fd' : '#f5f5f5',
+									border: tool_settings.pen_variant === v ? '1px solid #90caf9' : '1px solid #ddd',
+									fontSize: 12,
+									padding: '0 8px',
+								}}
+							>
+								{PEN_VARIANTS[v].label}
+							</button>
+						))}
+					</div>
+				</DropdownSection>
+				{tool_settings.pen_variant !== 'highlighter' && (
+					<DropdownSection label="Snap to shape">
+						<div style={chip_row_style}>
+							{([[false, 'Off'], [true, 'Boxes, lines & arrows']] as const).map(([on, name]) => (
+								<button
+									key={name}
+									onClick={() => on_tool_settings_change({ pen_snap_to_shape: on })}
+									style={{
+										...chip_style,
+										background: tool_settings.pen_snap_to_shape === on ? '#e3f2fd' : '#f5f5f5',
+										border: tool_settings.pen_snap_to_shape === on ? '1px solid #90caf9' : '1px solid #ddd',
+										fontSize: 12,
+										padding: '0 8px',
+									}}
+								>
+									{name}
+								</button>
+							))}
+						</div>
+					</DropdownSection>
+				)}
 				<DropdownSection label="Size">
 					<div style={chip_row_style}>
 						{[1, 2, 4, 6, 8].map(s => (
@@ -146,6 +208,81 @@ export function Toolbar({
 					<ColourGrid colors={QUICK_COLORS} selected={tool_settings.pen_color}
 						on_select={(c) => on_tool_settings_change({ pen_color: c })} />
 				</DropdownSection>
+				{([
+					['Thinning', 'pen_thinning', PEN_THINNING_OPTIONS],
+					['Smoothing', 'pen_streamline', PEN_STREAMLINE_OPTIONS],
+					['Taper', 'pen_taper', PEN_TAPER_OPTIONS],
+				] as const).filter(([, key]) => key === 'pen_streamline' || PEN_VARIANTS[tool_settings.pen_variant].pressure).map(([section, key, options]) => (
+					<DropdownSection key={key} label={section}>
+						<div style={chip_row_style}>
+							{options.map(opt => (
+								<button
+									key={opt.value}
+									onClick={() => on_tool_settings_change({ [key]: opt.value })}
+									style={{
+										...chip_style,
+										background: tool_settings[key] === opt.value ? '#e3f2fd' : '#f5f5f5',
+										border: tool_settings[key] === opt.value ? '1px solid #90caf9' : '1px solid #ddd',
+										fontSize: 12,
+										padding: '0 8px',
+									}}
+								>
+									{opt.label}
+								</button>
+							))}
+						</div>
+					</DropdownSection>
+				))}
+			</ToolBtnWithDropdown>
+
+			{/* Eraser */}
+			<ToolBtnWithDropdown
+				icon="⌫"
+				label={`Eraser (E) — ${tool_settings.eraser_mode === 'stroke' ? 'whole strokes' : 'parts of strokes'}`}
+				active={active_tool === 'eraser'}
+				on_click={() => Gated_Tool_Change('eraser')}
+				disabled={eb}
+				dropdown_open={open_dropdown === 'eraser'}
+				on_toggle_dropdown={() => Toggle_Dropdown('eraser')}
+				is_mobile={is_mobile}
+			>
+				<DropdownSection label="Erase">
+					<div style={chip_row_style}>
+						{([['stroke', 'Whole strokes'], ['pixel', 'Parts of strokes']] as const).map(([mode, name]) => (
+							<button
+								key={mode}
+								onClick={() => on_tool_settings_change({ eraser_mode: mode })}
+								style={{
+									...chip_style,
+									background: tool_settings.eraser_mode === mode ? '#e3f2fd' : '#f5f5f5',
+									border: tool_settings.eraser_mode === mode ? '1px solid #90caf9' : '1px solid #ddd',
+									fontSize: 12,
+									padding: '0 8px',
+								}}
+							>
+								{name}
+							</button>
+						))}
+					</div>
+				</DropdownSection>
+				<DropdownSection label="Size">
+					<div style={chip_row_style}>
+						{ERASER_SIZES.map(s => (
+							<button
+								key={s}
+								onClick={() => on_tool_settings_change({ eraser_size: s })}
+								title={`${s}px`}
+								style={{
+									...chip_style,
+									background: tool_settings.eraser_size === s ? '#e3f2fd' : '#f5f5f5',
+									border: tool_settings.eraser_size === s ? '1px solid #90caf9' : '1px solid #ddd',
+								}}
+							>
+								<svg width={20} height={20}><circle cx={10} cy={10} r={Math.min(s / 4, 9)} fill="none" stroke="#333" /></svg>
+							</button>
+						))}
+					</div>
+				</DropdownSection>
 			</ToolBtnWithDropdown>
 
 			{/* Text */}
@@ -183,6 +320,23 @@ export function Toolbar({
 				</DropdownSection>
 			</ToolBtnWithDropdown>
 
+			{/* Sticky note */}
+			<ToolBtnWithDropdown
+				icon="🗒"
+				label="Sticky note (N)"
+				active={active_tool === 'sticky'}
+				on_click={() => Gated_Tool_Change('sticky')}
+				disabled={eb}
+				dropdown_open={open_dropdown === 'sticky'}
+				on_toggle_dropdown={() => Toggle_Dropdown('sticky')}
+				is_mobile={is_mobile}
+			>
+				<DropdownSection label="Paper">
+					<ColourGrid colors={STICKY_COLOURS} selected={tool_settings.sticky_colour}
+						on_select={(c) => on_tool_settings_change({ sticky_colour: c })} />
+				</DropdownSection>
+			</ToolBtnWithDropdown>
+
 			{/* Shape */}
 			<ToolBtnWithDropdown
 				icon={SHAPE_ICONS[tool_settings.shape_type] || '▭'}
@@ -200,7 +354,7 @@ export function Toolbar({
 							<button
 								key={type}
 								onClick={() => {
-									on_tool_settings_change({ shape_type: type as ShapeType });
+									on_tool_settings_change({ shape_type: type as DrawableShapeType });
 									set_open_dropdown(null);
 								}}
 								style={{
@@ -242,6 +396,15 @@ export function Toolbar({
 				</DropdownSection>
 			</ToolBtnWithDropdown>
 
+			{/* Frame */}
+			<ToolBtn
+				icon="▢"
+				label="Frame (F)"
+				active={active_tool === 'frame'}
+				on_click={() => Gated_Tool_Change('frame')}
+				disabled={eb}
+			/>
+
 			{/* Connector */}
 			<ToolBtnWithDropdown
 				icon="→"
@@ -273,7 +436,7 @@ export function Toolbar({
 				</DropdownSection>
 				<DropdownSection label="Arrow type">
 					<div style={chip_row_style}>
-						{([['forward', '→ Forward'], ['back', '← Back'], ['both', '↔ Both']] as const).map(([type, label]) => (
+						{([['forward', '→ Forward'], ['back', '← Back'], ['both', '↔ Both'], ['none', '— None']] as const).map(([type, label]) => (
 							<button
 								key={type}
 								onClick={() => on_tool_settings_change({ arrow_type: type as ArrowType })}
@@ -356,6 +519,38 @@ export function Toolbar({
 				</DropdownSection>
 			</ToolBtnWithDropdown>
 
+			{/* Auto-layout */}
+			<ToolBtnWithDropdown
+				icon="⑆"
+				label={`Auto-layout (${layout.label.slice(2)}) — the selection, or every connected shape`}
+				active={false}
+				on_click={() => on_layout(layout.algorithm, layout.direction)}
+				disabled={eb}
+				dropdown_open={open_dropdown === 'layout'}
+				on_toggle_dropdown={() => Toggle_Dropdown('layout')}
+				is_mobile={is_mobile}
+			>
+				<DropdownSection label={has_selection ? 'Lay out selection' : 'Lay out diagram'}>
+					<div style={{ ...chip_row_style, width: 180 }}>
+						{LAYOUT_OPTIONS.map(opt => (
+							<button
+								key={`${opt.algorithm}-${opt.direction}`}
+								onClick={() => { set_layout(opt); on_layout(opt.algorithm, opt.direction); set_open_dropdown(null); }}
+								style={{
+									...chip_style,
+									background: layout === opt ? '#e3f2fd' : '#f5f5f5',
+									border: layout === opt ? '1px solid #90caf9' : '1px solid #ddd',
+									fontSize: 12,
+									padding: '0 8px',
+								}}
+							>
+								{opt.label}
+							</button>
+						))}
+					</div>
+				</DropdownSection>
+			</ToolBtnWithDropdown>
+
 			{/* Duplicate */}
 			<ToolBtn icon="⧉" label="Duplicate (Ctrl+D)" active={false} on_click={on_duplicate} disabled={!has_selection || eb} />
 
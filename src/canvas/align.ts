@@ -0,0 +1,249 @@
+import type { Bounds, Point } from './types';
+
+// Alignment helpers: lining up and spacing out a selection, and the smart guides that snap a
+// dragged or resized box to the shapes around it. Everything works on the boxes elements
+// cover on the board, so a rotated shape lines up by its rotated outline.
+
+export type AlignEdge = 'left' | 'centre' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// A guide to draw while snapping, in canvas coords: a line that boxes share, or (gap) the
+// space between two boxes that matches another
+export interface SnapGuide {
+	x1: number;
+	y1: number;
+	x2: number;
+	y2: number;
+	gap?: boolean;
+}
+
+// How far a snapped box moves on each axis, and the guides to show for it
+export interface SnapResult {
+	dx: number;
+	dy: number;
+	guides: SnapGuide[];
+}
+
+// Which edges of a box a resize is moving
+export interface ResizeEdges {
+	left: boolean;
+	right: boolean;
+	top: boolean;
+	bottom: boolean;
+}
+
+// Offsets that line boxes up on an edge or centre line of the box around them all
+export function Align_Offsets(boxes: Map<string, Bounds>, edge: AlignEdge): Map<string, Point> {
+	const offsets = new Map<string, Point>();
+	if (boxes.size < 2) return offsets;
+	const all = [...boxes.values()];
+	const min_x = Math.min(...all.map(b => b.x));
+	const max_x = Math.max(...all.map(b => b.x + b.width));
+	const min_y = Math.min(...all.map(b => b.y));
+	const max_y = Math.max(...all.map(b => b.y + b.height));
+	for (const [id, b] of boxes) {
+		let dx = 0, dy = 0;
+		if (edge === 'left') dx = min_x - b.x;
+		else if (edge === 'centre') dx = (min_x + max_x) / 2 - (b.x + b.width / 2);
+		else if (edge === 'right') dx = max_x - (b.x + b.width);
+		else if (edge === 'top') dy = min_y - b.y;
+		else if (edge === 'middle') dy = (min_y + max_y) / 2 - (b.y + b.height / 2);
+		else dy = max_y - (b.y + b.height);
+		offsets.set(id, { x: dx, y: dy });
+	}
+	return offsets;
+}
+
+// Offsets that leave equal gaps between boxes along an axis. The first and last boxes stay
+// where they are.
+export function Distribute_Offsets(boxes: Map<string, Bounds>, axis: DistributeAxis): Map<string, Point> {
+	const offsets = new Map<string, Point>();
+	if (boxes.size < 3) return offsets;
+	const x = axis === 'horizontal';
+	const Start = (b: Bounds) => x ? b.x : b.y;
+	const Size = (b: Bounds) => x ? b.width : b.height;
+	const ordered = [...boxes].sort(([, a], [, b]) => (Start(a) + Size(a) / 2) - (Start(b) + Size(b) / 2));
+	const first = ordered[0][1];
+	const last = ordered[ordered.length - 1][1];
+	const span = Start(last) + Size(last) - Start(first);
+	const gap = (span - ordered.reduce((sum, [, b]) => sum + Size(b), 0)) / (ordered.length - 1);
+	let at = Start(first);
+	for (const [id, b] of ordered) {
+		const d = at - Start(b);
+		offsets.set(id, x ? { x: d, y: 0 } : { x: 0, y: d });
+		at += Size(b) + gap;
+	}
+	return offsets;
+}
+
+// ── Smart guides ──
+
+// A box seen along one axis: 'start'/'end' along it, 'from'/'to' across it
+interface Span {
+	start: number;
+	end: number;
+	from: number;
+	to: number;
+}
+
+// A guide along one axis: a line at 'at' running from 'from' to 'to' across the axis, or a
+// gap from 'at' to 'end' along the axis, drawn at 'from' across it
+interface AxisGuide {
+	at: number;
+	end?: number;
+	from: number;
+	to: number;
+}
+
+// Matches closer than this are treated as exact when picking guides to show
+const EPSILON = 0.5;
+
+function Span_Of(b: Bounds, along_x: boolean): Span {
+	return along_x
+		? { start: b.x, end: b.x + b.width, from: b.y, to: b.y + b.height }
+		: { start: b.y, end: b.y + b.height, from: b.x, to: b.x + b.width };
+}
+
+function Lines(s: Span): number[] {
+	return [s.start, (s.start + s.end) / 2, s.end];
+}
+
+function Overlap_Across(a: Span, b: Span): boolean {
+	return a.from < b.to && b.from < a.to;
+}
+
+// Gap guide between a span and the next one along
+function Gap(a: Span, b: Span): AxisGuide {
+	const across = (Math.max(a.from, b.from) + Math.min(a.to, b.to)) / 2;
+	return { at: a.end, end: b.start, from: across, to: across };
+}
+
+// Positions the box's start could snap to so that it sits an equal gap from its neighbours:
+// centred between the nearest box either side, or as far from one as that box is from the
+// next one along
+function Gap_Starts(box: Span, targets: Span[]): { start: number; guides: AxisGuide[] }[] {
+	const size = box.end - box.start;
+	const centre = (box.start + box.end) / 2;
+	const At = (start: number): Span => ({ ...box, start, end: start + size });
+	const row = targets.filter(t => Overlap_Across(t, box));
+	const prev = row.filter(t => (t.start + t.end) / 2 < centre).sort((a, b) => b.end - a.end)[0];
+	const next = row.filter(t => (t.start + t.end) / 2 >= centre).sort((a, b) => a.start - b.start)[0];
+	const results: { start: number; guides: AxisGuide[] }[] = [];
+	if (prev && next && next.start - prev.end > size) {
+		const placed = At((prev.end + next.start - size) / 2);
+		results.push({ start: placed.start, guides: [Gap(prev, placed), Gap(placed, next)] });
+	}
+	if (prev) {
+		const prev2 = targets.filter(t => t !== prev && Overlap_Across(t, prev) && t.end <= prev.start).sort((a, b) => b.end - a.end)[0];
+		if (prev2) {
+			const placed = At(prev.end + prev.start - prev2.end);
+			results.push({ start: placed.start, guides: [Gap(prev2, prev), Gap(prev, placed)] });
+		}
+	}
+	if (next) {
+		const next2 = targets.filter(t => t !== next && Overlap_Across(t, next) && t.start >= next.end).sort((a, b) => a.start - b.start)[0];
+		if (next2) {
+			const placed = At(next.start - (next2.start - next.end) - size);
+			results.push({ start: placed.start, guides: [Gap(placed, next), Gap(next, next2)] });
+		}
+	}
+	return results;
+}
+
+// Snap a box along one axis. 'lines' picks which of the box's lines (start, centre, end) may
+// snap; 'gaps' allows equal-gap snapping. Returns the offset to apply and the guides it lines
+// up with, or null if nothing is within 'threshold'.
+function Snap_Axis(box: Span, targets: Span[], threshold: number, lines: boolean[], gaps: boolean): { offset: number; guides: AxisGuide[] } | null {
+	const own = Lines(box);
+	let best: number | null = null;
+	const Consider = (offset: number) => {
+		if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) best = offset;
+	};
+	for (const t of targets) {
+		for (const line of Lines(t)) own.forEach((l, i) => lines[i] && Consider(line - l));
+	}
+	const gap_starts = gaps ? Gap_Starts(box, targets) : [];
+	for (const g of gap_starts) Consider(g.start - box.start);
+	if (best === null) return null;
+
+	// Guides for everything the snapped box now lines up with
+	const offset: number = best;
+	const moved = own.map(l => l + offset);
+	const guides: AxisGuide[] = [];
+	moved.forEach((l, i) => {
+		if (!lines[i]) return;
+		const hits = targets.filter(t => Lines(t).some(line => Math.abs(line - l) < EPSILON));
+		if (hits.length === 0) return;
+		guides.push({ at: l, from: Math.min(...hits.map(t => t.from)), to: Math.max(...hits.map(t => t.to)) });
+	});
+	for (const g of gap_starts) {
+		if (Math.abs(g.start - (box.start + offset)) < EPSILON) guides.push(...g.guides);
+	}
+	return { offset, guides };
+}
+
+function To_Guide(g: AxisGuide, along_x: boolean): SnapGuide {
+	if (g.end !== undefined) {
+		return along_x
+			? { x1: g.at, y1: g.from, x2: g.end, y2: g.from, gap: true }
+			: { x1: g.from, y1: g.at, x2: g.from, y2: g.end, gap: true };
+	}
+	return along_x
+		? { x1: g.at, y1: g.from, x2: g.at, y2: g.to }
+		: { x1: g.from, y1: g.at, x2: g.to, y2: g.at };
+}
+
+// Snap a moving box to the edges and centres of the boxes around it, and to gaps that match
+// theirs. 'threshold' is how close (in canvas units) it has to be to snap. Axes that don't
+// snap take the offset in 'fallback' (grid snapping, say).
+export function Snap_Move(box: Bounds, targets: Bounds[], threshold: number, fallback: Point = { x: 0, y: 0 }): SnapResult {
+	const all = [true, true, true];
+	const along_x = targets.map(t => Span_Of(t, true));
+	const along_y = targets.map(t => Span_Of(t, false));
+	const sx = Snap_Axis(Span_Of(box, true), along_x, threshold, all, true);
+	const sy = Snap_Axis(Span_Of(box, false), along_y, threshold, all, true);
+	const dx = sx?.offset ?? fallback.x;
+	const dy = sy?.offset ?? fallback.y;
+	// Guides for where the box ends up on both axes
+	const snapped = { ...box, x: box.x + dx, y: box.y + dy };
+	const gx = sx && Snap_Axis(Span_Of(snapped, true), along_x, EPSILON, all, true);
+	const gy = sy && Snap_Axis(Span_Of(snapped, false), along_y, EPSILON, all, true);
+	const guides = [
+		...(gx?.guides ?? []).map(g => To_Guide(Stretch(g, snapped.y, snapped.y + snapped.height), true)),
+		...(gy?.guides ?? []).map(g => To_Guide(Stretch(g, snapped.x, snapped.x + snapped.width), false)),
+	];
+	return { dx, dy, guides };
+}
+
+// Snap the moving edges of a box being resized to the edges and centres of the boxes around
+// it. Axes that don't snap take their position and size from 'fallback'. Returns the
+// adjusted box and the guides it lines up with.
+export function Snap_Resize(box: Bounds, targets: Bounds[], threshold: number, edges: ResizeEdges, fallback: Bounds = box): { bounds: Bounds; guides: SnapGuide[] } {
+	let { x, y, width, height } = fallback;
+	const found: { guide: AxisGuide; along_x: boolean }[] = [];
+	const Edge = (along_x: boolean, start: boolean) => {
+		const s = Snap_Axis(Span_Of(box, along_x), targets.map(t => Span_Of(t, along_x)), threshold, [start, false, !start], false);
+		if (!s) return;
+		// The snapped edge moves and the opposite one stays put
+		if (along_x) {
+			x = start ? box.x + s.offset : box.x;
+			width = start ? box.width - s.offset : box.width + s.offset;
+		} else {
+			y = start ? box.y + s.offset : box.y;
+			height = start ? box.height - s.offset : box.height + s.offset;
+		}
+		found.push(...s.guides.map(guide => ({ guide, along_x })));
+	};
+	if (edges.left) Edge(true, true);
+	else if (edges.right) Edge(true, false);
+	if (edges.top) Edge(false, true);
+	else if (edges.bottom) Edge(false, false);
+	const guides = found.map(({ guide, along_x }) => To_Guide(along_x ? Stretch(guide, y, y + height) : Stretch(guide, x, x + width), along_x));
+	return { bounds: { x, y, width, height }, guides };
+}
+
+// Extend a line guide to reach the box that snapped to it
+function Stretch(g: AxisGuide, from: number, to: number): AxisGuide {
+	if (g.end !== undefined) return g;
+	return { ...g, from: Math.min(g.from, from), to: Math.max(g.to, to) };
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import type { CanvasState } from './types';
+
+// Image asset store.
+// Image shapes reference their pixels by asset id (SHA-256 of the file bytes) rather than
+// embedding them, so saved boards, undo snapshots and collab ops stay small. Blobs live in
+// IndexedDB on each device. Cloud boards keep a copy of their assets next to the board file
+// (see GraphService), collaborators fetch missing assets from each other on demand (see
+// CollabSession), and exported JSON files embed them as data URLs.
+
+const DB_NAME = 'whitebored-assets';
+const STORE_NAME = 'assets';
+
+let db_promise: Promise<IDBDatabase> | null = null;
+
+// Object URLs for assets loaded this session
+const url_cache = new Map<string, string>();
+
+// Notified when an asset becomes available locally
+const listeners = new Set<(asset_id: string) => void>();
+
+// Called (once per asset) when a shape needs an asset this device doesn't have
+let missing_resolver: ((asset_id: string) => void) | null = null;
+const requested = new Set<string>();
+
+function Open_Db(): Promise<IDBDatabase> {
+	if (!db_promise) {
+		db_promise = new Promise((resolve, reject) => {
+			const req = indexedDB.open(DB_NAME, 1);
+			req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+			req.onsuccess = () => resolve(req.result);
+			req.onerror = () => { db_promise = null; reject(req.error); };
+		});
+	}
+	return db_promise;
+}
+
+async function Db_Request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	const db = await Open_Db();
+	return new Promise((resolve, reject) => {
+		const req = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+		req.onsuccess = () => resolve(req.result);
+		req.onerror = () => reject(req.error);
+	});
+}
+
+async function Hash_Blob(blob: Blob): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+	return 'img_' + Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Store an image and return its asset id (identical images share an id)
+export async function Put_Asset(blob: Blob): Promise<string> {
+	const asset_id = await Hash_Blob(blob);
+	await Store_Asset(asset_id, blob);
+	return asset_id;
+}
+
+// Store an asset under a known id (received from a collaborator, the cloud or an imported file).
+// Throws if the bytes don't hash to the id, so nobody can plant other content under an id.
+export async function Store_Asset(asset_id: string, blob: Blob): Promise<void> {
+	if (!(await Has_Asset(asset_id))) {
+		if (await Hash_Blob(blob) !== asset_id) throw new Error(`Asset ${asset_id} doesn't match its content`);
+		await Db_Request('readwrite', store => store.put(blob, asset_id));
+	}
+	requested.delete(asset_id);
+	for (const listener of listeners) listener(asset_id);
+}
+
+export async function Get_Asset(asset_id: string): Promise<Blob | null> {
+	try {
+		return (await Db_Request<Blob | undefined>('readonly', store => store.get(asset_id))) ?? null;
+	} catch {
+		return null;
+	}
+}
+
+export async function Has_Asset(asset_id: string): Promise<boolean> {
+	try {
+		return (await Db_Request('readonly', store => store.count(asset_id))) > 0;
+	} catch {
+		return false;
+	}
+}
+
+// Object URL for an asset, or null if it isn't on this device
+export async function Load_Asset_Url(asset_id: string): Promise<string | null> {
+	const cached = url_cache.get(asset_id);
+	if (cached) return cached;
+	const blob = await Get_Asset(asset_id);
+	if (!blob) return null;
+	const url = URL.createObjectURL(blob);
+	url_cache.set(asset_id, url);
+	return url;
+}
+
+export function Set_Missing_Asset_Resolver(resolver: ((asset_id: string) => void) | null): void {
+	missing_resolver = resolver;
+}
+
+// Ask for every still-missing asset again (e.g. after (re)connecting to a session)
+export function Retry_Missing_Assets(): void {
+	const ids = Array.from(requested);
+	requested.clear();
+	for (const id of ids) {
+		for (const listener of listeners) listener(id);
+	}
+}
+
+// Resolve an asset id to a URL for rendering; re-renders when the asset arrives
+export function useAssetUrl(asset_id: string | undefined): string | null {
+	const [url, set_url] = useState<string | null>(() => asset_id ? url_cache.get(asset_id) ?? null : null);
+
+	useEffect(() => {
+		if (!asset_id) return;
+		let cancelled = false;
+		const Resolve = () => {
+			Load_Asset_Url(asset_id).then(found => {
+				if (cancelled) return;
+				set_url(found);
+				if (!found && missing_resolver && !requested.has(asset_id)) {
+					requested.add(asset_id);
+					missing_resolver(asset_id);
+				}
+			});
+		};
+		const listener = (id: string) => { if (id === asset_id) Resolve(); };
+		listeners.add(listener);
+		Resolve();
+		return () => { cancelled = true; listeners.delete(listener); };
+	}, [asset_id]);
+
+	return url;
+}
+
+// Asset ids referenced by a board
+export function Referenced_Asset_Ids(state: CanvasState): string[] {
+	const ids = new Set<string>();
+	for (const s of state.shapes) {
+		if (s.image) ids.add(s.image.asset_id);
+	}
+	return Array.from(ids);
+}
+
+// Read an image file's pixel size
+export function Image_Size(blob: Blob): Promise<{ width: number; height: number }> {
+	return new Promise((resolve, reject) => {
+		const url = URL.createObjectURL(blob);
+		const img = new Image();
+		img.onload = () => { URL.revokeObjectURL(url); resolve({ width: img.naturalWidth, height: img.naturalHeight }); };
+		img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Unsupported image')); };
+		img.src = url;
+	});
+}
+
+export function Blob_To_Data_Url(blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(blob);
+	});
+}
+
+// Copy of a board with its assets embedded as data URLs (for self-contained JSON export)
+export async function Embed_Assets(state: CanvasState): Promise<CanvasState> {
+	const assets: Record<string, string> = {};
+	for (const id of Referenced_Asset_Ids(state)) {
+		const blob = await Get_Asset(id);
+		if (blob) assets[id] = await Blob_To_Data_Url(blob);
+	}
+	return Object.keys(assets).length > 0 ? { ...state, assets } : state;
+}
+
+// Move assets embedded in an imported file into the store; returns the board without them.
+// Only data URLs are read (a file can't make us fetch from elsewhere), and assets that don't
+// match their id are skipped.
+export async function Extract_Embedded_Assets(raw: any): Promise<any> {
+	if (!raw || typeof raw !== 'object' || !raw.assets) return raw;
+	const { assets, ...rest } = raw;
+	for (const [id, data_url] of Object.entries(assets as Record<string, unknown>)) {
+		if (typeof data_url !== 'string' || !data_url.startsWith('data:')) {
+			console.warn(`Skipped embedded asset ${id}: not a data URL`);
+			continue;
+		}
+		try {
+			await Store_Asset(id, await (await fetch(data_url)).blob());
+		} catch (err) {
+			console.warn(`Skipped embedded asset ${id}:`, err);
+		}
+	}
+	return rest;
+}
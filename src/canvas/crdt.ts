@@ -0,0 +1,498 @@
+import type { Shape, Connector, FreehandPath, Group } from './types';
+
+// Replicated document model for live collaboration.
+// Every element is a set of last-writer-wins registers, one per field, ordered by Lamport
+// stamps (counter, then site id to break ties) so all clients pick the same winner whatever
+// order ops arrive in. Object fields (style, connector ends, image) get a register per
+// sub-field ('style.fill'), so changing the fill doesn't undo someone else's new stroke. Existence is itself a register ('deleted'), so a delayed update can't
+// bring a deleted element back, while undo can still deliberately re-add it. Free text (shape
+// text, connector labels) is a sequence of characters (RGA), so concurrent typing in the same
+// label interleaves instead of one edit replacing the other. Formatting over that text (shape
+// text marks) is pinned to the characters at the ends of each range, so it stays on the same
+// characters however the typing merges.
+// Pure data — no DOM — so the merge harness (scripts/crdt-merge.mjs) can run it under Node.
+
+export type CrdtKind = 'shape' | 'connector' | 'freehand' | 'group';
+export type CrdtElement = Shape | Connector | FreehandPath | Group;
+
+// Lamport stamp: c = counter, s = site id
+export interface Stamp { c: number; s: string }
+
+// Text sequence ops: insert a character after another (null = at the start), or delete one
+export type TextOp = { i: Stamp; a: Stamp | null; ch: string } | { d: Stamp };
+
+// One element's changes, as sent between clients
+export interface CrdtOp {
+	kind: CrdtKind;
+	id: string;
+	fields?: Record<string, { v: unknown; t: Stamp }>;
+	text?: Record<string, TextOp[]>;
+	deleted?: { v: boolean; t: Stamp };
+}
+
+// The visible result of applying an op. 'fields' lists the fields that changed, or is
+// omitted when the element appeared; item is null when the element disappeared.
+export interface CrdtChange {
+	kind: CrdtKind;
+	id: string;
+	item: CrdtElement | null;
+	fields?: string[];
+}
+
+export interface CrdtSnapshot {
+	counter: number;
+	elements: {
+		kind: CrdtKind;
+		id: string;
+		fields: Record<string, { v: unknown; t: Stamp }>;
+		text: Record<string, { id: Stamp; a: Stamp | null; ch: string; del: boolean }[]>;
+		deleted: { v: boolean; t: Stamp };
+	}[];
+}
+
+// Fields merged character by character rather than as a whole
+const TEXT_FIELDS: Record<CrdtKind, string[]> = {
+	shape: ['text'],
+	connector: ['label'],
+	freehand: [],
+	group: [],
+};
+
+// Object fields replicated one sub-field at a time
+const NESTED_FIELDS: Record<CrdtKind, string[]> = {
+	shape: ['style', 'image'],
+	connector: ['style', 'source', 'target'],
+	freehand: ['style'],
+	group: [],
+};
+
+// Fields holding ranges over a text field's characters ([start, end) offsets, see richtext.ts)
+const MARK_FIELDS: Record<CrdtKind, Record<string, string>> = {
+	shape: { text_marks: 'text' },
+	connector: {},
+	freehand: {},
+	group: {},
+};
+
+// An offset range as replicated: 'first' is the first character in it (null = the end of the
+// text) and 'last' the last one (null = the start), so text typed at either edge stays outside.
+// An empty range has 'last' just before 'first'.
+type Range = { start: number; end: number };
+type AnchoredRange = { first: Stamp | null; last: Stamp | null };
+
+// Stamp of the state an element had before anyone edited it in this session
+const BASE_STAMP: Stamp = { c: 0, s: '' };
+
+export function Compare_Stamps(a: Stamp, b: Stamp): number {
+	if (a.c !== b.c) return a.c - b.c;
+	return a.s < b.s ? -1 : a.s > b.s ? 1 : 0;
+}
+
+function Stamp_Key(t: Stamp): string {
+	return `${t.c}@${t.s}`;
+}
+
+interface TextNode { id: Stamp; a: Stamp | null; ch: string; del: boolean }
+
+// Replicated growable array of characters
+class TextSeq {
+	nodes: TextNode[] = [];
+	private m_index = new Map<string, TextNode>();
+	// Ops that refer to characters we haven't received yet
+	private m_pending: TextOp[] = [];
+
+	static From(nodes: TextNode[]): TextSeq {
+		const seq = new TextSeq();
+		for (const n of nodes) {
+			const node = { ...n };
+			seq.nodes.push(node);
+			seq.m_index.set(Stamp_Key(n.id), node);
+		}
+		return seq;
+	}
+
+	get Value(): string {
+		let s = '';
+		for (const n of this.nodes) if (!n.del) s += n.ch;
+		return s;
+	}
+
+	// Apply an op; returns true if the visible text may have changed
+	Apply(op: TextOp): boolean {
+		if (!this.Try_Apply(op)) {
+			this.m_pending.push(op);
+			return false;
+		}
+		// Anything waiting on this op can now go in
+		for (let progress = true; progress && this.m_pending.length > 0;) {
+			progress = false;
+			for (const p of this.m_pending.slice()) {
+				if (this.Try_Apply(p)) {
+					this.m_pending.splice(this.m_pending.indexOf(p), 1);
+					progress = true;
+				}
+			}
+		}
+		return true;
+	}
+
+	// Ops that rebuild this sequence from scratch (a character always follows the one it was inserted after)
+	History(): TextOp[] {
+		const ops: TextOp[] = this.nodes.map(n => ({ i: n.id, a: n.a, ch: n.ch }));
+		for (const n of this.nodes) if (n.del) ops.push({ d: n.id });
+		return ops;
+	}
+
+	// Ops that turn the current text into 'next' (replacing the differing middle section)
+	Diff(next: string, Next_Stamp: () => Stamp): TextOp[] {
+		const visible = this.nodes.filter(n => !n.del);
+		const chars = Array.from(next);
+		let start = 0;
+		while (start < visible.length && start < chars.length && visible[start].ch === chars[start]) start++;
+		let end = 0;
+		while (end < visible.length - start && end < chars.length - start &&
+			visible[visible.length - 1 - end].ch === chars[chars.length - 1 - end]) end++;
+
+		const ops: TextOp[] = [];
+		for (const n of visible.slice(start, visible.length - end)) ops.push({ d: n.id });
+		let after = start > 0 ? visible[start - 1].id : null;
+		for (const ch of chars.slice(start, chars.length - end)) {
+			const i = Next_Stamp();
+			ops.push({ i, a: after, ch });
+			after = i;
+		}
+		return ops;
+	}
+
+	// Pin offset ranges to the characters currently at their ends
+	Anchor<T extends Range>(ranges: T[]): (Omit<T, keyof Range> & AnchoredRange)[] {
+		const visible = this.nodes.filter(n => !n.del);
+		return ranges.map(({ start, end, ...rest }) => ({
+			...rest,
+			first: visible[start]?.id ?? null,
+			last: end > 0 ? visible[end - 1]?.id ?? null : null,
+		}));
+	}
+
+	// Offsets of anchored ranges in the current text. An end whose character has been deleted
+	// moves in to the nearest one left; ranges with all their characters gone collapse, and ones
+	// that refer to characters we haven't received yet are left out until they arrive.
+	Resolve<T extends AnchoredRange>(ranges: T[]): (Omit<T, keyof AnchoredRange> & Range)[] {
+		// Per character: how many visible characters come before it
+		const before = new Map<string, { count: number; node: TextNode }>();
+		let count = 0;
+		for (const n of this.nodes) {
+			before.set(Stamp_Key(n.id), { count, node: n });
+			if (!n.del) count++;
+		}
+		const result: (Omit<T, keyof AnchoredRange> & Range)[] = [];
+		for (const { first, last, ...rest } of ranges) {
+			const from = first ? before.get(Stamp_Key(first)) : null;
+			const to = last ? before.get(Stamp_Key(last)) : null;
+			if ((first && !from) || (last && !to)) continue;
+			const start = from ? from.count : count;
+			const end = to ? to.count + (to.node.del ? 0 : 1) : 0;
+			result.push({ ...rest, start, end: Math.max(start, end) });
+		}
+		return result;
+	}
+
+	private Try_Apply(op: TextOp): boolean {
+		if ('d' in op) {
+			const node = this.m_index.get(Stamp_Key(op.d));
+			if (!node) return false;
+			node.del = true;
+			return true;
+		}
+		if (this.m_index.has(Stamp_Key(op.i))) return true; // duplicate
+		let pos = 0;
+		if (op.a) {
+			const ref = this.m_index.get(Stamp_Key(op.a));
+			if (!ref) return false;
+			pos = this.nodes.indexOf(ref) + 1;
+		}
+		// Concurrent inserts at the same place: the later stamp goes first
+		while (pos < this.nodes.length && Compare_Stamps(this.nodes[pos].id, op.i) > 0) pos++;
+		const node: TextNode = { id: op.i, a: op.a, ch: op.ch, del: false };
+		this.nodes.splice(pos, 0, node);
+		this.m_index.set(Stamp_Key(op.i), node);
+		return true;
+	}
+}
+
+interface ElementRecord {
+	kind: CrdtKind;
+	id: string;
+	fields: Map<string, { v: unknown; t: Stamp }>;
+	text: Map<string, TextSeq>;
+	deleted: { v: boolean; t: Stamp };
+}
+
+export class CrdtDoc {
+	private m_site: string;
+	private m_counter = 0;
+	private m_records = new Map<string, ElementRecord>();
+
+	constructor(site_id: string) {
+		this.m_site = site_id;
+	}
+
+	// Start from a plain board (e.g. when hosting a session). Every field gets the base stamp,
+	// so any edit made in the session wins over it.
+	Reset(elements: { kind: CrdtKind; items: CrdtElement[] }[]): void {
+		this.m_records.clear();
+		for (const { kind, items } of elements) {
+			for (const item of items) {
+				const record = this.New_Record(kind, item.id);
+				record.deleted = { v: false, t: BASE_STAMP };
+				for (const [key, v] of Object.entries(item)) {
+					if (key === 'id' || key in MARK_FIELDS[kind]) continue;
+					if (TEXT_FIELDS[kind].includes(key)) {
+						// Characters of the base text are stamped (0, "#<index>") — identical on every client
+						const nodes: TextNode[] = [];
+						for (const ch of Array.from(String(v ?? ''))) {
+							const id = { c: 0, s: `#${String(nodes.length).padStart(6, '0')}` };
+							nodes.push({ id, a: nodes.length > 0 ? nodes[nodes.length - 1].id : null, ch, del: false });
+						}
+						record.text.set(key, TextSeq.From(nodes));
+					} else if (NESTED_FIELDS[kind].includes(key)) {
+						for (const [sub, sv] of Object.entries(v ?? {})) record.fields.set(`${key}.${sub}`, { v: sv, t: BASE_STAMP });
+					} else {
+						record.fields.set(key, { v, t: BASE_STAMP });
+					}
+				}
+				// Marks once their text is in
+				for (const [key, text_key] of Object.entries(MARK_FIELDS[kind])) {
+					const v = (item as unknown as Record<string, unknown>)[key];
+					if (key in item) record.fields.set(key, { v: Anchor_Marks(record, text_key, v), t: BASE_STAMP });
+				}
+			}
+		}
+	}
+
+	Snapshot(): CrdtSnapshot {
+		return {
+			counter: this.m_counter,
+			elements: Array.from(this.m_records.values()).map(r => ({
+				kind: r.kind,
+				id: r.id,
+				fields: Object.fromEntries(r.fields),
+				text: Object.fromEntries(Array.from(r.text, ([key, seq]) => [key, seq.nodes])),
+				deleted: r.deleted,
+			})),
+		};
+	}
+
+	Load(snapshot: CrdtSnapshot): void {
+		this.m_records.clear();
+		this.m_counter = Math.max(this.m_counter, snapshot.counter);
+		for (const e of snapshot.elements) {
+			this.m_records.set(e.id, {
+				kind: e.kind,
+				id: e.id,
+				fields: new Map(Object.entries(e.fields)),
+				text: new Map(Object.entries(e.text).map(([key, nodes]) => [key, TextSeq.From(nodes)])),
+				deleted: e.deleted,
+			});
+		}
+	}
+
+	// Catch up from another client's snapshot (e.g. after being offline). Unlike Load, this
+	// merges: our own edits survive where they're newer. Returns what changed visibly.
+	Merge(snapshot: CrdtSnapshot): CrdtChange[] {
+		this.m_counter = Math.max(this.m_counter, snapshot.counter);
+		const changes: CrdtChange[] = [];
+		for (const e of snapshot.elements) {
+			// New to us: take it as is (an op can't raise base-stamped elements from deleted)
+			if (!this.m_records.has(e.id)) {
+				const record: ElementRecord = {
+					kind: e.kind,
+					id: e.id,
+					fields: new Map(Object.entries(e.fields)),
+					text: new Map(Object.entries(e.text).map(([key, nodes]) => [key, TextSeq.From(nodes)])),
+					deleted: e.deleted,
+				};
+				this.m_records.set(e.id, record);
+				if (!record.deleted.v) changes.push({ kind: e.kind, id: e.id, item: Materialise(record) });
+				continue;
+			}
+			const text: Record<string, TextOp[]> = {};
+			for (const [key, nodes] of Object.entries(e.text)) {
+				text[key] = [...nodes.map(n => ({ i: n.id, a: n.a, ch: n.ch })), ...nodes.filter(n => n.del).map(n => ({ d: n.id }))];
+			}
+			const change = this.Apply({ kind: e.kind, id: e.id, fields: e.fields, text, deleted: e.deleted });
+			if (change) changes.push(change);
+		}
+		return changes;
+	}
+
+	// The element as currently replicated (null if deleted or unknown)
+	Get(id: string): CrdtElement | null {
+		const record = this.m_records.get(id);
+		return record && !record.deleted.v ? Materialise(record) : null;
+	}
+
+	// Visible elements of one kind
+	Elements(kind: CrdtKind): CrdtElement[] {
+		const result: CrdtElement[] = [];
+		for (const r of this.m_records.values()) {
+			if (r.kind === kind && !r.deleted.v) result.push(Materialise(r));
+		}
+		return result;
+	}
+
+	// Record a local add/update of an element. Returns the op to send (null if nothing changed).
+	Local_Put(kind: CrdtKind, item: CrdtElement): CrdtOp | null {
+		const record = this.m_records.get(item.id) ?? this.New_Record(kind, item.id);
+		const op: CrdtOp = { kind, id: item.id };
+		const current = Materialise(record) as unknown as Record<string, unknown>;
+		const next = item as unknown as Record<string, unknown>;
+
+		// (Re-)adding: the op carries the whole element, so it shows up complete even on clients
+		// that missed its earlier ops. Unchanged values keep their stamps and don't win over newer edits.
+		const adding = record.deleted.v;
+		if (adding) op.deleted = { v: false, t: this.Next_Stamp() };
+		const marks = MARK_FIELDS[kind];
+		// Mark fields to pin to the text as it is after this edit
+		const anchor = new Set<string>();
+		for (const key of new Set([...Object.keys(current), ...Object.keys(next)])) {
+			if (key === 'id') continue;
+			const same = Same(current[key], next[key]);
+			if (same && !adding) continue;
+			if (key in marks && !same) {
+				anchor.add(key);
+			} else if (NESTED_FIELDS[kind].includes(key)) {
+				// One stamp for the whole change, so concurrent changes to the same sub-fields all
+				// go the same way
+				const cur = (current[key] ?? {}) as Record<string, unknown>;
+				const nxt = (next[key] ?? {}) as Record<string, unknown>;
+				let t: Stamp | undefined;
+				for (const sub of new Set([...Object.keys(cur), ...Object.keys(nxt)])) {
+					const path = `${key}.${sub}`;
+					if (!Same(cur[sub], nxt[sub])) (op.fields ??= {})[path] = { v: nxt[sub], t: t ??= this.Next_Stamp() };
+					else if (adding && record.fields.has(path)) (op.fields ??= {})[path] = record.fields.get(path)!;
+				}
+			} else if (TEXT_FIELDS[kind].includes(key)) {
+				const seq = record.text.get(key) ?? new TextSeq();
+				const ops = [...(adding ? seq.History() : []), ...seq.Diff(String(next[key] ?? ''), () => this.Next_Stamp())];
+				// An empty list still creates the field (e.g. a new shape with no text yet)
+				if (ops.length > 0 || adding || !record.text.has(key)) (op.text ??= {})[key] = ops;
+			} else if (!same) {
+				(op.fields ??= {})[key] = { v: next[key], t: this.Next_Stamp() };
+			} else if (record.fields.has(key)) {
+				(op.fields ??= {})[key] = record.fields.get(key)!;
+			}
+		}
+		// Re-pin marks whose text changed too, so they cover exactly what they cover here
+		for (const [key, text_key] of Object.entries(marks)) {
+			if (op.text?.[text_key]?.length && Array.isArray(next[key]) && next[key].length > 0) anchor.add(key);
+		}
+		if (!op.deleted && !op.fields && !op.text && anchor.size === 0) return null;
+		this.Apply(op);
+		for (const key of anchor) {
+			const reg = { v: Anchor_Marks(record, marks[key], next[key]), t: this.Next_Stamp() };
+			record.fields.set(key, reg);
+			(op.fields ??= {})[key] = reg;
+		}
+		return op;
+	}
+
+	// Record a local delete. Returns the op to send (null if already gone).
+	Local_Delete(id: string): CrdtOp | null {
+		const record = this.m_records.get(id);
+		if (!record || record.deleted.v) return null;
+		const op: CrdtOp = { kind: record.kind, id, deleted: { v: true, t: this.Next_Stamp() } };
+		this.Apply(op);
+		return op;
+	}
+
+	// Merge an op (local or remote). Returns what changed visibly, if anything.
+	Apply(op: CrdtOp): CrdtChange | null {
+		const record = this.m_records.get(op.id) ?? this.New_Record(op.kind, op.id);
+		const was_visible = !record.deleted.v;
+		const changed: string[] = [];
+
+		if (op.deleted) {
+			this.Observe(op.deleted.t);
+			if (Compare_Stamps(op.deleted.t, record.deleted.t) > 0) record.deleted = op.deleted;
+		}
+		for (const [key, reg] of Object.entries(op.fields ?? {})) {
+			this.Observe(reg.t);
+			const existing = record.fields.get(key);
+			if (!existing || Compare_Stamps(reg.t, existing.t) > 0) {
+				record.fields.set(key, reg);
+				const field = key.split('.')[0];
+				if (!changed.includes(field)) changed.push(field);
+			}
+		}
+		for (const [key, ops] of Object.entries(op.text ?? {})) {
+			let seq = record.text.get(key);
+			if (!seq) record.text.set(key, seq = new TextSeq());
+			let text_changed = false;
+			for (const t of ops) {
+				this.Observe('d' in t ? t.d : t.i);
+				if (seq.Apply(t)) text_changed = true;
+			}
+			if (text_changed) {
+				changed.push(key);
+				// Marks over the text may now land on other offsets
+				for (const [mark_key, text_key] of Object.entries(MARK_FIELDS[record.kind])) {
+					if (text_key === key && record.fields.has(mark_key) && !changed.includes(mark_key)) changed.push(mark_key);
+				}
+			}
+		}
+
+		const is_visible = !record.deleted.v;
+		if (!was_visible && !is_visible) return null;
+		if (!is_visible) return { kind: record.kind, id: op.id, item: null };
+		if (!was_visible) return { kind: record.kind, id: op.id, item: Materialise(record) };
+		return changed.length > 0 ? { kind: record.kind, id: op.id, item: Materialise(record), fields: changed } : null;
+	}
+
+	private New_Record(kind: CrdtKind, id: string): ElementRecord {
+		// Unknown elements start out deleted: only an add (or a snapshot) makes them visible
+		const record: ElementRecord = { kind, id, fields: new Map(), text: new Map(), deleted: { v: true, t: BASE_STAMP } };
+		this.m_records.set(id, record);
+		return record;
+	}
+
+	private Next_Stamp(): Stamp {
+		return { c: ++this.m_counter, s: this.m_site };
+	}
+
+	private Observe(t: Stamp): void {
+		if (t.c > this.m_counter) this.m_counter = t.c;
+	}
+}
+
+function Materialise(record: ElementRecord): CrdtElement {
+	const item: Record<string, unknown> = { id: record.id };
+	for (const [key, reg] of record.fields) {
+		if (reg.v === undefined) continue;
+		const dot = key.indexOf('.');
+		if (dot < 0) item[key] = reg.v;
+		else ((item[key.slice(0, dot)] ??= {}) as Record<string, unknown>)[key.slice(dot + 1)] = reg.v;
+	}
+	for (const [key, seq] of record.text) item[key] = seq.Value;
+	for (const [key, text_key] of Object.entries(MARK_FIELDS[record.kind])) {
+		const v = record.fields.get(key)?.v;
+		if (Array.isArray(v)) item[key] = (record.text.get(text_key) ?? new TextSeq()).Resolve(v as AnchoredRange[]);
+	}
+	return item as unknown as CrdtElement;
+}
+
+// A mark field's value as replicated: its ranges pinned to the characters of its text
+function Anchor_Marks(record: ElementRecord, text_key: string, v: unknown): unknown {
+	return Array.isArray(v) ? (record.text.get(text_key) ?? new TextSeq()).Anchor(v as Range[]) : v;
+}
+
+// Deep equality, ignoring key order (marks come back from the document with theirs rearranged)
+function Same(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+	const x = a as Record<string, unknown>;
+	const y = b as Record<string, unknown>;
+	const keys = Object.keys(x).filter(k => x[k] !== undefined);
+	return keys.length === Object.keys(y).filter(k => y[k] !== undefined).length && keys.every(k => Same(x[k], y[k]));
+}
@@ -0,0 +1,108 @@
+import type { Point, Bounds, FreehandPath } from './types';
+import { Drawn_Radius } from './pen';
+
+// Eraser helpers. The eraser is a circle dragged across the board; each pointer move sweeps
+// it along a segment. Stroke mode removes whole freehand paths it touches, pixel mode cuts
+// the points it passes over out of a path, leaving the pieces either side as new paths.
+
+export const ERASER_SIZES = [8, 16, 32, 64];
+
+// Paths are filled in to at most this spacing before cutting, so long straight runs between
+// two points can be cut in the middle
+const CUT_SPACING = 2;
+
+function Distance_To_Segment(p: Point, a: Point, b: Point): number {
+	const dx = b.x - a.x;
+	const dy = b.y - a.y;
+	const len_sq = dx * dx + dy * dy;
+	const t = len_sq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len_sq));
+	return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Shortest distance between two segments
+function Segment_Distance(a1: Point, a2: Point, b1: Point, b2: Point): number {
+	const Side = (p: Point, q: Point, r: Point) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+	const crosses = Side(a1, a2, b1) * Side(a1, a2, b2) < 0 && Side(b1, b2, a1) * Side(b1, b2, a2) < 0;
+	if (crosses) return 0;
+	return Math.min(
+		Distance_To_Segment(a1, b1, b2), Distance_To_Segment(a2, b1, b2),
+		Distance_To_Segment(b1, a1, a2), Distance_To_Segment(b2, a1, a2),
+	);
+}
+
+// Area the eraser sweeps moving from 'from' to 'to'
+export function Sweep_Bounds(from: Point, to: Point, size: number): Bounds {
+	const r = size / 2;
+	const x = Math.min(from.x, to.x) - r;
+	const y = Math.min(from.y, to.y) - r;
+	return { x, y, width: Math.abs(to.x - from.x) + size, height: Math.abs(to.y - from.y) + size };
+}
+
+// Whether the eraser touches a path anywhere along its sweep (allowing for the path's width)
+export function Sweep_Hits(path: FreehandPath, from: Point, to: Point, size: number): boolean {
+	const reach = size / 2 + Drawn_Radius(path);
+	const pts = path.points;
+	if (pts.length === 1) return Distance_To_Segment(pts[0], from, to) <= reach;
+	for (let i = 1; i < pts.length; i++) {
+		if (Segment_Distance(pts[i - 1], pts[i], from, to) <= reach) return true;
+	}
+	return false;
+}
+
+// A piece of a path left by the eraser
+export type FreehandPiece = Pick<FreehandPath, 'points' | 'pressures' | 'tilts'>;
+
+// A point of a path with the pen pressure and tilt recorded there (if any)
+interface Sample extends Point {
+	pressure?: number;
+	tilt?: number;
+}
+
+// The pieces of a path left after the eraser sweeps across it, or null if it misses. Pieces
+// too short to draw are dropped.
+export function Sweep_Cut(path: FreehandPath, from: Point, to: Point, size: number): FreehandPiece[] | null {
+	if (!Sweep_Hits(path, from, to, size)) return null;
+	const reach = size / 2 + Drawn_Radius(path);
+	const runs: Sample[][] = [];
+	let run: Sample[] = [];
+	// Filled-in points only go into a run where it starts or ends at a cut, so the pieces
+	// keep the path's own points elsewhere
+	let last_fill: Sample | null = null;
+	const Visit = (p: Sample, fill: boolean) => {
+		if (Distance_To_Segment(p, from, to) <= reach) {
+			if (last_fill) run.push(last_fill);
+			if (run.length > 1) runs.push(run);
+			run = [];
+			last_fill = null;
+		} else if (fill && run.length > 0) {
+			last_fill = p;
+		} else {
+			run.push(p);
+			last_fill = null;
+		}
+	};
+	const pen = path.pressures?.length === path.points.length && path.tilts?.length === path.points.length;
+	const samples: Sample[] = path.points.map((p, i) => pen ? { ...p, pressure: path.pressures![i], tilt: path.tilts![i] } : p);
+	const Mix = (a: number | undefined, b: number | undefined, t: number) => a === undefined || b === undefined ? undefined : a + (b - a) * t;
+	samples.forEach((p, i) => {
+		if (i > 0) {
+			const prev = samples[i - 1];
+			const steps = Math.floor(Math.hypot(p.x - prev.x, p.y - prev.y) / CUT_SPACING);
+			for (let s = 1; s < steps; s++) {
+				const t = s / steps;
+				Visit({
+					x: prev.x + (p.x - prev.x) * t,
+					y: prev.y + (p.y - prev.y) * t,
+					pressure: Mix(prev.pressure, p.pressure, t),
+					tilt: Mix(prev.tilt, p.tilt, t),
+				}, true);
+			}
+		}
+		Visit(p, false);
+	});
+	if (run.length > 1) runs.push(run);
+	return runs.map(r => ({
+		points: r.map(s => ({ x: s.x, y: s.y })),
+		...(pen && { pressures: r.map(s => s.pressure!), tilts: r.map(s => s.tilt!) }),
+	}));
+}
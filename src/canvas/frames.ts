@@ -0,0 +1,44 @@
+import type { Shape, Connector, FreehandPath, Point, Bounds } from './types';
+
+// Frame helpers.
+// A frame is a titled shape that holds part of the board. Elements record the frame they sit in
+// with 'frame_id'; they're drawn clipped to it and move along with it. An element belongs to
+// the topmost frame containing its centre, worked out again whenever it (or a frame) is placed.
+// Frames don't nest. A frame_id whose frame is gone (deleted, or not yet synced) is ignored.
+
+export const FRAME_TITLE_HEIGHT = 28;
+
+export function Is_Frame(shape: Shape): boolean {
+	return shape.type === 'frame';
+}
+
+// Id of the <clipPath> drawn with a frame, which its members reference
+export function Frame_Clip_Id(frame_id: string): string {
+	return `frame-clip-${frame_id}`;
+}
+
+// The area of a frame below its title bar, which members are clipped to
+export function Frame_Body(frame: Shape): Bounds {
+	const title = Math.min(FRAME_TITLE_HEIGHT, frame.height);
+	return { x: frame.x, y: frame.y + title, width: frame.width, height: frame.height - title };
+}
+
+// Topmost frame containing a canvas point
+export function Frame_At(pt: Point, frames: Shape[]): Shape | undefined {
+	let best: Shape | undefined;
+	for (const f of frames) {
+		if (pt.x < f.x || pt.x > f.x + f.width || pt.y < f.y || pt.y > f.y + f.height) continue;
+		if (!best || f.z_index > best.z_index) best = f;
+	}
+	return best;
+}
+
+// Ids of the elements inside a frame
+export function Frame_Member_Ids(frame_id: string, shapes: Shape[], connectors: Connector[], freehand_paths: FreehandPath[]): string[] {
+	return [...shapes, ...connectors, ...freehand_paths].filter(e => e.frame_id === frame_id).map(e => e.id);
+}
+
+// Frames in reading order (top to bottom, then left to right), for the navigator
+export function Sorted_Frames(shapes: Shape[]): Shape[] {
+	return shapes.filter(Is_Frame).sort((a, b) => (a.y - b.y) || (a.x - b.x));
+}
@@ -0,0 +1,128 @@
+import type { Group } from './types';
+import { Generate_Id } from './helpers';
+
+// Group hierarchy helpers.
+// A group lists its direct members by id; members can be shapes, connectors, freehand paths
+// or other groups. Selection always works on "units": the outermost group (or ungrouped
+// element) directly below the current scope, where the scope is the group the user has
+// entered by double-clicking (null = board root).
+
+// Map from member id → id of the group that directly contains it
+export function Parent_Map(groups: Group[]): Map<string, string> {
+	const parents = new Map<string, string>();
+	for (const g of groups) {
+		for (const id of g.member_ids) parents.set(id, g.id);
+	}
+	return parents;
+}
+
+// True if 'id' is (transitively) inside the group 'scope'. Everything is inside the root (null).
+export function Is_Within(id: string, scope: string | null, parents: Map<string, string>): boolean {
+	if (scope === null) return true;
+	for (let p = parents.get(id); p; p = parents.get(p)) {
+		if (p === scope) return true;
+	}
+	return false;
+}
+
+// The unit containing 'id' directly below 'scope' (the element itself if it's ungrouped)
+export function Top_Unit(id: string, scope: string | null, parents: Map<string, string>): string {
+	let unit = id;
+	for (let p = parents.get(unit); p && p !== scope; p = parents.get(p)) {
+		unit = p;
+	}
+	return unit;
+}
+
+// Expand a unit id to the element ids it covers (groups are expanded recursively)
+export function Leaf_Ids(id: string, groups: Group[]): string[] {
+	const by_id = new Map(groups.map(g => [g.id, g]));
+	const result: string[] = [];
+	const visit = (unit: string) => {
+		const g = by_id.get(unit);
+		if (!g) { result.push(unit); return; }
+		for (const m of g.member_ids) visit(m);
+	};
+	visit(id);
+	return result;
+}
+
+// The distinct units covering a set of element ids
+export function Units_Of(ids: Iterable<string>, scope: string | null, parents: Map<string, string>): string[] {
+	const units = new Set<string>();
+	for (const id of ids) units.add(Top_Unit(id, scope, parents));
+	return Array.from(units);
+}
+
+// Groups fully covered by the selection at the given scope
+export function Selected_Groups(selected: Set<string>, groups: Group[], scope: string | null, parents: Map<string, string>): Group[] {
+	const ids = new Set(Units_Of(selected, scope, parents));
+	return groups.filter(g => ids.has(g.id) && Leaf_Ids(g.id, groups).every(id => selected.has(id)));
+}
+
+// Remove members that no longer exist and dissolve groups left with fewer than two members
+// (a lone remaining member moves up into the parent). Repeats until stable, since dissolving
+// a group can shrink its parent.
+export function Prune_Groups(groups: Group[], element_ids: Set<string>): Group[] {
+	let current = groups;
+	for (;;) {
+		const live = new Set([...element_ids, ...current.map(g => g.id)]);
+		const pruned = current.map(g => g.member_ids.every(id => live.has(id)) ? g : { ...g, member_ids: g.member_ids.filter(id => live.has(id)) });
+		const dissolved = new Map(pruned.filter(g => g.member_ids.length < 2).map(g => [g.id, g.member_ids]));
+		if (dissolved.size === 0 && pruned.every((g, i) => g === current[i])) return current;
+		current = pruned
+			.filter(g => !dissolved.has(g.id))
+			.map(g => g.member_ids.some(id => dissolved.has(id))
+				? { ...g, member_ids: g.member_ids.flatMap(id => dissolved.get(id) ?? [id]) }
+				: g);
+	}
+}
+
+// Swap members for others in the same place (e.g. a path for the pieces the eraser cut it
+// into). Members replaced by nothing are removed; prune afterwards to dissolve emptied groups.
+export function Replace_Members(groups: Group[], replacements: Map<string, string[]>): Group[] {
+	if (replacements.size === 0) return groups;
+	return groups.map(g => g.member_ids.some(id => replacements.has(id))
+		? { ...g, member_ids: g.member_ids.flatMap(id => replacements.get(id) ?? [id]) }
+		: g);
+}
+
+// Wrap sibling units into a new group, nested inside their current parent (if any)
+export function Group_Units(groups: Group[], units: string[], group: Group): Group[] {
+	const unit_set = new Set(units);
+	const parent = Parent_Map(groups).get(units[0]);
+	const next = groups.map(g => {
+		if (!g.member_ids.some(id => unit_set.has(id))) return g;
+		const kept = g.member_ids.filter(id => !unit_set.has(id));
+		return { ...g, member_ids: g.id === parent ? [...kept, group.id] : kept };
+	});
+	return [...next, group];
+}
+
+// Dissolve groups one level: their members move up into the parent group (if any)
+export function Ungroup(groups: Group[], group_ids: string[]): Group[] {
+	const removed = new Map(groups.filter(g => group_ids.includes(g.id)).map(g => [g.id, g]));
+	return groups
+		.filter(g => !removed.has(g.id))
+		.map(g => g.member_ids.some(id => removed.has(id))
+			? { ...g, member_ids: g.member_ids.flatMap(id => removed.get(id)?.member_ids ?? [id]) }
+			: g);
+}
+
+// Groups fully covered by a set of element ids (what a copy of those elements should carry along)
+export function Groups_Within(ids: Set<string>, groups: Group[]): Group[] {
+	return groups.filter(g => Leaf_Ids(g.id, groups).every(id => ids.has(id)));
+}
+
+// Re-create groups for copied elements. 'id_map' maps original element ids to their copies;
+// the new group ids are added to it so nested groups resolve.
+export function Clone_Groups(groups: Group[], id_map: Map<string, string>, created_by: string): Group[] {
+	for (const g of groups) id_map.set(g.id, Generate_Id('g'));
+	return groups
+		.map(g => ({
+			id: id_map.get(g.id)!,
+			member_ids: g.member_ids.filter(id => id_map.has(id)).map(id => id_map.get(id)!),
+			created_by,
+		}))
+		.filter(g => g.member_ids.length >= 2);
+}
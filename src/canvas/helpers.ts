@@ -1,4 +1,4 @@
-import type { Shape, Port, Point, Viewport, Bounds } from './types';
+import type { Shape, Port, PortSide, Point, Viewport, Bounds } from './types';
 
 let next_id = 1;
 
@@ -187,6 +187,13 @@ export function Bounds_Overlap(a: Bounds, b: Bounds): boolean {
 	);
 }
 
+// Check if 'inner' lies wholly within 'outer'
+export function Bounds_Contain(outer: Bounds, inner: Bounds): boolean {
+	return inner.x >= outer.x && inner.y >= outer.y &&
+		inner.x + inner.width <= outer.x + outer.width &&
+		inner.y + inner.height <= outer.y + outer.height;
+}
+
 // Create a normalised bounds from two corner points (handles negative width/height)
 export function Normalise_Bounds(p1: Point, p2: Point): Bounds {
 	return {
@@ -201,6 +208,28 @@ export function Shape_Bounds(shape: Shape): Bounds {
 	return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
 }
 
+// Axis-aligned bounding box of a shape after applying its rotation
+export function Rotated_Shape_Bounds(shape: Shape): Bounds {
+	if (!shape.rotation) return Shape_Bounds(shape);
+	const cx = shape.x + shape.width / 2;
+	const cy = shape.y + shape.height / 2;
+	const corners = [
+		{ x: shape.x, y: shape.y },
+		{ x: shape.x + shape.width, y: shape.y },
+		{ x: shape.x + shape.width, y: shape.y + shape.height },
+		{ x: shape.x, y: shape.y + shape.height },
+	].map(p => Rotate_Point(p, cx, cy, shape.rotation));
+	return Freehand_Bounds(corners);
+}
+
+// The side a port faces once the shape's rotation is applied (snapped to the nearest axis)
+export function Port_Facing_Side(shape: Shape, port: Port): PortSide {
+	if (!shape.rotation) return port.side;
+	const clockwise: PortSide[] = ['right', 'bottom', 'left', 'top'];
+	const steps = Math.round((((shape.rotation % 360) + 360) % 360) / 90);
+	return clockwise[(clockwise.indexOf(port.side) + steps) % 4];
+}
+
 // Diamond path for SVG polygon
 export function Diamond_Points(x: number, y: number, w: number, h: number): string {
 	const cx = x + w / 2;
@@ -336,9 +365,9 @@ export function Smooth_Points(points: Point[], iterations: number = 2): Point[]
 }
 
 // Simplify a polyline by removing points that are closer than min_dist to each other (Radial Distance)
-export function Simplify_Points(points: Point[], min_dist: number = 3): Point[] {
+export function Simplify_Points<T extends Point>(points: T[], min_dist: number = 3): T[] {
 	if (points.length < 3) return points;
-	const result: Point[] = [points[0]];
+	const result: T[] = [points[0]];
 	for (let i = 1; i < points.length - 1; i++) {
 		const last = result[result.length - 1];
 		const d = Math.hypot(points[i].x - last.x, points[i].y - last.y);
@@ -0,0 +1,463 @@
+import type { Point, Bounds } from './types';
+
+// Automatic layout of connected diagrams: shapes are the nodes, connectors between them the
+// edges. Each layout returns new top-left positions for the nodes, placed so the top-left
+// corner of the diagram stays where it was.
+// - layered: Sugiyama style. Ranks follow the edge direction (cycles are broken), long edges
+//   get placeholder nodes on the ranks they cross, and ranks are reordered to cut crossings.
+// - tree: each node sits centred over its children, from the nodes nothing points to.
+// - force: a spring simulation starting from where the nodes are now.
+// Layered and tree layouts are worked out top-down and turned on their side for 'right'.
+// Separate clusters of nodes are laid out on their own and put side by side.
+
+export type LayoutAlgorithm = 'layered' | 'tree' | 'force';
+export type LayoutDirection = 'down' | 'right';
+
+export interface LayoutNode {
+	id: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface LayoutEdge {
+	source: string;
+	target: string;
+}
+
+const RANK_GAP = 80;
+const NODE_GAP = 40;
+const CLUSTER_GAP = 80;
+// Crossing-reduction passes over the ranks (each one down then up)
+const ORDER_PASSES = 8;
+const FORCE_ITERATIONS = 300;
+// Pull of every node towards the middle, which keeps unconnected nodes from drifting off
+const GRAVITY = 0.1;
+
+// A node as laid out top-down: 'breadth' runs along a rank, 'depth' across ranks
+interface Box {
+	id: string;
+	breadth: number;
+	depth: number;
+	// Current position along the rank, to keep the existing left-to-right order where it's free
+	at: number;
+}
+
+export function Auto_Layout(nodes: LayoutNode[], edges: LayoutEdge[], algorithm: LayoutAlgorithm, direction: LayoutDirection = 'down'): Map<string, Point> {
+	const ids = new Set(nodes.map(n => n.id));
+	const seen = new Set<string>();
+	// Edges between different nodes of the layout, each pair once
+	const links = edges.filter(e => {
+		const key = `${e.source}>${e.target}`;
+		if (e.source === e.target || !ids.has(e.source) || !ids.has(e.target) || seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+
+	let centres: Map<string, Point>;
+	if (algorithm === 'force') {
+		centres = Force_Layout(nodes, links);
+	} else {
+		const flip = direction === 'right';
+		const boxes = nodes.map(n => ({
+			id: n.id,
+			breadth: flip ? n.height : n.width,
+			depth: flip ? n.width : n.height,
+			at: flip ? n.y + n.height / 2 : n.x + n.width / 2,
+		}));
+		const placed = Side_By_Side(boxes, links, algorithm === 'tree' ? Tree_Layout : Layered_Layout);
+		centres = new Map([...placed].map(([id, p]) => [id, flip ? { x: p.y, y: p.x } : p]));
+	}
+
+	// Back to top-left corners, keeping the diagram's corner where it was
+	const by_id = new Map(nodes.map(n => [n.id, n]));
+	const before = Extent(nodes);
+	const after = Extent(nodes.map(n => ({ ...n, x: centres.get(n.id)!.x - n.width / 2, y: centres.get(n.id)!.y - n.height / 2 })));
+	const positions = new Map<string, Point>();
+	for (const [id, c] of centres) {
+		const n = by_id.get(id)!;
+		positions.set(id, { x: c.x - n.width / 2 - after.x + before.x, y: c.y - n.height / 2 - after.y + before.y });
+	}
+	return positions;
+}
+
+function Extent(nodes: LayoutNode[]): Bounds {
+	const x = Math.min(...nodes.map(n => n.x));
+	const y = Math.min(...nodes.map(n => n.y));
+	return {
+		x, y,
+		width: Math.max(...nodes.map(n => n.x + n.width)) - x,
+		height: Math.max(...nodes.map(n => n.y + n.height)) - y,
+	};
+}
+
+// Lay out each cluster of connected nodes and line the clusters up along the ranks, in their
+// current order. Positions are node centres in top-down coordinates.
+function Side_By_Side(boxes: Box[], edges: LayoutEdge[], Layout: (boxes: Box[], edges: LayoutEdge[]) => Map<string, Point>): Map<string, Point> {
+	const clusters = Clusters(boxes, edges)
+		.sort((a, b) => Math.min(...a.map(n => n.at)) - Math.min(...b.map(n => n.at)));
+	const result = new Map<string, Point>();
+	let offset = 0;
+	for (const cluster of clusters) {
+		const ids = new Set(cluster.map(n => n.id));
+		const placed = Layout(cluster, edges.filter(e => ids.has(e.source)));
+		const left = Math.min(...cluster.map(n => placed.get(n.id)!.x - n.breadth / 2));
+		const right = Math.max(...cluster.map(n => placed.get(n.id)!.x + n.breadth / 2));
+		for (const [id, p] of placed) result.set(id, { x: p.x - left + offset, y: p.y });
+		offset += right - left + CLUSTER_GAP;
+	}
+	return result;
+}
+
+function Clusters<T extends { id: string }>(nodes: T[], edges: LayoutEdge[]): T[][] {
+	const adjacent = Neighbours(nodes, edges);
+	const by_id = new Map(nodes.map(n => [n.id, n]));
+	const done = new Set<string>();
+	const clusters: T[][] = [];
+	for (const n of nodes) {
+		if (done.has(n.id)) continue;
+		const cluster: T[] = [];
+		const stack = [n.id];
+		done.add(n.id);
+		while (stack.length > 0) {
+			const id = stack.pop()!;
+			cluster.push(by_id.get(id)!);
+			for (const next of adjacent.get(id)!) {
+				if (!done.has(next)) {
+					done.add(next);
+					stack.push(next);
+				}
+			}
+		}
+		clusters.push(cluster);
+	}
+	return clusters;
+}
+
+// Ids connected to each node, either way round
+function Neighbours(nodes: { id: string }[], edges: LayoutEdge[]): Map<string, string[]> {
+	const adjacent = new Map(nodes.map(n => [n.id, [] as string[]]));
+	for (const e of edges) {
+		adjacent.get(e.source)!.push(e.target);
+		adjacent.get(e.target)!.push(e.source);
+	}
+	return adjacent;
+}
+
+// Depth of each rank's centre line, from the deepest node on each rank
+function Rank_Depths(ranks: Box[][]): number[] {
+	const depths: number[] = [];
+	let y = 0;
+	for (const rank of ranks) {
+		const size = Math.max(0, ...rank.map(n => n.depth));
+		depths.push(y + size / 2);
+		y += size + RANK_GAP;
+	}
+	return depths;
+}
+
+// ── Layered ──
+
+function Layered_Layout(boxes: Box[], edges: LayoutEdge[]): Map<string, Point> {
+	const by_id = new Map(boxes.map(n => [n.id, n]));
+	const forward = Acyclic_Edges(boxes, edges);
+
+	// Rank = longest path from a node with nothing pointing to it
+	const rank = new Map(boxes.map(n => [n.id, 0]));
+	const incoming = new Map(boxes.map(n => [n.id, 0]));
+	for (const e of forward) incoming.set(e.target, incoming.get(e.target)! + 1);
+	const queue = boxes.filter(n => incoming.get(n.id) === 0).map(n => n.id);
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		for (const e of forward) {
+			if (e.source !== id) continue;
+			rank.set(e.target, Math.max(rank.get(e.target)!, rank.get(id)! + 1));
+			incoming.set(e.target, incoming.get(e.target)! - 1);
+			if (incoming.get(e.target) === 0) queue.push(e.target);
+		}
+	}
+
+	// Placeholders where edges cross a rank, so the ordering steers edges as well as nodes
+	const ranks: Box[][] = Array.from({ length: Math.max(...rank.values()) + 1 }, () => []);
+	for (const n of boxes) ranks[rank.get(n.id)!].push(n);
+	const links: LayoutEdge[] = [];
+	for (const e of forward) {
+		let prev = e.source;
+		const from = rank.get(e.source)!;
+		const to = rank.get(e.target)!;
+		const at = (by_id.get(e.source)!.at + by_id.get(e.target)!.at) / 2;
+		for (let r = from + 1; r < to; r++) {
+			const dummy: Box = { id: `${e.source}>${e.target}#${r}`, breadth: 0, depth: 0, at };
+			ranks[r].push(dummy);
+			links.push({ source: prev, target: dummy.id });
+			prev = dummy.id;
+		}
+		links.push({ source: prev, target: e.target });
+	}
+
+	Order_Ranks(ranks, links);
+	const positions = Place_Ranks(ranks, links);
+	for (const id of [...positions.keys()]) if (!by_id.has(id)) positions.delete(id);
+	return positions;
+}
+
+// The edges with enough of them turned round to leave no cycles (those that point back up a
+// depth-first search)
+function Acyclic_Edges(boxes: Box[], edges: LayoutEdge[]): LayoutEdge[] {
+	const state = new Map<string, 'open' | 'done'>();
+	const reversed = new Set<LayoutEdge>();
+	const Visit = (id: string) => {
+		state.set(id, 'open');
+		for (const e of edges) {
+			if (e.source !== id) continue;
+			const s = state.get(e.target);
+			if (s === 'open') reversed.add(e);
+			else if (!s) Visit(e.target);
+		}
+		state.set(id, 'done');
+	};
+	// Start from the nodes nothing points to, so the flow runs the way it was drawn
+	const targets = new Set(edges.map(e => e.target));
+	for (const n of [...boxes].sort((a, b) => Number(targets.has(a.id)) - Number(targets.has(b.id)))) {
+		if (!state.has(n.id)) Visit(n.id);
+	}
+	return edges.map(e => reversed.has(e) ? { source: e.target, target: e.source } : e);
+}
+
+// Reorder each rank by the average position of its neighbours in the rank before (then after),
+// keeping the order with the fewest crossings
+function Order_Ranks(ranks: Box[][], links: LayoutEdge[]): void {
+	for (const rank of ranks) rank.sort((a, b) => a.at - b.at);
+	const up = new Map<string, string[]>();
+	const down = new Map<string, string[]>();
+	for (const e of links) {
+		(down.get(e.source) ?? down.set(e.source, []).get(e.source)!).push(e.target);
+		(up.get(e.target) ?? up.set(e.target, []).get(e.target)!).push(e.source);
+	}
+
+	let best = ranks.map(r => [...r]);
+	let best_crossings = Crossings(ranks, down);
+	for (let pass = 0; pass < ORDER_PASSES && best_crossings > 0; pass++) {
+		for (let r = 1; r < ranks.length; r++) Sort_By_Barycentre(ranks[r], ranks[r - 1], up);
+		for (let r = ranks.length - 2; r >= 0; r--) Sort_By_Barycentre(ranks[r], ranks[r + 1], down);
+		const crossings = Crossings(ranks, down);
+		if (crossings < best_crossings) {
+			best = ranks.map(r => [...r]);
+			best_crossings = crossings;
+		}
+	}
+	best.forEach((r, i) => { ranks[i] = r; });
+}
+
+function Sort_By_Barycentre(rank: Box[], fixed: Box[], neighbours: Map<string, string[]>): void {
+	const index = new Map(fixed.map((n, i) => [n.id, i]));
+	const centre = new Map<string, number>();
+	rank.forEach((n, i) => {
+		const at = (neighbours.get(n.id) ?? []).map(id => index.get(id)).filter((i): i is number => i !== undefined);
+		// Nodes with no neighbours there stay put
+		centre.set(n.id, at.length > 0 ? at.reduce((a, b) => a + b, 0) / at.length : i);
+	});
+	rank.sort((a, b) => centre.get(a.id)! - centre.get(b.id)!);
+}
+
+function Crossings(ranks: Box[][], down: Map<string, string[]>): number {
+	let count = 0;
+	for (let r = 0; r < ranks.length - 1; r++) {
+		const index = new Map(ranks[r + 1].map((n, i) => [n.id, i]));
+		const pairs: [number, number][] = [];
+		ranks[r].forEach((n, i) => {
+			for (const id of down.get(n.id) ?? []) if (index.has(id)) pairs.push([i, index.get(id)!]);
+		});
+		for (let a = 0; a < pairs.length; a++) {
+			for (let b = a + 1; b < pairs.length; b++) {
+				if ((pairs[a][0] - pairs[b][0]) * (pairs[a][1] - pairs[b][1]) < 0) count++;
+			}
+		}
+	}
+	return count;
+}
+
+// Space out each rank, then nudge ranks towards where their neighbours are
+function Place_Ranks(ranks: Box[][], links: LayoutEdge[]): Map<string, Point> {
+	const x = new Map<string, number>();
+	for (const rank of ranks) {
+		let left = 0;
+		for (const n of rank) {
+			x.set(n.id, left + n.breadth / 2);
+			left += n.breadth + NODE_GAP;
+		}
+	}
+	const neighbours = Neighbours(ranks.flat(), links);
+	for (let pass = 0; pass < 4; pass++) {
+		const order = pass % 2 === 0 ? ranks.map((_, i) => i) : ranks.map((_, i) => ranks.length - 1 - i);
+		for (const r of order) {
+			const rank = ranks[r];
+			const wanted = rank.map(n => {
+				const near = neighbours.get(n.id)!;
+				return near.length > 0 ? near.reduce((sum, id) => sum + x.get(id)!, 0) / near.length : x.get(n.id)!;
+			});
+			// Each node as close to where it wants to be as the one before it allows...
+			let min = -Infinity;
+			const placed = rank.map((n, i) => {
+				const at = Math.max(wanted[i], min + n.breadth / 2);
+				min = at + n.breadth / 2 + NODE_GAP;
+				return at;
+			});
+			// ...then the rank as a whole shifted to even out the pushing
+			const shift = placed.reduce((sum, p, i) => sum + wanted[i] - p, 0) / Math.max(1, rank.length);
+			rank.forEach((n, i) => x.set(n.id, placed[i] + shift));
+		}
+	}
+	const depths = Rank_Depths(ranks);
+	const positions = new Map<string, Point>();
+	ranks.forEach((rank, r) => rank.forEach(n => positions.set(n.id, { x: x.get(n.id)!, y: depths[r] })));
+	return positions;
+}
+
+// ── Tree ──
+
+function Tree_Layout(boxes: Box[], edges: LayoutEdge[]): Map<string, Point> {
+	const by_id = new Map(boxes.map(n => [n.id, n]));
+	const targets = new Set(edges.map(e => e.target));
+	// Roots: nodes nothing points to (or, in a loop, the leftmost node)
+	let roots = boxes.filter(n => !targets.has(n.id));
+	if (roots.length === 0) roots = [boxes.reduce((a, b) => b.at < a.at ? b : a)];
+	roots.sort((a, b) => a.at - b.at);
+
+	// Breadth-first from the roots, following edges forwards first, so each node hangs off the
+	// first node to reach it
+	const children = new Map<string, Box[]>(boxes.map(n => [n.id, []]));
+	const level = new Map<string, number>();
+	const queue: string[] = [];
+	for (const r of roots) {
+		level.set(r.id, 0);
+		queue.push(r.id);
+	}
+	const forward = new Map<string, string[]>(boxes.map(n => [n.id, []]));
+	for (const e of edges) forward.get(e.source)!.push(e.target);
+	const any_way = Neighbours(boxes, edges);
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		for (const next of [...forward.get(id)!, ...any_way.get(id)!]) {
+			if (level.has(next)) continue;
+			level.set(next, level.get(id)! + 1);
+			children.get(id)!.push(by_id.get(next)!);
+			queue.push(next);
+		}
+	}
+	for (const list of children.values()) list.sort((a, b) => a.at - b.at);
+
+	// Width of each subtree, then place children left to right under their parent
+	const span = new Map<string, number>();
+	const Span = (n: Box): number => {
+		const kids = children.get(n.id)!;
+		const kids_span = kids.reduce((sum, k) => sum + Span(k), 0) + NODE_GAP * Math.max(0, kids.length - 1);
+		const s = Math.max(n.breadth, kids_span);
+		span.set(n.id, s);
+		return s;
+	};
+	const x = new Map<string, number>();
+	const Place = (n: Box, left: number) => {
+		const kids = children.get(n.id)!;
+		const kids_span = kids.reduce((sum, k) => sum + span.get(k.id)!, 0) + NODE_GAP * Math.max(0, kids.length - 1);
+		let at = left + (span.get(n.id)! - kids_span) / 2;
+		for (const k of kids) {
+			Place(k, at);
+			at += span.get(k.id)! + NODE_GAP;
+		}
+		// Centred over the children, or in its own slot when it has none
+		x.set(n.id, kids.length > 0 ? (x.get(kids[0].id)! + x.get(kids[kids.length - 1].id)!) / 2 : left + span.get(n.id)! / 2);
+	};
+	let left = 0;
+	for (const r of roots) {
+		const width = Span(r);
+		Place(r, left);
+		left += width + NODE_GAP;
+	}
+
+	const ranks: Box[][] = [];
+	for (const n of boxes) (ranks[level.get(n.id)!] ??= []).push(n);
+	const depths = Rank_Depths(ranks);
+	return new Map(boxes.map(n => [n.id, { x: x.get(n.id)!, y: depths[level.get(n.id)!] }]));
+}
+
+// ── Force-directed ──
+
+// Fruchterman–Reingold: every pair of nodes pushes apart, connected nodes pull together, and
+// the moves shrink as the layout cools (with a little gravity so nothing floats away). Distances are measured between node edges, so big
+// nodes get the room they need.
+function Force_Layout(nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, Point> {
+	const index = new Map(nodes.map((n, i) => [n.id, i]));
+	const radius = nodes.map(n => Math.hypot(n.width, n.height) / 2);
+	const pos = nodes.map((n, i) => ({
+		// Nodes on top of each other are fanned out so the forces can separate them
+		x: n.x + n.width / 2 + Math.cos(i) * 0.5,
+		y: n.y + n.height / 2 + Math.sin(i) * 0.5,
+	}));
+	const ideal = NODE_GAP * 2;
+	const links = edges.map(e => [index.get(e.source)!, index.get(e.target)!] as const);
+	const start_temp = Math.max(100, Math.sqrt(nodes.length) * ideal);
+
+	for (let step = 0; step < FORCE_ITERATIONS; step++) {
+		const temp = start_temp * (1 - step / FORCE_ITERATIONS);
+		const mid_x = pos.reduce((sum, p) => sum + p.x, 0) / pos.length;
+		const mid_y = pos.reduce((sum, p) => sum + p.y, 0) / pos.length;
+		const move = pos.map(p => ({ x: (mid_x - p.x) * GRAVITY, y: (mid_y - p.y) * GRAVITY }));
+		for (let a = 0; a < pos.length; a++) {
+			for (let b = a + 1; b < pos.length; b++) {
+				const dx = pos[a].x - pos[b].x;
+				const dy = pos[a].y - pos[b].y;
+				const dist = Math.hypot(dx, dy) || 0.01;
+				const gap = Math.max(1, dist - radius[a] - radius[b]);
+				const push = ideal * ideal / gap;
+				move[a].x += dx / dist * push; move[a].y += dy / dist * push;
+				move[b].x -= dx / dist * push; move[b].y -= dy / dist * push;
+			}
+		}
+		for (const [a, b] of links) {
+			const dx = pos[a].x - pos[b].x;
+			const dy = pos[a].y - pos[b].y;
+			const dist = Math.hypot(dx, dy) || 0.01;
+			const gap = Math.max(0, dist - radius[a] - radius[b]);
+			const pull = gap * gap / ideal;
+			move[a].x -= dx / dist * pull; move[a].y -= dy / dist * pull;
+			move[b].x += dx / dist * pull; move[b].y += dy / dist * pull;
+		}
+		pos.forEach((p, i) => {
+			const length = Math.hypot(move[i].x, move[i].y);
+			if (length === 0) return;
+			const limited = Math.min(length, temp);
+			p.x += move[i].x / length * limited;
+			p.y += move[i].y / length * limited;
+		});
+	}
+	Separate(nodes, pos);
+	return new Map(nodes.map((n, i) => [n.id, pos[i]]));
+}
+
+// Push apart any nodes still overlapping, along whichever axis they overlap least
+function Separate(nodes: LayoutNode[], pos: Point[]): void {
+	const margin = NODE_GAP / 2;
+	for (let pass = 0; pass < 50; pass++) {
+		let moved = false;
+		for (let a = 0; a < pos.length; a++) {
+			for (let b = a + 1; b < pos.length; b++) {
+				const dx = pos[b].x - pos[a].x;
+				const dy = pos[b].y - pos[a].y;
+				const over_x = (nodes[a].width + nodes[b].width) / 2 + margin - Math.abs(dx);
+				const over_y = (nodes[a].height + nodes[b].height) / 2 + margin - Math.abs(dy);
+				if (over_x <= 0 || over_y <= 0) continue;
+				moved = true;
+				if (over_x < over_y) {
+					const push = (dx < 0 ? -over_x : over_x) / 2;
+					pos[a].x -= push; pos[b].x += push;
+				} else {
+					const push = (dy < 0 ? -over_y : over_y) / 2;
+					pos[a].y -= push; pos[b].y += push;
+				}
+			}
+		}
+		if (!moved) break;
+	}
+}
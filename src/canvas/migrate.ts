@@ -0,0 +1,108 @@
+import type { CanvasState } from './types';
+import { DEFAULT_THINNING, DEFAULT_STREAMLINE, DEFAULT_TAPER } from './pen';
+
+// Board file format versioning.
+// Every saved board carries a schema_version. Boards written before versioning was
+// introduced have none and are treated as version 0. Each entry in MIGRATIONS upgrades
+// a board by exactly one version; Migrate_State runs them in order from the board's
+// version up to SCHEMA_VERSION. All load paths (localStorage, local boards, OneDrive/
+// SharePoint, JSON import, collab state sync) must go through Migrate_State.
+
+export const SCHEMA_VERSION = 10;
+
+type Migration = (state: any) => any;
+
+const MIGRATIONS: Migration[] = [
+	// 0 → 1: fill in fields added after the first release (rotation, rounded/opacity,
+	// arrow_type/routing, z_index). Missing z_index values are assigned in document order.
+	(state) => {
+		let z = 0;
+		const shapes = (state.shapes || []).map((s: any) => ({
+			rotation: 0,
+			z_index: s.z_index ?? ++z,
+			...s,
+			style: { rounded: false, opacity: 100, ...s.style },
+		}));
+		const connectors = (state.connectors || []).map((c: any) => ({ arrow_type: 'forward', routing: 'ortho', z_index: c.z_index ?? ++z, ...c }));
+		const freehand_paths = (state.freehand_paths || []).map((f: any) => ({ z_index: f.z_index ?? ++z, ...f }));
+		return { ...state, shapes, connectors, freehand_paths };
+	},
+	// 1 → 2: groups
+	(state) => ({ ...state, groups: state.groups || [] }),
+	// 2 → 3: image shapes, with their pixels in the asset store (assets.ts). A shape can't be
+	// an image without its image.
+	(state) => ({ ...state, shapes: (state.shapes || []).filter((s: any) => s.type !== 'image' || s.image) }),
+	// 3 → 4: frames. Elements keep a frame_id only if it names a frame on the board.
+	(state) => {
+		const frames = new Set((state.shapes || []).filter((s: any) => s.type === 'frame').map((s: any) => s.id));
+		const Unframe = (e: any) => {
+			const { frame_id, ...rest } = e;
+			return frame_id === undefined || frames.has(frame_id) ? e : rest;
+		};
+		return {
+			...state,
+			shapes: (state.shapes || []).map(Unframe),
+			connectors: (state.connectors || []).map(Unframe),
+			freehand_paths: (state.freehand_paths || []).map(Unframe),
+		};
+	},
+	// 4 → 5: saved views
+	(state) => ({ ...state, saved_views: state.saved_views || [] }),
+	// 5 → 6: sticky notes, which lay out their text themselves: every shape has some (maybe empty)
+	(state) => ({ ...state, shapes: (state.shapes || []).map((s: any) => ({ ...s, text: s.text ?? '' })) }),
+	// 6 → 7: text alignment and formatting marks. Text used to be centred.
+	(state) => ({ ...state, shapes: (state.shapes || []).map((s: any) => ({ text_align: 'center', text_valign: 'middle', ...s })) }),
+	// 7 → 8: pen pressure and tilt, and per-path outline settings. Paths drawn before keep the
+	// outline they were drawn with.
+	(state) => ({
+		...state,
+		freehand_paths: (state.freehand_paths || []).map((f: any) => ({
+			...f,
+			style: { thinning: DEFAULT_THINNING, streamline: DEFAULT_STREAMLINE, taper: DEFAULT_TAPER, ...f.style },
+		})),
+	}),
+	// 8 → 9: pen variants. Everything drawn before was drawn with the pen.
+	(state) => ({ ...state, freehand_paths: (state.freehand_paths || []).map((f: any) => ({ variant: 'pen', ...f })) }),
+	// 9 → 10: connectors without arrowheads (arrow_type 'none'). Connectors with no arrow_type
+	// point forward.
+	(state) => ({ ...state, connectors: (state.connectors || []).map((c: any) => ({ ...c, arrow_type: c.arrow_type ?? 'forward' })) }),
+];
+
+// Upgrade a parsed board to the current schema.
+// Throws if the data isn't a board, or if it was written by a newer version of the app.
+export function Migrate_State(raw: any): CanvasState {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('Invalid whiteboard file');
+	}
+
+	const version = raw.schema_version ?? 0;
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+		throw new Error(`Invalid whiteboard file (unknown format version "${version}")`);
+	}
+	if (version > SCHEMA_VERSION) {
+		throw new Error(`This board was saved by a newer version of Whiteboard Live (format v${version}; this app supports up to v${SCHEMA_VERSION}). Please update the app to open it.`);
+	}
+
+	let state = raw;
+	for (let v = version; v < SCHEMA_VERSION; v++) {
+		state = MIGRATIONS[v](state);
+	}
+
+	return {
+		...state,
+		shapes: state.shapes || [],
+		connectors: state.connectors || [],
+		freehand_paths: state.freehand_paths || [],
+		groups: state.groups || [],
+		schema_version: SCHEMA_VERSION,
+	};
+}
+
+// Largest z_index across all elements (0 for an empty board)
+export function Max_Z_Index(state: CanvasState): number {
+	return Math.max(0,
+		...state.shapes.map(s => s.z_index ?? 0),
+		...state.connectors.map(c => c.z_index ?? 0),
+		...state.freehand_paths.map(f => f.z_index ?? 0),
+	);
+}
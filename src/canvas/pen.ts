@@ -0,0 +1,164 @@
+import { getStroke } from 'perfect-freehand';
+import type { Point, FreehandPath, FreehandStyle, PenVariant, ToolSettings } from './types';
+import { Simplify_Points, Smooth_Points, Get_Svg_Path_From_Stroke } from './helpers';
+
+// Pen helpers: recording pen pressure and tilt, and drawing a freehand path's outline with
+// perfect-freehand. Pressure and tilt sit alongside the path's points, one value per point,
+// and only pens record them. Mouse and touch strokes (and paths drawn before pressure was
+// recorded) simulate pressure from speed, as all strokes used to. Markers and highlighters
+// draw an even width whatever the pressure.
+
+// Outline settings for paths that don't set their own
+export const DEFAULT_THINNING = 0.5;
+export const DEFAULT_STREAMLINE = 0.5;
+export const DEFAULT_TAPER = 20;
+
+// A pen held at its flattest lays down a line this much wider
+const TILT_WIDENING = 0.5;
+
+// How each kind of pen draws. 'width' scales the stroke width (a highlighter is broad);
+// 'pressure' lets pressure, speed and the taper settings shape the line; 'round' gives
+// round rather than flat ends; 'opacity' and 'blend' are applied when rendering.
+export interface PenVariantSpec {
+	label: string;
+	width: number;
+	pressure: boolean;
+	round: boolean;
+	opacity: number;
+	blend?: 'multiply';
+}
+
+export const PEN_VARIANTS: Record<PenVariant, PenVariantSpec> = {
+	pen: { label: 'Pen', width: 1, pressure: true, round: true, opacity: 1 },
+	marker: { label: 'Marker', width: 1.5, pressure: false, round: true, opacity: 1 },
+	highlighter: { label: 'Highlighter', width: 4, pressure: false, round: false, opacity: 0.4, blend: 'multiply' },
+};
+
+// Points along a straight stroke are this far apart, so the outline follows the line closely
+const STRAIGHT_SPACING = 4;
+
+// Pressure and tilt of a pen at one point of a stroke
+export interface PenSample {
+	pressure: number;
+	// Angle away from upright, in degrees (0..90)
+	tilt: number;
+}
+
+// What a pen reports with a pointer event, or null for mice and touch
+export function Pen_Sample(e: { pointerType: string; pressure: number; tiltX: number; tiltY: number }): PenSample | null {
+	if (e.pointerType !== 'pen') return null;
+	const tan_x = Math.tan(e.tiltX * Math.PI / 180);
+	const tan_y = Math.tan(e.tiltY * Math.PI / 180);
+	return {
+		pressure: e.pressure,
+		tilt: Math.atan(Math.hypot(tan_x, tan_y)) * 180 / Math.PI,
+	};
+}
+
+export function Pen_Variant(path: FreehandPath): PenVariantSpec {
+	return PEN_VARIANTS[path.variant ?? 'pen'];
+}
+
+// How far a path's outline reaches either side of its points, in canvas units (perfect-freehand
+// takes the full width, twice this)
+export function Drawn_Radius(path: FreehandPath): number {
+	return path.style.stroke_width * Pen_Variant(path).width;
+}
+
+// Style of a new stroke drawn with the pen tool
+export function Pen_Style(settings: ToolSettings): FreehandStyle {
+	return {
+		stroke: settings.pen_color,
+		stroke_width: settings.pen_size,
+		thinning: settings.pen_thinning,
+		streamline: settings.pen_streamline,
+		taper: settings.pen_taper,
+	};
+}
+
+// The points of a finished stroke, thinned out and smoothed, with their pressure and tilt
+// (when recorded) kept in step
+export function Finish_Stroke(points: Point[], pressures?: number[], tilts?: number[]): Pick<FreehandPath, 'points' | 'pressures' | 'tilts'> {
+	if (!pressures || !tilts) return { points: Smooth_Points(Simplify_Points(points, 2), 2) };
+	// Carry pressure and tilt as two more coordinates through the same simplify and smooth
+	const samples = points.map((p, i) => ({ x: p.x, y: p.y, pressure: pressures[i], tilt: tilts[i] }));
+	let result = Simplify_Points(samples, 2);
+	for (let iter = 0; iter < 2 && result.length >= 3; iter++) {
+		const smoothed = [result[0]];
+		for (let i = 0; i < result.length - 1; i++) {
+			const a = result[i];
+			const b = result[i + 1];
+			const Mix = (t: number) => ({
+				x: a.x + (b.x - a.x) * t,
+				y: a.y + (b.y - a.y) * t,
+				pressure: a.pressure + (b.pressure - a.pressure) * t,
+				tilt: a.tilt + (b.tilt - a.tilt) * t,
+			});
+			smoothed.push(Mix(0.25), Mix(0.75));
+		}
+		smoothed.push(result[result.length - 1]);
+		result = smoothed;
+	}
+	return {
+		points: result.map(s => ({ x: s.x, y: s.y })),
+		pressures: result.map(s => s.pressure),
+		tilts: result.map(s => s.tilt),
+	};
+}
+
+// A stroke straightened into a line from its first point to its last, keeping the pressure
+// and tilt it started with
+export function Straighten(stroke: Pick<FreehandPath, 'points' | 'pressures' | 'tilts'>): Pick<FreehandPath, 'points' | 'pressures' | 'tilts'> {
+	const from = stroke.points[0];
+	const to = stroke.points[stroke.points.length - 1];
+	const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / STRAIGHT_SPACING));
+	const points: Point[] = [];
+	for (let i = 0; i <= steps; i++) {
+		points.push({ x: from.x + (to.x - from.x) * i / steps, y: from.y + (to.y - from.y) * i / steps });
+	}
+	return {
+		points,
+		...(stroke.pressures && { pressures: points.map(() => stroke.pressures![0]) }),
+		...(stroke.tilts && { tilts: points.map(() => stroke.tilts![0]) }),
+	};
+}
+
+// SVG path data for a freehand path's filled outline. 'drawing' is true while the stroke is
+// still being drawn (its end isn't tapered yet).
+export function Freehand_Outline(path: FreehandPath, drawing: boolean): string {
+	const { pressures, tilts } = path;
+	const variant = Pen_Variant(path);
+	if (!variant.pressure) {
+		// Even width: no thinning and no taper, just the cap the variant asks for
+		const stroke = getStroke(path.points, {
+			size: Drawn_Radius(path) * 2,
+			thinning: 0,
+			smoothing: 0.5,
+			streamline: path.style.streamline ?? DEFAULT_STREAMLINE,
+			simulatePressure: false,
+			start: { cap: variant.round, taper: 0 },
+			end: { cap: variant.round, taper: 0 },
+			last: !drawing,
+		});
+		return Get_Svg_Path_From_Stroke(stroke);
+	}
+	const has_pressure = !!pressures && pressures.length === path.points.length;
+	const input = has_pressure
+		? path.points.map((p, i) => ({
+			x: p.x,
+			y: p.y,
+			pressure: Math.min(1, pressures![i] * (1 + TILT_WIDENING * (tilts?.[i] ?? 0) / 90)),
+		}))
+		: path.points;
+	const stroke = getStroke(input, {
+		size: Drawn_Radius(path) * 2,
+		thinning: path.style.thinning ?? DEFAULT_THINNING,
+		smoothing: 0.5,
+		streamline: path.style.streamline ?? DEFAULT_STREAMLINE,
+		simulatePressure: !has_pressure,
+		start: { cap: true, taper: 0 },
+		end: { cap: true, taper: drawing ? 0 : path.style.taper ?? DEFAULT_TAPER },
+		last: !drawing,
+	});
+	return Get_Svg_Path_From_Stroke(stroke);
+}
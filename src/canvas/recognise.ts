@@ -0,0 +1,142 @@
+import type { Point, Bounds } from './types';
+import { Freehand_Bounds } from './helpers';
+
+// Shape recognition for freehand strokes ("snap to shape"). A closed stroke is matched against
+// a rectangle, ellipse and diamond filling its bounding box; an open one is a line if it runs
+// straight and an arrow if a straight shaft ends in a short head. Anything else is left as a
+// freehand stroke. Shapes are matched upright only.
+
+export type RecognisedShape = 'rectangle' | 'ellipse' | 'diamond';
+
+export type Recognition =
+	| { kind: 'shape'; type: RecognisedShape; bounds: Bounds }
+	| { kind: 'line'; from: Point; to: Point; arrow: boolean };
+
+// Strokes smaller than this (canvas units) are never recognised — dots, ticks, handwriting
+const MIN_SIZE = 24;
+
+// A stroke whose ends are closer than this fraction of its size is closed
+const CLOSED_GAP = 0.25;
+
+// An open stroke is a line when its ends are at least this fraction of its length apart
+const LINE_STRAIGHTNESS = 0.92;
+
+// Largest average miss (as a fraction of the shape's size) for a closed stroke to match
+const SHAPE_TOLERANCE = 0.1;
+
+// An arrow's shaft is at least this fraction of the stroke's length, and its head stays
+// within this fraction of the shaft's length of the tip
+const ARROW_SHAFT = 0.5;
+const ARROW_HEAD = 0.5;
+
+// Strokes are resampled to this many evenly spaced points before matching, so slow and fast
+// parts of a stroke count the same
+const SAMPLES = 64;
+
+function Length(points: Point[]): number {
+	let total = 0;
+	for (let i = 1; i < points.length; i++) total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+	return total;
+}
+
+function Resample(points: Point[], count: number): Point[] {
+	const step = Length(points) / (count - 1);
+	const result: Point[] = [points[0]];
+	let carried = 0;
+	for (let i = 1; i < points.length && result.length < count; i++) {
+		let a = points[i - 1];
+		const b = points[i];
+		let seg = Math.hypot(b.x - a.x, b.y - a.y);
+		while (carried + seg >= step && result.length < count) {
+			const t = (step - carried) / seg;
+			a = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+			result.push(a);
+			seg = Math.hypot(b.x - a.x, b.y - a.y);
+			carried = 0;
+		}
+		carried += seg;
+	}
+	while (result.length < count) result.push(points[points.length - 1]);
+	return result;
+}
+
+function Distance_To_Line(p: Point, a: Point, b: Point): number {
+	const len = Math.hypot(b.x - a.x, b.y - a.y);
+	if (len === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+	return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / len;
+}
+
+// Indices of the corners of a stroke (Ramer–Douglas–Peucker), ends included
+function Corners(points: Point[], tolerance: number, from = 0, to = points.length - 1): number[] {
+	let worst = -1;
+	let worst_dist = tolerance;
+	for (let i = from + 1; i < to; i++) {
+		const d = Distance_To_Line(points[i], points[from], points[to]);
+		if (d > worst_dist) {
+			worst = i;
+			worst_dist = d;
+		}
+	}
+	if (worst < 0) return [from, to];
+	return [...Corners(points, tolerance, from, worst).slice(0, -1), ...Corners(points, tolerance, worst, to)];
+}
+
+// How far a point lies from each shape's outline, measured as a "radius" in the shape's own
+// norm (1 on the outline) over the box centred at (cx, cy) with half-sizes (rx, ry)
+const SHAPE_NORMS: Record<RecognisedShape, (u: number, v: number) => number> = {
+	rectangle: (u, v) => Math.max(Math.abs(u), Math.abs(v)),
+	ellipse: (u, v) => Math.hypot(u, v),
+	diamond: (u, v) => Math.abs(u) + Math.abs(v),
+};
+
+function Recognise_Closed(points: Point[], bounds: Bounds): Recognition | null {
+	if (Math.min(bounds.width, bounds.height) < MIN_SIZE / 2) return null;
+	const rx = bounds.width / 2;
+	const ry = bounds.height / 2;
+	const cx = bounds.x + rx;
+	const cy = bounds.y + ry;
+	let best: { type: RecognisedShape; error: number } | null = null;
+	for (const type of Object.keys(SHAPE_NORMS) as RecognisedShape[]) {
+		const Norm = SHAPE_NORMS[type];
+		const error = points.reduce((sum, p) => sum + Math.abs(Norm((p.x - cx) / rx, (p.y - cy) / ry) - 1), 0) / points.length;
+		if (!best || error < best.error) best = { type, error };
+	}
+	if (!best || best.error > SHAPE_TOLERANCE) return null;
+	return { kind: 'shape', type: best.type, bounds };
+}
+
+function Recognise_Open(points: Point[], length: number): Recognition | null {
+	const first = points[0];
+	const last = points[points.length - 1];
+	if (Math.hypot(last.x - first.x, last.y - first.y) >= LINE_STRAIGHTNESS * length) {
+		return { kind: 'line', from: first, to: last, arrow: false };
+	}
+	// An arrow: a straight shaft to the tip, then a head that doubles back around the tip
+	const corners = Corners(points, length * 0.04);
+	if (corners.length < 3) return null;
+	// The tip is the furthest point out before the head turns back
+	const Reach = (p: Point) => Math.hypot(p.x - first.x, p.y - first.y);
+	const tip = points.slice(0, corners[2] + 1).reduce((far, p) => Reach(p) > Reach(far) ? p : far);
+	const shaft = Reach(tip);
+	if (shaft < ARROW_SHAFT * length) return null;
+	const head = points.slice(corners[1]);
+	if (head.some(p => Math.hypot(p.x - tip.x, p.y - tip.y) > ARROW_HEAD * shaft)) return null;
+	const barb = points[corners[2]];
+	const backwards = (barb.x - tip.x) * (tip.x - first.x) + (barb.y - tip.y) * (tip.y - first.y) < 0;
+	if (!backwards) return null;
+	return { kind: 'line', from: first, to: tip, arrow: true };
+}
+
+// What a finished freehand stroke looks like it was meant to be, or null to keep it as drawn
+export function Recognise_Stroke(stroke: Point[]): Recognition | null {
+	if (stroke.length < 2) return null;
+	const bounds = Freehand_Bounds(stroke);
+	const size = Math.hypot(bounds.width, bounds.height);
+	if (size < MIN_SIZE) return null;
+	const length = Length(stroke);
+	const points = Resample(stroke, SAMPLES);
+	const first = points[0];
+	const last = points[points.length - 1];
+	const closed = Math.hypot(last.x - first.x, last.y - first.y) < CLOSED_GAP * size && length > 1.5 * size;
+	return closed ? Recognise_Closed(points, bounds) : Recognise_Open(points, length);
+}
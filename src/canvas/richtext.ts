@@ -0,0 +1,279 @@
+import type { Shape, Bounds, TextMark, TextMarkType } from './types';
+
+// Rich text helpers.
+// A shape's text is plain text ('\n' between paragraphs) plus 'text_marks': formatting over
+// ranges of characters. The characters stay plain so they still merge one by one in collab
+// (see crdt.ts), while the marks travel as a single field pinned to the characters they cover.
+// Local edits shift the marks along with the text (Retext_Marks); anything past the end of the
+// text is ignored.
+// Inline marks cover [start, end). Bullet marks apply to every paragraph they touch, ends
+// included, so an empty one bullets a blank line.
+
+export const LINE_HEIGHT = 1.25;
+// Space left for the bullet at the start of a bulleted paragraph (in ems)
+const BULLET_INDENT = 1.2;
+// Gap between a shape's edge and its text
+const TEXT_PADDING = 6;
+const MIN_FONT_SIZE = 8;
+
+// A stretch of a line in one style
+export interface TextRun {
+	text: string;
+	bold: boolean;
+	italic: boolean;
+	underline: boolean;
+	strike: boolean;
+	href?: string;
+}
+
+export interface TextLine {
+	runs: TextRun[];
+	bullet: boolean;
+	// First line of its paragraph (the one that shows the bullet)
+	first: boolean;
+}
+
+export interface TextLayout {
+	lines: TextLine[];
+	font_size: number;
+	line_height: number;
+	indent: number;
+}
+
+// Text is measured with an offscreen canvas in the page's font (falling back to an average
+// character width where there's no canvas)
+let measure_ctx: CanvasRenderingContext2D | null | undefined;
+let font_family = 'sans-serif';
+function Text_Width(text: string, font_size: number, bold: boolean, italic: boolean): number {
+	if (measure_ctx === undefined) {
+		measure_ctx = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+		if (measure_ctx) font_family = getComputedStyle(document.body).fontFamily || font_family;
+	}
+	if (!measure_ctx) return text.length * font_size * (bold ? 0.6 : 0.55);
+	measure_ctx.font = `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${font_size}px ${font_family}`;
+	return measure_ctx.measureText(text).width;
+}
+
+// Links only ever open web and mail addresses (marks arrive from collaborators and files)
+export function Safe_Href(href: string | undefined): string | undefined {
+	if (!href) return undefined;
+	const url = /^[a-z][a-z0-9+.-]*:/i.test(href) ? href : `https://${href}`;
+	return /^(https?|mailto):/i.test(url) ? url : undefined;
+}
+
+// Marks that lie within the text
+function Valid_Marks(marks: TextMark[] | undefined, length: number): TextMark[] {
+	return (marks ?? []).filter(m => m.start >= 0 && m.start <= length && (m.type === 'bullet' ? m.end >= m.start : m.end > m.start));
+}
+
+// Styled pieces of the text between two offsets
+function Runs(text: string, marks: TextMark[], start: number, end: number): TextRun[] {
+	const inline = marks.filter(m => m.type !== 'bullet');
+	const cuts = new Set([start, end]);
+	for (const m of inline) {
+		if (m.start > start && m.start < end) cuts.add(m.start);
+		if (m.end > start && m.end < end) cuts.add(m.end);
+	}
+	const points = [...cuts].sort((a, b) => a - b);
+	const runs: TextRun[] = [];
+	for (let i = 0; i < points.length - 1; i++) {
+		const at = points[i];
+		const Has = (type: TextMarkType) => inline.find(m => m.type === type && m.start <= at && m.end > at);
+		runs.push({
+			text: text.slice(at, points[i + 1]),
+			bold: !!Has('bold'),
+			italic: !!Has('italic'),
+			underline: !!Has('underline'),
+			strike: !!Has('strike'),
+			href: Has('link')?.href,
+		});
+	}
+	return runs;
+}
+
+function Runs_Width(runs: TextRun[], font_size: number): number {
+	return runs.reduce((w, r) => w + Text_Width(r.text, font_size, r.bold, r.italic), 0);
+}
+
+// Break one paragraph into lines no wider than 'width', as [start, end) offsets. Words too
+// long for a line are split.
+function Wrap_Paragraph(text: string, marks: TextMark[], start: number, end: number, width: number, font_size: number): [number, number][] {
+	const Width = (a: number, b: number) => Runs_Width(Runs(text, marks, a, b), font_size);
+	const lines: [number, number][] = [];
+	let line_start = start;
+	let line_end = start;
+	for (const word of text.slice(start, end).matchAll(/\S+/g)) {
+		let word_start = start + word.index!;
+		const word_end = word_start + word[0].length;
+		if (line_end > line_start && Width(line_start, word_end) > width) {
+			lines.push([line_start, line_end]);
+			line_start = line_end = word_start;
+		}
+		while (line_end === line_start && word_end - word_start > 1 && Width(line_start, word_end) > width) {
+			let n = word_end - word_start - 1;
+			while (n > 1 && Width(word_start, word_start + n) > width) n--;
+			lines.push([line_start, word_start + n]);
+			word_start += n;
+			line_start = line_end = word_start;
+		}
+		line_end = word_end;
+	}
+	lines.push([line_start, line_end]);
+	return lines;
+}
+
+// Wrap text to a width at a given font size
+export function Layout_Text(text: string, marks: TextMark[] | undefined, width: number, font_size: number): TextLayout {
+	const valid = Valid_Marks(marks, text.length);
+	const indent = font_size * BULLET_INDENT;
+	const lines: TextLine[] = [];
+	let offset = 0;
+	for (const paragraph of text.split('\n')) {
+		const start = offset;
+		const end = offset + paragraph.length;
+		offset = end + 1;
+		const bullet = valid.some(m => m.type === 'bullet' && m.start <= end && m.end >= start);
+		const ranges = Wrap_Paragraph(text, valid, start, end, Math.max(0, width - (bullet ? indent : 0)), font_size);
+		ranges.forEach(([a, b], i) => lines.push({ runs: Runs(text, valid, a, b), bullet, first: i === 0 }));
+	}
+	return { lines, font_size, line_height: font_size * LINE_HEIGHT, indent };
+}
+
+// The largest font size (up to 'max_size') at which the text fits the box once wrapped. Text
+// that doesn't fit even at the smallest size is cut off with an ellipsis.
+export function Fit_Text(text: string, marks: TextMark[] | undefined, width: number, height: number, max_size: number): TextLayout {
+	for (let size = Math.max(max_size, MIN_FONT_SIZE); size > MIN_FONT_SIZE; size--) {
+		const layout = Layout_Text(text, marks, width, size);
+		if (layout.lines.length * layout.line_height <= height) return layout;
+	}
+	const layout = Layout_Text(text, marks, width, MIN_FONT_SIZE);
+	const max_lines = Math.max(1, Math.floor(height / layout.line_height));
+	if (layout.lines.length > max_lines) {
+		layout.lines.length = max_lines;
+		const runs = layout.lines[max_lines - 1].runs;
+		if (runs.length > 0) runs[runs.length - 1] = { ...runs[runs.length - 1], text: runs[runs.length - 1].text.replace(/.?$/, '…') };
+	}
+	return layout;
+}
+
+// Area of a shape that its text wraps within: inside the padding, and for ellipses and
+// diamonds the largest rectangle that fits inside the outline
+export function Text_Box(shape: Shape): Bounds {
+	const { x, y, width, height, type } = shape;
+	const inset = type === 'ellipse' ? (1 - Math.SQRT1_2) / 2 : type === 'diamond' ? 1 / 4 : 0;
+	const pad = type === 'text' ? 0 : TEXT_PADDING;
+	const inset_x = width * inset + pad;
+	const inset_y = height * inset + pad;
+	return {
+		x: x + inset_x,
+		y: y + inset_y,
+		width: Math.max(0, width - inset_x * 2),
+		height: Math.max(0, height - inset_y * 2),
+	};
+}
+
+// Start and end offsets of the paragraphs covering [start, end]
+function Paragraph_Span(text: string, start: number, end: number): [number, number] {
+	const from = start > 0 ? text.lastIndexOf('\n', start - 1) + 1 : 0;
+	const to = text.indexOf('\n', end);
+	return [from, to === -1 ? text.length : to];
+}
+
+// Offsets of the word around a caret position (an empty range when it isn't in a word)
+export function Word_At(text: string, at: number): [number, number] {
+	let start = at;
+	let end = at;
+	while (start > 0 && /\S/.test(text[start - 1])) start--;
+	while (end < text.length && /\S/.test(text[end])) end++;
+	return [start, end];
+}
+
+// Whether all of [start, end) has a mark (for bullets: every paragraph it touches)
+export function Has_Mark(text: string, marks: TextMark[] | undefined, type: TextMarkType, start: number, end: number): boolean {
+	const valid = Valid_Marks(marks, text.length).filter(m => m.type === type);
+	if (type === 'bullet') {
+		const [from, to] = Paragraph_Span(text, start, end);
+		let offset = from;
+		for (const paragraph of text.slice(from, to).split('\n')) {
+			const p_end = offset + paragraph.length;
+			if (!valid.some(m => m.start <= p_end && m.end >= offset)) return false;
+			offset = p_end + 1;
+		}
+		return true;
+	}
+	if (start >= end) return false;
+	for (let i = start; i < end; i++) {
+		if (!valid.some(m => m.start <= i && m.end > i)) return false;
+	}
+	return true;
+}
+
+// Add a mark over [start, end), or take it off if all of that range already has it. Bullets
+// toggle on the whole paragraphs the range touches.
+export function Toggle_Mark(text: string, marks: TextMark[] | undefined, type: TextMarkType, start: number, end: number, href?: string): TextMark[] {
+	const current = Valid_Marks(marks, text.length);
+	let from = start;
+	let to = end;
+	if (type === 'bullet') [from, to] = Paragraph_Span(text, start, end);
+	else if (start >= end) return current;
+
+	if (!Has_Mark(text, current, type, start, end)) {
+		return Normalise_Marks([...current, { type, start: from, end: to, ...(href && { href }) }]);
+	}
+	// Bullet ranges include their end, so what's left either side stops a character short
+	const gap = type === 'bullet' ? 1 : 0;
+	const next: TextMark[] = [];
+	for (const m of current) {
+		const overlaps = type === 'bullet' ? m.start <= to && m.end >= from : m.start < to && m.end > from;
+		if (m.type !== type || !overlaps) {
+			next.push(m);
+			continue;
+		}
+		if (m.start < from) next.push({ ...m, end: from - gap });
+		if (m.end > to) next.push({ ...m, start: to + gap });
+	}
+	return Normalise_Marks(next);
+}
+
+// Merge overlapping or touching marks of the same kind, in offset order
+export function Normalise_Marks(marks: TextMark[]): TextMark[] {
+	const sorted = [...marks].sort((a, b) => a.type.localeCompare(b.type) || (a.href ?? '').localeCompare(b.href ?? '') || a.start - b.start);
+	const result: TextMark[] = [];
+	for (const m of sorted) {
+		const last = result[result.length - 1];
+		const touch = m.type === 'bullet' ? 1 : 0;
+		if (last && last.type === m.type && last.href === m.href && m.start <= last.end + touch) {
+			last.end = Math.max(last.end, m.end);
+		} else {
+			result.push({ ...m });
+		}
+	}
+	return result;
+}
+
+// Move marks to follow an edit of the text. Text typed straight after a mark joins it (so
+// carrying on typing keeps the formatting, and new lines in a list are bulleted).
+export function Retext_Marks(marks: TextMark[] | undefined, old_text: string, new_text: string): TextMark[] | undefined {
+	if (!marks || marks.length === 0) return marks;
+	let prefix = 0;
+	const max_prefix = Math.min(old_text.length, new_text.length);
+	while (prefix < max_prefix && old_text[prefix] === new_text[prefix]) prefix++;
+	let suffix = 0;
+	while (suffix < max_prefix - prefix && old_text[old_text.length - 1 - suffix] === new_text[new_text.length - 1 - suffix]) suffix++;
+	let removed_end = old_text.length - suffix;
+	const inserted = new_text.length - suffix - prefix;
+	// Where a pure insertion could have gone in several places (a new line after a line break),
+	// take the earliest, so it follows the text before it
+	if (removed_end === prefix) {
+		while (prefix > 0 && new_text[prefix - 1] === new_text[prefix + inserted - 1]) prefix--;
+		removed_end = prefix;
+	}
+	const shift = new_text.length - old_text.length;
+
+	// Offsets in the changed section (or right at its start) end up after the new text
+	const Move = (pos: number) => pos < prefix ? pos : pos >= removed_end && pos > prefix ? pos + shift : prefix + inserted;
+	const moved = marks
+		.map(m => ({ ...m, start: Move(m.start), end: Move(m.end) }))
+		.filter(m => m.type === 'bullet' ? m.end >= m.start : m.end > m.start);
+	return Normalise_Marks(moved);
+}
@@ -0,0 +1,230 @@
+import type { Bounds, Point, PortSide } from './types';
+
+// Obstacle-avoiding orthogonal connector router.
+// Builds a sparse grid from the edges of nearby obstacles (inflated by a clearance margin)
+// plus the connector's stub points, then runs A* over (grid node, heading) states so that
+// bends can be penalised. Because every obstacle edge is a grid line, a segment between two
+// adjacent grid nodes crosses an obstacle iff its midpoint lies strictly inside it.
+
+const STUB = 20;          // distance travelled out of a port before the first turn
+const CLEARANCE = 10;     // gap kept between routed segments and obstacles (must be < STUB)
+const BEND_COST = 40;     // extra length charged per bend, so routes with fewer bends win
+const SEARCH_PAD = 150;   // obstacles further than this from the endpoints are ignored
+const MAX_AXIS = 160;     // give up (caller falls back) if the grid gets larger than this per axis
+
+// Headings: 0 = right, 1 = down, 2 = left, 3 = up
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+function Side_Heading(side: PortSide): number {
+	switch (side) {
+		case 'right': return 0;
+		case 'bottom': return 1;
+		case 'left': return 2;
+		case 'top': return 3;
+	}
+}
+
+// Where a route leaving a port first turns
+function Stub_End(p: Point, side: PortSide): Point {
+	const h = Side_Heading(side);
+	return { x: p.x + DX[h] * STUB, y: p.y + DY[h] * STUB };
+}
+
+// The area an obstacle has to reach into to affect a route between two ports
+export function Route_Search_Area(from: Point, to: Point, from_side: PortSide, to_side: PortSide): Bounds {
+	const ext_from = Stub_End(from, from_side);
+	const ext_to = Stub_End(to, to_side);
+	const pad = SEARCH_PAD + CLEARANCE;
+	return {
+		x: Math.min(ext_from.x, ext_to.x) - pad,
+		y: Math.min(ext_from.y, ext_to.y) - pad,
+		width: Math.abs(ext_to.x - ext_from.x) + pad * 2,
+		height: Math.abs(ext_to.y - ext_from.y) + pad * 2,
+	};
+}
+
+// Route an orthogonal path from a port on one shape to a port on another, avoiding obstacles.
+// 'from_side'/'to_side' are the directions the ports face. Returns the full polyline
+// (port, stub, ..., stub, port) or null if no route exists within the search area.
+export function Route_Orthogonal(from: Point, to: Point, from_side: PortSide, to_side: PortSide, obstacles: Bounds[]): Point[] | null {
+	const h_from = Side_Heading(from_side);
+	const h_to = Side_Heading(to_side);
+	const ext_from = Stub_End(from, from_side);
+	const ext_to = Stub_End(to, to_side);
+
+	// Only obstacles near the endpoints matter. Obstacles containing a stub end are the
+	// connected shapes themselves (e.g. when rotated) and are skipped.
+	const area = {
+		x: Math.min(ext_from.x, ext_to.x) - SEARCH_PAD,
+		y: Math.min(ext_from.y, ext_to.y) - SEARCH_PAD,
+		width: Math.abs(ext_to.x - ext_from.x) + SEARCH_PAD * 2,
+		height: Math.abs(ext_to.y - ext_from.y) + SEARCH_PAD * 2,
+	};
+	const blocks: Bounds[] = [];
+	for (const o of obstacles) {
+		const b = { x: o.x - CLEARANCE, y: o.y - CLEARANCE, width: o.width + CLEARANCE * 2, height: o.height + CLEARANCE * 2 };
+		if (!Overlaps(area, b)) continue;
+		if (Strictly_Inside(ext_from, b) || Strictly_Inside(ext_to, b)) continue;
+		blocks.push(b);
+	}
+
+	// Grid lines: stub ends, their midpoint, the search area edges and every obstacle edge
+	const xs_set = new Set<number>([ext_from.x, ext_to.x, (ext_from.x + ext_to.x) / 2, area.x, area.x + area.width]);
+	const ys_set = new Set<number>([ext_from.y, ext_to.y, (ext_from.y + ext_to.y) / 2, area.y, area.y + area.height]);
+	for (const b of blocks) {
+		xs_set.add(b.x); xs_set.add(b.x + b.width);
+		ys_set.add(b.y); ys_set.add(b.y + b.height);
+	}
+	const xs = Array.from(xs_set).sort((a, b) => a - b);
+	const ys = Array.from(ys_set).sort((a, b) => a - b);
+	if (xs.length > MAX_AXIS || ys.length > MAX_AXIS) return null;
+
+	const nx = xs.length;
+	const ny = ys.length;
+	const node_count = nx * ny;
+	const Is_Free = (p: Point) => !blocks.some(b => Strictly_Inside(p, b));
+
+	const free = new Uint8Array(node_count);
+	for (let i = 0; i < nx; i++) {
+		for (let j = 0; j < ny; j++) {
+			free[j * nx + i] = Is_Free({ x: xs[i], y: ys[j] }) ? 1 : 0;
+		}
+	}
+
+	const start = ys.indexOf(ext_from.y) * nx + xs.indexOf(ext_from.x);
+	const goal = ys.indexOf(ext_to.y) * nx + xs.indexOf(ext_to.x);
+	// The final leg runs from the target stub into the port, i.e. opposite to the port's facing
+	const arrive_heading = (h_to + 2) % 4;
+	const goal_x = ext_to.x, goal_y = ext_to.y;
+
+	// A* over states = node * 4 + heading
+	const g = new Float64Array(node_count * 4).fill(Infinity);
+	const prev = new Int32Array(node_count * 4).fill(-1);
+	const closed = new Uint8Array(node_count * 4);
+	const open = new MinHeap();
+
+	const start_state = start * 4 + h_from;
+	g[start_state] = 0;
+	open.Push(start_state, Manhattan(ext_from.x, ext_from.y, goal_x, goal_y));
+
+	let best_state = -1;
+	let best_cost = Infinity;
+	while (open.Size > 0) {
+		const [state, f] = open.Pop();
+		if (f >= best_cost) break;
+		if (closed[state]) continue;
+		closed[state] = 1;
+
+		const node = state >> 2;
+		const heading = state & 3;
+		if (node === goal) {
+			const total = g[state] + (heading === arrive_heading ? 0 : BEND_COST);
+			if (total < best_cost) { best_cost = total; best_state = state; }
+			continue;
+		}
+
+		const i = node % nx;
+		const j = (node - i) / nx;
+		for (let d = 0; d < 4; d++) {
+			if (d === (heading + 2) % 4) continue; // never reverse
+			const ni = i + DX[d];
+			const nj = j + DY[d];
+			if (ni < 0 || nj < 0 || ni >= nx || nj >= ny) continue;
+			const next = nj * nx + ni;
+			if (!free[next]) continue;
+			if (!Is_Free({ x: (xs[i] + xs[ni]) / 2, y: (ys[j] + ys[nj]) / 2 })) continue;
+
+			const next_state = next * 4 + d;
+			const cost = g[state] + Math.abs(xs[ni] - xs[i]) + Math.abs(ys[nj] - ys[j]) + (d === heading ? 0 : BEND_COST);
+			if (cost < g[next_state]) {
+				g[next_state] = cost;
+				prev[next_state] = state;
+				open.Push(next_state, cost + Manhattan(xs[ni], ys[nj], goal_x, goal_y));
+			}
+		}
+	}
+	if (best_state < 0) return null;
+
+	// Walk back from the goal and drop collinear points
+	const grid_path: Point[] = [];
+	for (let s = best_state; s >= 0; s = prev[s]) {
+		const node = s >> 2;
+		const i = node % nx;
+		grid_path.push({ x: xs[i], y: ys[(node - i) / nx] });
+	}
+	grid_path.reverse();
+	return Remove_Collinear([from, ...grid_path, to]);
+}
+
+function Manhattan(x0: number, y0: number, x1: number, y1: number): number {
+	return Math.abs(x1 - x0) + Math.abs(y1 - y0);
+}
+
+function Strictly_Inside(p: Point, b: Bounds): boolean {
+	const eps = 1e-6;
+	return p.x > b.x + eps && p.x < b.x + b.width - eps && p.y > b.y + eps && p.y < b.y + b.height - eps;
+}
+
+function Overlaps(a: Bounds, b: Bounds): boolean {
+	return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function Remove_Collinear(points: Point[]): Point[] {
+	const result: Point[] = [];
+	for (const p of points) {
+		const n = result.length;
+		if (n > 0 && result[n - 1].x === p.x && result[n - 1].y === p.y) continue;
+		if (n >= 2) {
+			const a = result[n - 2], b = result[n - 1];
+			if ((a.x === b.x && b.x === p.x) || (a.y === b.y && b.y === p.y)) {
+				result[n - 1] = p;
+				continue;
+			}
+		}
+		result.push(p);
+	}
+	return result;
+}
+
+// Binary min-heap of (state, priority) pairs
+class MinHeap {
+	private m_states: number[] = [];
+	private m_prios: number[] = [];
+
+	get Size(): number { return this.m_states.length; }
+
+	Push(state: number, prio: number): void {
+		const s = this.m_states, p = this.m_prios;
+		let i = s.length;
+		s.push(state); p.push(prio);
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (p[parent] <= prio) break;
+			s[i] = s[parent]; p[i] = p[parent];
+			i = parent;
+		}
+		s[i] = state; p[i] = prio;
+	}
+
+	Pop(): [number, number] {
+		const s = this.m_states, p = this.m_prios;
+		const top: [number, number] = [s[0], p[0]];
+		const last_s = s.pop()!, last_p = p.pop()!;
+		if (s.length > 0) {
+			let i = 0;
+			const n = s.length;
+			for (;;) {
+				const l = i * 2 + 1, r = l + 1;
+				let m = i, mp = last_p;
+				if (l < n && p[l] < mp) { m = l; mp = p[l]; }
+				if (r < n && p[r] < mp) { m = r; mp = p[r]; }
+				if (m === i) break;
+				s[i] = s[m]; p[i] = p[m];
+				i = m;
+			}
+			s[i] = last_s; p[i] = last_p;
+		}
+		return top;
+	}
+}
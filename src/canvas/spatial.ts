@@ -0,0 +1,244 @@
+import type { Bounds, Connector, FreehandPath, Point, Shape } from './types';
+import { Rotated_Shape_Bounds, Freehand_Bounds, Port_Position, Port_Outward_Normal, Default_Control_Points } from './helpers';
+import { LINE_HEIGHT } from './richtext';
+import { Drawn_Radius } from './pen';
+
+// Spatial index over board elements, used for viewport culling and hit/marquee queries.
+// A quadtree where each element lives in the deepest node that fully contains its bounds
+// (elements straddling a split line stay in the parent). The root grows outwards as elements
+// are added beyond it. Sync() diffs the element arrays by object identity, so only elements
+// that changed since the last call are moved in the tree.
+
+const NODE_CAPACITY = 16;    // split a node once it holds more elements than this
+const MIN_NODE_SIZE = 64;    // ...unless it's already this small
+const INITIAL_SIZE = 1024;
+const SHAPE_PAD = 8;         // room for port indicators and strokes
+const ORTHO_PAD = 170;       // routed connectors stay within the router's search area of their ends
+const CONNECTOR_PAD = 12;    // arrow heads
+
+export type SpatialEntry =
+	| { kind: 'shape'; item: Shape }
+	| { kind: 'connector'; item: Connector }
+	| { kind: 'freehand'; item: FreehandPath };
+
+type Indexed = SpatialEntry & {
+	bounds: Bounds;
+	// Shapes a connector's ends were bound to when its bounds were computed
+	ends?: [Shape | undefined, Shape | undefined];
+};
+
+class QuadNode {
+	bounds: Bounds;
+	items = new Map<string, Indexed>();
+	children: QuadNode[] | null = null;
+
+	constructor(bounds: Bounds) {
+		this.bounds = bounds;
+	}
+
+	// The child that fully contains 'b' (null if none, or not split)
+	Child_For(b: Bounds): QuadNode | null {
+		if (!this.children) return null;
+		return this.children.find(c => Contains(c.bounds, b)) ?? null;
+	}
+
+	Insert(id: string, entry: Indexed): void {
+		const child = this.Child_For(entry.bounds);
+		if (child) { child.Insert(id, entry); return; }
+		this.items.set(id, entry);
+		if (!this.children && this.items.size > NODE_CAPACITY && this.bounds.width > MIN_NODE_SIZE) this.Split();
+	}
+
+	Remove(id: string, b: Bounds): void {
+		const child = this.Child_For(b);
+		if (child) child.Remove(id, b);
+		else this.items.delete(id);
+	}
+
+	Query(area: Bounds, out: Indexed[]): void {
+		if (!Overlaps(this.bounds, area)) return;
+		for (const entry of this.items.values()) {
+			if (Overlaps(entry.bounds, area)) out.push(entry);
+		}
+		if (this.children) {
+			for (const c of this.children) c.Query(area, out);
+		}
+	}
+
+	private Split(): void {
+		const { x, y } = this.bounds;
+		const half = this.bounds.width / 2;
+		this.children = [
+			new QuadNode({ x, y, width: half, height: half }),
+			new QuadNode({ x: x + half, y, width: half, height: half }),
+			new QuadNode({ x, y: y + half, width: half, height: half }),
+			new QuadNode({ x: x + half, y: y + half, width: half, height: half }),
+		];
+		const items = this.items;
+		this.items = new Map();
+		for (const [id, entry] of items) this.Insert(id, entry);
+	}
+}
+
+export class SpatialIndex {
+	private m_root: QuadNode | null = null;
+	private m_entries = new Map<string, Indexed>();
+	// Bumped each time an element's entry is replaced
+	private m_versions = new Map<string, number>();
+	private m_next_version = 1;
+
+	get Size(): number { return this.m_entries.size; }
+
+	// Bring the index up to date with the board. Cheap when little has changed.
+	Sync(shapes: Shape[], connectors: Connector[], freehand_paths: FreehandPath[]): void {
+		const shape_map = new Map(shapes.map(s => [s.id, s]));
+		const live = new Set<string>();
+
+		for (const s of shapes) {
+			live.add(s.id);
+			const prev = this.m_entries.get(s.id);
+			if (prev?.item !== s) this.Put(s.id, { kind: 'shape', item: s, bounds: Shape_Extent(s) });
+		}
+		for (const f of freehand_paths) {
+			live.add(f.id);
+			const prev = this.m_entries.get(f.id);
+			if (prev?.item !== f) this.Put(f.id, { kind: 'freehand', item: f, bounds: Freehand_Extent(f) });
+		}
+		for (const c of connectors) {
+			live.add(c.id);
+			// Bound connectors also move when the shapes at their ends do
+			const ends: [Shape | undefined, Shape | undefined] = [
+				c.source.shape_id ? shape_map.get(c.source.shape_id) : undefined,
+				c.target.shape_id ? shape_map.get(c.target.shape_id) : undefined,
+			];
+			const prev = this.m_entries.get(c.id);
+			if (prev?.item !== c || prev.ends?.[0] !== ends[0] || prev.ends?.[1] !== ends[1]) {
+				this.Put(c.id, { kind: 'connector', item: c, bounds: Connector_Extent(c, ends), ends });
+			}
+		}
+		for (const id of Array.from(this.m_entries.keys())) {
+			if (!live.has(id)) this.Delete(id);
+		}
+	}
+
+	// Elements whose (padded) bounds overlap an area
+	Query(area: Bounds): SpatialEntry[] {
+		const out: Indexed[] = [];
+		this.m_root?.Query(area, out);
+		return out;
+	}
+
+	// Elements whose (padded) bounds contain a point
+	Query_Point(p: Point): SpatialEntry[] {
+		return this.Query({ x: p.x, y: p.y, width: 0, height: 0 });
+	}
+
+	All(): SpatialEntry[] {
+		return Array.from(this.m_entries.values());
+	}
+
+	// Changes whenever the element does, so callers can cache what they work out from it
+	Version(id: string): number {
+		return this.m_versions.get(id) ?? 0;
+	}
+
+	private Put(id: string, entry: Indexed): void {
+		this.Delete(id);
+		this.m_entries.set(id, entry);
+		this.m_versions.set(id, this.m_next_version++);
+		// Elements with broken geometry are tracked but can't be found by position
+		if (!Is_Finite(entry.bounds)) return;
+		this.Grow_To(entry.bounds);
+		this.m_root!.Insert(id, entry);
+	}
+
+	private Delete(id: string): void {
+		const prev = this.m_entries.get(id);
+		if (!prev) return;
+		if (Is_Finite(prev.bounds)) this.m_root!.Remove(id, prev.bounds);
+		this.m_entries.delete(id);
+		this.m_versions.delete(id);
+	}
+
+	// Enlarge the root (doubling, with the old root as one quadrant) until it contains 'b'
+	private Grow_To(b: Bounds): void {
+		let root = this.m_root;
+		if (!root) {
+			let size = INITIAL_SIZE;
+			while (size < Math.max(b.width, b.height)) size *= 2;
+			const cx = b.x + b.width / 2, cy = b.y + b.height / 2;
+			root = new QuadNode({ x: cx - size / 2, y: cy - size / 2, width: size, height: size });
+		}
+		while (!Contains(root.bounds, b)) {
+			const old: QuadNode = root;
+			const size = old.bounds.width;
+			// Grow towards the element: the old root becomes the quadrant furthest from it
+			const x = b.x < old.bounds.x ? old.bounds.x - size : old.bounds.x;
+			const y = b.y < old.bounds.y ? old.bounds.y - size : old.bounds.y;
+			root = new QuadNode({ x, y, width: size * 2, height: size * 2 });
+			root.children = [0, 1, 2, 3].map(i => {
+				const qx = x + (i % 2) * size;
+				const qy = y + Math.floor(i / 2) * size;
+				return qx === old.bounds.x && qy === old.bounds.y ? old : new QuadNode({ x: qx, y: qy, width: size, height: size });
+			});
+		}
+		this.m_root = root;
+	}
+}
+
+// Bounds of a shape, including its rotation, stroke and any label text spilling past its edges.
+// Labels wrap to the shape's width, so only run over the top and bottom (roughly estimated here).
+function Shape_Extent(s: Shape): Bounds {
+	const b = Rotated_Shape_Bounds(s);
+	const per_line = Math.max(1, Math.floor(s.width / (s.style.font_size * 0.5)));
+	const lines = s.text ? s.text.split('\n').reduce((n, p) => n + Math.max(1, Math.ceil(p.length / per_line)), 0) : 0;
+	const half_text = lines * s.style.font_size * LINE_HEIGHT / 2;
+	const pad_x = SHAPE_PAD + s.style.stroke_width;
+	const pad_y = SHAPE_PAD + s.style.stroke_width + Math.max(0, half_text - b.height / 2);
+	return { x: b.x - pad_x, y: b.y - pad_y, width: b.width + pad_x * 2, height: b.height + pad_y * 2 };
+}
+
+// The outline reaches Drawn_Radius past the points, which is well past stroke_width for highlighters
+function Freehand_Extent(f: FreehandPath): Bounds {
+	return Pad(Freehand_Bounds(f.points), Drawn_Radius(f));
+}
+
+function Connector_Extent(c: Connector, ends: [Shape | undefined, Shape | undefined]): Bounds {
+	const End_Point = (end: Connector['source'], shape: Shape | undefined): Point => {
+		const port = shape?.ports.find(p => p.id === end.port_id);
+		return shape && port ? Port_Position(shape, port) : { x: end.x, y: end.y };
+	};
+	const End_Normal = (end: Connector['source'], shape: Shape | undefined): Point | undefined => {
+		const port = shape?.ports.find(p => p.id === end.port_id);
+		return shape && port ? Port_Outward_Normal(shape, port) : undefined;
+	};
+	const source = End_Point(c.source, ends[0]);
+	const target = End_Point(c.target, ends[1]);
+	const routing = c.routing ?? 'ortho';
+
+	const points = [source, target, ...(c.control_points ?? [])];
+	if (routing === 'smooth' && !c.control_points) {
+		points.push(...Default_Control_Points(source, target, End_Normal(c.source, ends[0]), End_Normal(c.target, ends[1])));
+	}
+	const label_pad = c.label ? 10 + c.label.length * 8 : 0;
+	const pad = (routing === 'ortho' ? ORTHO_PAD : CONNECTOR_PAD) + c.style.stroke_width + label_pad;
+	return Pad(Freehand_Bounds(points), pad);
+}
+
+function Pad(b: Bounds, pad: number): Bounds {
+	return { x: b.x - pad, y: b.y - pad, width: b.width + pad * 2, height: b.height + pad * 2 };
+}
+
+function Is_Finite(b: Bounds): boolean {
+	return Number.isFinite(b.x) && Number.isFinite(b.y) && Number.isFinite(b.width) && Number.isFinite(b.height);
+}
+
+function Contains(outer: Bounds, inner: Bounds): boolean {
+	return inner.x >= outer.x && inner.y >= outer.y &&
+		inner.x + inner.width <= outer.x + outer.width &&
+		inner.y + inner.height <= outer.y + outer.height;
+}
+
+function Overlaps(a: Bounds, b: Bounds): boolean {
+	return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
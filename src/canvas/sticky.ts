@@ -0,0 +1,37 @@
+import type { Shape, Point } from './types';
+
+// Sticky note helpers: paper colours and stacking notes into a tidy grid. A note's text
+// shrinks to fit it (see Fit_Text in richtext.ts).
+
+export const STICKY_SIZE = 160;
+export const STICKY_PADDING = 12;
+// Strip along the bottom of a note for its author's name
+export const STICKY_AUTHOR_HEIGHT = 16;
+export const STICKY_FONT_SIZE = 18;
+
+export const STICKY_COLOURS = [
+	'#fff59d', '#ffcc80', '#f8bbd0', '#e1bee7',
+	'#b3e5fc', '#c8e6c9', '#ffffff', '#e0e0e0',
+];
+
+const STACK_GAP = 16;
+
+// New positions for notes stacked into a grid at the top-left of where they are now, in
+// reading order (rows of notes top to bottom, each left to right)
+export function Stack_Notes(notes: Shape[]): Map<string, Point> {
+	const positions = new Map<string, Point>();
+	if (notes.length === 0) return positions;
+	const cell_w = Math.max(...notes.map(n => n.width)) + STACK_GAP;
+	const cell_h = Math.max(...notes.map(n => n.height)) + STACK_GAP;
+	const origin = { x: Math.min(...notes.map(n => n.x)), y: Math.min(...notes.map(n => n.y)) };
+	const Row = (n: Shape) => Math.round((n.y - origin.y) / cell_h);
+	const ordered = [...notes].sort((a, b) => (Row(a) - Row(b)) || (a.x - b.x));
+	const columns = Math.ceil(Math.sqrt(notes.length));
+	ordered.forEach((note, i) => {
+		positions.set(note.id, {
+			x: origin.x + (i % columns) * cell_w,
+			y: origin.y + Math.floor(i / columns) * cell_h,
+		});
+	});
+	return positions;
+}
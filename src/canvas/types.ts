@@ -1,6 +1,12 @@
 // Core data types for the whiteboard canvas
 
-export type ShapeType = 'rectangle' | 'ellipse' | 'diamond' | 'text';
+import type { CrdtSnapshot } from './crdt';
+
+export type ShapeType = 'rectangle' | 'ellipse' | 'diamond' | 'text' | 'image' | 'frame' | 'sticky';
+
+// Shapes that can be drawn with the shape and text tools (images are inserted from files
+// instead, frames and sticky notes have their own tools)
+export type DrawableShapeType = Exclude<ShapeType, 'image' | 'frame' | 'sticky'>;
 
 export interface Point {
 	x: number;
@@ -29,6 +35,9 @@ export interface Port {
 	offset: number;
 }
 
+export type TextAlign = 'left' | 'center' | 'right';
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
 export interface ShapeStyle {
 	fill: string;
 	stroke: string;
@@ -37,6 +46,9 @@ export interface ShapeStyle {
 	text_colour: string;
 	rounded: boolean;
 	opacity: number;
+	// Where the text sits in the shape (absent = centred)
+	text_align?: TextAlign;
+	text_valign?: TextVerticalAlign;
 }
 
 export const DEFAULT_STYLE: ShapeStyle = {
@@ -49,6 +61,26 @@ export const DEFAULT_STYLE: ShapeStyle = {
 	opacity: 100,
 };
 
+// Formatting over a range of a shape's text (see richtext.ts)
+export type TextMarkType = 'bold' | 'italic' | 'underline' | 'strike' | 'link' | 'bullet';
+
+export interface TextMark {
+	type: TextMarkType;
+	start: number;
+	end: number;
+	// Address of a link
+	href?: string;
+}
+
+// Pixels of an image shape. The image data lives in the asset store (see assets.ts).
+export interface ShapeImage {
+	asset_id: string;
+	natural_width: number;
+	natural_height: number;
+	// Visible part of the image, normalised to 0..1 of the natural size (absent = uncropped)
+	crop?: Bounds;
+}
+
 export interface Shape {
 	id: string;
 	type: ShapeType;
@@ -58,9 +90,13 @@ export interface Shape {
 	height: number;
 	rotation: number; // degrees
 	text: string;
+	text_marks?: TextMark[];
 	style: ShapeStyle;
 	ports: Port[];
 	z_index: number;
+	image?: ShapeImage;
+	// Frame the shape sits in (see frames.ts)
+	frame_id?: string;
 	created_by?: string;
 }
 
@@ -73,7 +109,7 @@ export interface ConnectorEnd {
 	y: number;
 }
 
-export type ArrowType = 'forward' | 'back' | 'both';
+export type ArrowType = 'forward' | 'back' | 'both' | 'none';
 export type ConnectorRouting = 'ortho' | 'smooth' | 'straight';
 
 export interface Connector {
@@ -93,18 +129,43 @@ export interface Connector {
 		stroke_width: number;
 	};
 	z_index: number;
+	frame_id?: string;
+	created_by?: string;
+}
+
+// A group of elements that select, move and transform as one unit.
+// Members are shape, connector, freehand path or (nested) group ids.
+export interface Group {
+	id: string;
+	member_ids: string[];
 	created_by?: string;
 }
 
 export interface CanvasState {
+	// Board file format version (see migrate.ts). Absent in boards saved before versioning.
+	schema_version?: number;
 	shapes: Shape[];
 	connectors: Connector[];
 	freehand_paths: FreehandPath[];
+	groups?: Group[];
+	// Image data keyed by asset id (data URLs). Only present in exported files.
+	assets?: Record<string, string>;
 	board_name?: string;
+	// Named views of the board, in presentation order
+	saved_views?: SavedView[];
 	allow_remote_editing?: boolean;
+	// Replicated document state. Only present in collab state syncs (see crdt.ts).
+	crdt?: CrdtSnapshot;
 }
 
-export type ToolType = 'select' | 'rectangle' | 'ellipse' | 'diamond' | 'text' | 'arrow' | 'freehand' | 'laser';
+export type ToolType = 'select' | 'rectangle' | 'ellipse' | 'diamond' | 'text' | 'sticky' | 'frame' | 'arrow' | 'freehand' | 'eraser' | 'laser';
+
+// What the eraser removes: whole freehand paths, or just the parts it passes over
+export type EraserMode = 'stroke' | 'pixel';
+
+// Kinds of pen: a pressure-sensitive pen, an even-width marker, or a wide translucent
+// highlighter that leaves what's underneath readable
+export type PenVariant = 'pen' | 'marker' | 'highlighter';
 
 export interface Viewport {
 	offset_x: number;
@@ -112,14 +173,29 @@ export interface Viewport {
 	zoom: number;
 }
 
+export interface FreehandStyle {
+	stroke: string;
+	stroke_width: number;
+	// How the outline follows the pen (see pen.ts): how much pressure thins it, how far the
+	// line lags to smooth out jitter, and how long the tapered end is. Absent on paths drawn
+	// before these could be set, which keep the defaults.
+	thinning?: number;
+	streamline?: number;
+	taper?: number;
+}
+
 export interface FreehandPath {
 	id: string;
 	points: Point[];
-	style: {
-		stroke: string;
-		stroke_width: number;
-	};
+	// Pen pressure (0..1) and tilt from upright (degrees) at each point, for paths drawn with
+	// a pen (see pen.ts)
+	pressures?: number[];
+	tilts?: number[];
+	// Absent on paths drawn before there were variants, which are all 'pen'
+	variant?: PenVariant;
+	style: FreehandStyle;
 	z_index: number;
+	frame_id?: string;
 	created_by?: string;
 }
 
@@ -130,22 +206,36 @@ export interface LaserPoint {
 }
 
 export interface ToolSettings {
+	pen_variant: PenVariant;
 	pen_size: number;
 	pen_color: string;
+	pen_thinning: number;
+	pen_streamline: number;
+	pen_taper: number;
+	// Replace strokes that look like boxes, ellipses, diamonds, lines or arrows with the real thing
+	pen_snap_to_shape: boolean;
 	text_size: number;
 	text_color: string;
-	shape_type: ShapeType;
+	shape_type: DrawableShapeType;
 	shape_fill: string;
 	shape_stroke: string;
 	connector_thickness: number;
 	connector_routing: ConnectorRouting;
 	arrow_type: ArrowType;
 	laser_color: string;
+	sticky_colour: string;
+	eraser_mode: EraserMode;
+	eraser_size: number;
 }
 
 export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+	pen_variant: 'pen',
 	pen_size: 2,
 	pen_color: '#333333',
+	pen_thinning: 0.5,
+	pen_streamline: 0.5,
+	pen_taper: 20,
+	pen_snap_to_shape: false,
 	text_size: 14,
 	text_color: '#333333',
 	shape_type: 'rectangle',
@@ -155,6 +245,9 @@ export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
 	connector_routing: 'ortho',
 	arrow_type: 'forward',
 	laser_color: '#ff2222',
+	sticky_colour: '#fff59d',
+	eraser_mode: 'stroke',
+	eraser_size: 16,
 };
 
 // ── Collaboration types ──
@@ -167,17 +260,67 @@ export interface CollabUser {
 	pressing?: boolean;
 	status: 'editing' | 'viewing' | 'idle';
 	permission: 'edit' | 'view';
+	// Their current Web PubSub connection, for the host to change their role on
+	connection_id?: string;
+	// Ids of the elements they have selected, and where they're dragging them to
+	selection?: string[];
+	drag_preview?: RemoteOutline[];
+	// The part of the board they're looking at
+	view?: SharedView;
+}
+
+// A visible area of the board in canvas coords (centre and size), so followers with a different
+// screen size see the same region
+export interface SharedView {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+// A viewport bookmark saved with the board. Presentation mode steps through them in order.
+export interface SavedView {
+	id: string;
+	name: string;
+	view: SharedView;
+}
+
+// Where the host's presentation is up to, for the room to follow along
+export interface PresentationStep {
+	name: string;
+	index: number;
+	count: number;
+	view: SharedView;
+}
+
+// Outline of an element in canvas coords, as a collaborator sees it mid-drag
+export interface RemoteOutline {
+	id: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	rotation?: number;
 }
 
 export type CollabMessageType =
 	| 'join'
+	| 'presence'
 	| 'leave'
+	| 'permission'
 	| 'cursor'
-	| 'state_sync'
+	| 'selection'
+	| 'drag_preview'
+	| 'viewport'
+	| 'summon'
+	| 'present'
+	| 'state_chunk'
 	| 'op_add'
 	| 'op_update'
 	| 'op_delete'
-	| 'request_state';
+	| 'request_state'
+	| 'asset_request'
+	| 'asset_chunk';
 
 export interface CollabMessage {
 	type: CollabMessageType;
@@ -1,43 +1,85 @@
-import type { CanvasState } from './types';
+import type { Shape, Connector, FreehandPath, Group } from './types';
 
-// Snapshot-based undo/redo — simple and reliable
-// Each action saves a full snapshot of the canvas state
+// Command-based undo/redo.
+// The canvas reports every local change to an element as a before/after pair (Observe); the
+// changes made between two Begin() calls form one command. Updates keep only the fields that
+// changed, so memory scales with the size of an edit rather than the size of the board.
+// Remote edits are never recorded, and undo only reverts fields that still hold the value the
+// command gave them — so undoing your own work leaves collaborators' edits in place.
 
 const MAX_HISTORY = 100;
 
+export type ElementKind = 'shape' | 'connector' | 'freehand' | 'group';
+export type BoardElement = Shape | Connector | FreehandPath | Group;
+
+type Fields = Record<string, unknown>;
+
+type ElementChange =
+	| { op: 'add'; kind: ElementKind; item: BoardElement }
+	| { op: 'delete'; kind: ElementKind; item: BoardElement }
+	| { op: 'update'; kind: ElementKind; id: string; before: Fields; after: Fields };
+
+// Changes by element id, in the order they were first made
+type Command = Map<string, ElementChange>;
+
+// One element to put back on the board (item null = remove it)
+export interface ElementEdit {
+	kind: ElementKind;
+	id: string;
+	item: BoardElement | null;
+}
+
+export type ElementLookup = (kind: ElementKind, id: string) => BoardElement | undefined;
+
 export class UndoManager {
-	private m_undo_stack: CanvasState[] = [];
-	private m_redo_stack: CanvasState[] = [];
+	private m_undo_stack: Command[] = [];
+	private m_redo_stack: Command[] = [];
+	private m_open: Command | null = null;
+	private m_open_key: string | null = null;
 
-	// Deep-clone the state for the snapshot
-	private static Clone(state: CanvasState): CanvasState {
-		return JSON.parse(JSON.stringify(state));
+	// Call before making a change: later changes form a new command. Changes begun with the
+	// same key as the open command (e.g. keystrokes typed into one label) join it instead.
+	Begin(key?: string): void {
+		if (key !== undefined && this.m_open && key === this.m_open_key) return;
+		this.Seal();
+		this.m_open = new Map();
+		this.m_open_key = key ?? null;
 	}
 
-	// Call before making a change to save the current state
-	Push(state: CanvasState): void {
-		this.m_undo_stack.push(UndoManager.Clone(state));
-		if (this.m_undo_stack.length > MAX_HISTORY) {
-			this.m_undo_stack.shift();
+	// Record local changes between two versions of an element list. Ids in 'skip' (remote
+	// edits, previews, undo itself) are ignored.
+	Observe(kind: ElementKind, prev: BoardElement[], next: BoardElement[], skip: Set<string>): void {
+		if (prev === next) return;
+		const prev_by_id = new Map(prev.map(e => [e.id, e]));
+		for (const item of next) {
+			const old = prev_by_id.get(item.id);
+			prev_by_id.delete(item.id);
+			if (old !== item && !skip.has(item.id)) this.Record(kind, old, item);
+		}
+		for (const [id, old] of prev_by_id) {
+			if (!skip.has(id)) this.Record(kind, old, undefined);
 		}
-		// Any new action invalidates the redo stack
-		this.m_redo_stack = [];
 	}
 
-	Undo(current_state: CanvasState): CanvasState | null {
-		if (this.m_undo_stack.length === 0) return null;
-		this.m_redo_stack.push(UndoManager.Clone(current_state));
-		return this.m_undo_stack.pop()!;
+	// Revert the latest command. Returns the elements to change (nothing if there's no history).
+	Undo(lookup: ElementLookup): ElementEdit[] | null {
+		this.Seal();
+		const cmd = this.m_undo_stack.pop();
+		if (!cmd) return null;
+		this.m_redo_stack.push(cmd);
+		return Apply(Array.from(cmd.values()).reverse(), lookup, true);
 	}
 
-	Redo(current_state: CanvasState): CanvasState | null {
-		if (this.m_redo_stack.length === 0) return null;
-		this.m_undo_stack.push(UndoManager.Clone(current_state));
-		return this.m_redo_stack.pop()!;
+	Redo(lookup: ElementLookup): ElementEdit[] | null {
+		this.Seal();
+		const cmd = this.m_redo_stack.pop();
+		if (!cmd) return null;
+		this.m_undo_stack.push(cmd);
+		return Apply(Array.from(cmd.values()), lookup, false);
 	}
 
 	get Can_Undo(): boolean {
-		return this.m_undo_stack.length > 0;
+		return this.m_undo_stack.length > 0 || (this.m_open?.size ?? 0) > 0;
 	}
 
 	get Can_Redo(): boolean {
@@ -47,5 +89,114 @@ export class UndoManager {
 	Clear(): void {
 		this.m_undo_stack = [];
 		this.m_redo_stack = [];
+		this.m_open = null;
+		this.m_open_key = null;
+	}
+
+	private Seal(): void {
+		if (this.m_open && this.m_open.size > 0) {
+			this.m_undo_stack.push(this.m_open);
+			if (this.m_undo_stack.length > MAX_HISTORY) this.m_undo_stack.shift();
+		}
+		this.m_open = null;
+		this.m_open_key = null;
+	}
+
+	private Record(kind: ElementKind, before: BoardElement | undefined, after: BoardElement | undefined): void {
+		// Changes made while no command is open (nothing begun since the last undo) form their own
+		if (!this.m_open) this.Begin();
+		const cmd = this.m_open!;
+		const id = (before ?? after)!.id;
+		const prev = cmd.get(id);
+		const change = prev ? Combine(prev, before, after) : New_Change(kind, before, after);
+		if (change) cmd.set(id, change);
+		else cmd.delete(id);
+		// Any new action invalidates the redo stack
+		this.m_redo_stack = [];
+	}
+}
+
+function New_Change(kind: ElementKind, before: BoardElement | undefined, after: BoardElement | undefined): ElementChange | null {
+	if (!before) return { op: 'add', kind, item: after! };
+	if (!after) return { op: 'delete', kind, item: before };
+	const diff = Field_Diff(before, after);
+	return diff ? { op: 'update', kind, id: after.id, ...diff } : null;
+}
+
+// Fold a further change to an element into the change already recorded for it in a command
+function Combine(prev: ElementChange, before: BoardElement | undefined, after: BoardElement | undefined): ElementChange | null {
+	switch (prev.op) {
+		case 'add':
+			return after ? { ...prev, item: after } : null;
+		case 'delete': {
+			if (!after) return prev;
+			const diff = Field_Diff(prev.item, after);
+			return diff ? { op: 'update', kind: prev.kind, id: after.id, ...diff } : null;
+		}
+		case 'update': {
+			// Deleted: remember the element as it was before the command
+			if (!after) return { op: 'delete', kind: prev.kind, item: { ...before!, ...prev.before } as BoardElement };
+			const diff = before ? Field_Diff(before, after) : null;
+			if (!diff) return prev;
+			const merged_before: Fields = { ...diff.before, ...prev.before };
+			const merged_after: Fields = { ...prev.after, ...diff.after };
+			for (const key of Object.keys(merged_after)) {
+				if (Same(merged_before[key], merged_after[key])) {
+					delete merged_before[key];
+					delete merged_after[key];
+				}
+			}
+			return Object.keys(merged_after).length > 0 ? { ...prev, before: merged_before, after: merged_after } : null;
+		}
+	}
+}
+
+// The fields that differ between two versions of an element (null if none)
+function Field_Diff(before: BoardElement, after: BoardElement): { before: Fields; after: Fields } | null {
+	const b = before as unknown as Fields;
+	const a = after as unknown as Fields;
+	const diff: { before: Fields; after: Fields } = { before: {}, after: {} };
+	let changed = false;
+	for (const key of new Set([...Object.keys(b), ...Object.keys(a)])) {
+		if (Same(b[key], a[key])) continue;
+		diff.before[key] = b[key];
+		diff.after[key] = a[key];
+		changed = true;
+	}
+	return changed ? diff : null;
+}
+
+function Same(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Undo (or redo) a command's changes against the current board
+function Apply(changes: ElementChange[], lookup: ElementLookup, undo: boolean): ElementEdit[] {
+	const edits: ElementEdit[] = [];
+	for (const change of changes) {
+		if (change.op === 'update') {
+			const current = lookup(change.kind, change.id);
+			if (!current) continue;
+			const [from, to] = undo ? [change.after, change.before] : [change.before, change.after];
+			// Only fields nobody has changed since
+			const next: Fields = { ...(current as unknown as Fields) };
+			let changed = false;
+			for (const key of Object.keys(to)) {
+				if (!Same(next[key], from[key])) continue;
+				if (to[key] === undefined) delete next[key];
+				else next[key] = to[key];
+				changed = true;
+			}
+			if (changed) edits.push({ kind: change.kind, id: change.id, item: next as unknown as BoardElement });
+			continue;
+		}
+		const id = change.item.id;
+		const exists = !!lookup(change.kind, id);
+		const remove = (change.op === 'add') === undo;
+		if (remove && exists) edits.push({ kind: change.kind, id, item: null });
+		else if (!remove && !exists) edits.push({ kind: change.kind, id, item: change.item });
 	}
+	return edits;
 }
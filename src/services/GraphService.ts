@@ -1,12 +1,18 @@
 import type { CanvasState } from '../canvas/types';
+import { Migrate_State } from '../canvas/migrate';
+import { Referenced_Asset_Ids, Get_Asset, Has_Asset, Store_Asset } from '../canvas/assets';
 
 const GRAPH_BASE = 'https://graph.microsoft.com/v1.0';
 const APP_FOLDER_NAME = 'Whiteboard Live';
+const ASSETS_FOLDER_NAME = 'assets';
 const FILE_EXT = '.wbl.json';
 
 // Cache the app folder ID after first lookup
 let cached_folder_id: string | null = null;
 
+// Assets known to exist in a drive's assets folder (keyed by drive URL + asset id)
+const uploaded_assets = new Set<string>();
+
 export interface CloudBoard {
 	id: string;
 	name: string;
@@ -74,16 +80,59 @@ export async function List_Cloud_Boards(token: string): Promise<CloudBoard[]> {
 	}));
 }
 
-/** Load a board by its OneDrive item ID. */
+/**
+ * Upload the image assets a board references to the "assets" folder next to the board files.
+ * Asset ids are content hashes, so each image is uploaded once and shared between boards.
+ * `drive_url` is the drive's Graph URL (e.g. `${GRAPH_BASE}/me/drive`).
+ */
+async function Upload_Board_Assets(token: string, drive_url: string, state: CanvasState): Promise<void> {
+	for (const asset_id of Referenced_Asset_Ids(state)) {
+		const key = `${drive_url}|${asset_id}`;
+		if (uploaded_assets.has(key)) continue;
+		const url = `${drive_url}/root:/${APP_FOLDER_NAME}/${ASSETS_FOLDER_NAME}/${asset_id}`;
+
+		// Already in the drive (saved from this or another device)?
+		const existing = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+		if (!existing.ok) {
+			const blob = await Get_Asset(asset_id);
+			if (!blob) continue; // not on this device either — nothing we can do
+			await Graph_Fetch(token, `${url}:/content`, {
+				method: 'PUT',
+				headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+				body: blob,
+			});
+		}
+		uploaded_assets.add(key);
+	}
+}
+
+/** Download any image assets a board references that aren't on this device. Missing assets are skipped. */
+async function Download_Board_Assets(token: string, drive_url: string, state: CanvasState): Promise<void> {
+	for (const asset_id of Referenced_Asset_Ids(state)) {
+		if (await Has_Asset(asset_id)) continue;
+		try {
+			const res = await Graph_Fetch(token, `${drive_url}/root:/${APP_FOLDER_NAME}/${ASSETS_FOLDER_NAME}/${asset_id}:/content`);
+			await Store_Asset(asset_id, await res.blob());
+			uploaded_assets.add(`${drive_url}|${asset_id}`);
+		} catch (err) {
+			console.warn(`Image asset ${asset_id} unavailable:`, err);
+		}
+	}
+}
+
+/** Load a board by its OneDrive item ID, migrated to the current schema, along with its image assets. */
 export async function Load_Cloud_Board(token: string, item_id: string): Promise<CanvasState> {
 	const res = await Graph_Fetch(token, `${GRAPH_BASE}/me/drive/items/${item_id}/content`);
-	return await res.json();
+	const state = Migrate_State(await res.json());
+	await Download_Board_Assets(token, `${GRAPH_BASE}/me/drive`, state);
+	return state;
 }
 
-/** Save a board to the app folder (creates or updates by file name). */
+/** Save a board to the app folder (creates or updates by file name). Image assets are uploaded alongside. */
 export async function Save_Cloud_Board(token: string, name: string, state: CanvasState, existing_id?: string): Promise<CloudBoard> {
 	const file_name = Sanitize_Filename(name) + FILE_EXT;
 	const body = JSON.stringify(state);
+	await Upload_Board_Assets(token, `${GRAPH_BASE}/me/drive`, state);
 
 	let url: string;
 	if (existing_id) {
@@ -152,6 +201,7 @@ export async function Save_To_SharePoint(token: string, site_id: string, name: s
 	// Get the default drive for this site
 	const drive_res = await Graph_Fetch(token, `${GRAPH_BASE}/sites/${site_id}/drive`);
 	const drive = await drive_res.json();
+	await Upload_Board_Assets(token, `${GRAPH_BASE}/drives/${drive.id}`, state);
 
 	const url = `${GRAPH_BASE}/drives/${drive.id}/root:/Whiteboard Live/${file_name}:/content`;
 	const res = await Graph_Fetch(token, url, {
@@ -16,6 +16,12 @@ export default defineConfig({
 			// Allow Teams to embed this page in an iframe
 			'Content-Security-Policy': "frame-ancestors https://teams.microsoft.com https://*.teams.microsoft.com https://*.microsoft365.com https://*.office.com https://*.skype.com https://localhost:53000",
 		},
+		// Collaborate through the local relay (relay/server.mjs) instead of Azure Web PubSub:
+		// COLLAB_RELAY=http://localhost:53001 npm run dev
+		proxy: process.env.COLLAB_RELAY ? {
+			'/api': { target: process.env.COLLAB_RELAY, xfwd: true },
+			'/client': { target: process.env.COLLAB_RELAY, ws: true },
+		} : undefined,
 	},
 	build: {
 		outDir: 'dist',